@@ -0,0 +1,178 @@
+"use client";
+
+import * as React from "react";
+
+import { cn } from "@/lib/utils";
+
+// Vertical drag distance, in pixels, that sweeps the full range
+const DRAG_RANGE = 150;
+// Knob travel either side of twelve o'clock, in degrees
+const SWEEP = 135;
+
+interface KnobProps
+  extends Omit<React.ComponentProps<"div">, "onChange" | "defaultValue"> {
+  value: number;
+  min?: number;
+  max?: number;
+  step?: number;
+  // Value restored on double-click
+  defaultValue?: number;
+  // Value the arc is drawn from, e.g. the centre for a pan knob
+  origin?: number;
+  formatValue?: (value: number) => string;
+  onValueChange?: (value: number) => void;
+  onValueCommit?: (value: number) => void;
+}
+
+function Knob({
+  value,
+  min = 0,
+  max = 1,
+  step = 0.01,
+  defaultValue,
+  origin = min,
+  formatValue = (v) => v.toFixed(2),
+  onValueChange,
+  onValueCommit,
+  onPointerDown,
+  className,
+  ...props
+}: KnobProps) {
+  const dragRef = React.useRef<{
+    startY: number;
+    startValue: number;
+    lastValue: number;
+  } | null>(null);
+
+  const clamp = (v: number) =>
+    Math.min(max, Math.max(min, Math.round(v / step) * step));
+  const toAngle = (v: number) => ((v - min) / (max - min)) * 2 * SWEEP - SWEEP;
+
+  // Applies a change and returns the value actually set
+  const change = (next: number, current: number) => {
+    const clamped = clamp(next);
+    if (clamped !== current) onValueChange?.(clamped);
+    return clamped;
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (e.button !== 0) return;
+    onPointerDown?.(e);
+    e.currentTarget.setPointerCapture(e.pointerId);
+    dragRef.current = {
+      startY: e.clientY,
+      startValue: value,
+      lastValue: value,
+    };
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    const drag = dragRef.current;
+    if (!drag) return;
+    // Hold Shift for fine adjustment
+    const scale = e.shiftKey ? 0.1 : 1;
+    const delta = ((drag.startY - e.clientY) / DRAG_RANGE) * (max - min);
+    drag.lastValue = change(drag.startValue + delta * scale, drag.lastValue);
+  };
+
+  const handlePointerUp = (e: React.PointerEvent<HTMLDivElement>) => {
+    const drag = dragRef.current;
+    if (!drag) return;
+    dragRef.current = null;
+    e.currentTarget.releasePointerCapture(e.pointerId);
+    onValueCommit?.(drag.lastValue);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLDivElement>) => {
+    const steps: Record<string, number> = {
+      ArrowUp: 1,
+      ArrowRight: 1,
+      ArrowDown: -1,
+      ArrowLeft: -1,
+      PageUp: 10,
+      PageDown: -10,
+    };
+    let next: number;
+    if (e.key === "Home") next = min;
+    else if (e.key === "End") next = max;
+    else if (e.key in steps) next = value + steps[e.key] * step;
+    else return;
+
+    e.preventDefault();
+    onValueCommit?.(change(next, value));
+  };
+
+  const handleDoubleClick = () => {
+    if (defaultValue === undefined) return;
+    onValueCommit?.(change(defaultValue, value));
+  };
+
+  const angle = toAngle(value);
+  const originAngle = toAngle(origin);
+  const arcStart = Math.min(angle, originAngle);
+  const arcEnd = Math.max(angle, originAngle);
+  const point = (deg: number) => {
+    const rad = ((deg - 90) * Math.PI) / 180;
+    return { x: 12 + 9 * Math.cos(rad), y: 12 + 9 * Math.sin(rad) };
+  };
+  const polar = (deg: number) => {
+    const { x, y } = point(deg);
+    return `${x} ${y}`;
+  };
+  const pointer = point(angle);
+
+  return (
+    <div
+      data-slot="knob"
+      role="slider"
+      tabIndex={0}
+      aria-valuemin={min}
+      aria-valuemax={max}
+      aria-valuenow={value}
+      aria-valuetext={formatValue(value)}
+      title={formatValue(value)}
+      className={cn(
+        "size-6 shrink-0 cursor-ns-resize touch-none select-none rounded-full outline-none focus-visible:ring-2 focus-visible:ring-ring/50",
+        className,
+      )}
+      onPointerDown={handlePointerDown}
+      onPointerMove={handlePointerMove}
+      onPointerUp={handlePointerUp}
+      onPointerCancel={handlePointerUp}
+      onLostPointerCapture={handlePointerUp}
+      onKeyDown={handleKeyDown}
+      onDoubleClick={handleDoubleClick}
+      {...props}
+    >
+      <svg viewBox="0 0 24 24" className="size-full" aria-hidden="true">
+        <path
+          d={`M ${polar(-SWEEP)} A 9 9 0 1 1 ${polar(SWEEP)}`}
+          fill="none"
+          strokeWidth={2.5}
+          strokeLinecap="round"
+          className="stroke-muted"
+        />
+        {arcEnd > arcStart && (
+          <path
+            d={`M ${polar(arcStart)} A 9 9 0 ${arcEnd - arcStart > 180 ? 1 : 0} 1 ${polar(arcEnd)}`}
+            fill="none"
+            strokeWidth={2.5}
+            strokeLinecap="round"
+            className="stroke-primary"
+          />
+        )}
+        <line
+          x1={12}
+          y1={12}
+          x2={pointer.x}
+          y2={pointer.y}
+          strokeWidth={2}
+          strokeLinecap="round"
+          className="stroke-foreground"
+        />
+      </svg>
+    </div>
+  );
+}
+
+export { Knob };
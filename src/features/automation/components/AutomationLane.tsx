@@ -0,0 +1,239 @@
+"use client";
+
+import { useRef, useState } from "react";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuRadioGroup,
+  DropdownMenuRadioItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import type { Track } from "@/features/core-audio/types/audio";
+import {
+  beginHistoryGesture,
+  endHistoryGesture,
+} from "@/features/history/lib/history";
+import {
+  bypassesSnap,
+  createSnapper,
+  snapTime,
+} from "@/features/timeline-ruler/lib/snap";
+import { useTimelineStore } from "@/features/timeline-ruler/store/timelineStore";
+import { useTrackStore } from "@/features/track-manager/store/trackStore";
+import {
+  AUTOMATION_CURVE_LABELS,
+  AUTOMATION_CURVES,
+  AUTOMATION_LANE_HEIGHT,
+  AUTOMATION_RANGES,
+  isAutomationCurve,
+  valueAt,
+} from "../lib/automation";
+import type { AutomationParam } from "../types/automation";
+
+// Vertical inset so points at the range limits stay fully visible
+const PADDING = 5;
+// Horizontal spacing of the samples the drawn curve is built from
+const SAMPLE_PIXELS = 3;
+
+interface AutomationLaneProps {
+  track: Track;
+  param: AutomationParam;
+  // Horizontal slice of the arrangement to draw, in pixels
+  windowStart: number;
+  windowWidth: number;
+}
+
+/**
+ * One breakpoint lane under a track row. Clicking empty space adds a point
+ * and drags it; points are dragged to move, double-clicked to delete and
+ * right-clicked for the curve leading to the next point.
+ */
+export function AutomationLane({
+  track,
+  param,
+  windowStart,
+  windowWidth,
+}: AutomationLaneProps) {
+  const pixelsPerSecond = useTimelineStore((s) => s.pixelsPerSecond);
+  const { addAutomationPoint, updateAutomationPoint, removeAutomationPoint } =
+    useTrackStore();
+  const svgRef = useRef<SVGSVGElement>(null);
+  const [menuPointId, setMenuPointId] = useState<string | null>(null);
+
+  const points = track.automation[param];
+  const { min, max } = AUTOMATION_RANGES[param];
+  const height = AUTOMATION_LANE_HEIGHT;
+  const inner = height - 2 * PADDING;
+
+  const toY = (value: number) =>
+    PADDING + (1 - (value - min) / (max - min)) * inner;
+  const toX = (time: number) => time * pixelsPerSecond - windowStart;
+
+  const positionAt = (e: PointerEvent | React.PointerEvent) => {
+    const rect = svgRef.current?.getBoundingClientRect();
+    if (!rect) return null;
+    const time = snapTime(
+      bypassesSnap(e) ? null : createSnapper(),
+      Math.max(0, (e.clientX - rect.left + windowStart) / pixelsPerSecond),
+    );
+    const ratio = 1 - (e.clientY - rect.top - PADDING) / inner;
+    const value = min + Math.min(1, Math.max(0, ratio)) * (max - min);
+    return { time, value };
+  };
+
+  const dragPoint = (pointId: string) => {
+    beginHistoryGesture();
+    const handleMove = (e: PointerEvent) => {
+      const position = positionAt(e);
+      if (position) updateAutomationPoint(track.id, param, pointId, position);
+    };
+    const handleUp = () => {
+      window.removeEventListener("pointermove", handleMove);
+      window.removeEventListener("pointerup", handleUp);
+      endHistoryGesture();
+    };
+    window.addEventListener("pointermove", handleMove);
+    window.addEventListener("pointerup", handleUp);
+  };
+
+  const handleLanePointerDown = (e: React.PointerEvent<SVGSVGElement>) => {
+    if (e.button !== 0 || e.target !== e.currentTarget) return;
+    const position = positionAt(e);
+    if (!position) return;
+    const id = Math.random().toString(36).substring(7);
+    // The new point and the drag that follows are one undo step
+    beginHistoryGesture();
+    addAutomationPoint(track.id, param, { id, curve: "linear", ...position });
+    dragPoint(id);
+    endHistoryGesture();
+  };
+
+  // Sample the whole visible stretch so every curve shape is drawn as played
+  const staticValue = param === "volume" ? track.volume : track.pan;
+  const samples: string[] = [];
+  for (let x = 0; x <= windowWidth + SAMPLE_PIXELS; x += SAMPLE_PIXELS) {
+    const value =
+      valueAt(points, (windowStart + x) / pixelsPerSecond) ?? staticValue;
+    samples.push(`${x},${toY(value).toFixed(1)}`);
+  }
+
+  const visible = points.filter((point) => {
+    const x = toX(point.time);
+    return x >= -PADDING && x <= windowWidth + PADDING;
+  });
+  const menuPoint = points.find((p) => p.id === menuPointId);
+
+  return (
+    <div
+      className="absolute top-0"
+      style={{ left: windowStart, width: windowWidth, height }}
+    >
+      <svg
+        ref={svgRef}
+        role="application"
+        aria-label={`${AUTOMATION_RANGES[param].label} Automation`}
+        width={windowWidth}
+        height={height}
+        className="block cursor-crosshair"
+        onPointerDown={handleLanePointerDown}
+      >
+        <polyline
+          points={samples.join(" ")}
+          fill="none"
+          stroke={track.color}
+          strokeWidth={1.5}
+          strokeDasharray={points.length === 0 ? "4 4" : undefined}
+          opacity={points.length === 0 ? 0.4 : 0.9}
+          pointerEvents="none"
+        />
+        {visible.map((point) => (
+          <circle
+            key={point.id}
+            cx={toX(point.time)}
+            cy={toY(point.value)}
+            r={4}
+            fill={track.color}
+            stroke="white"
+            strokeWidth={point.id === menuPointId ? 2 : 1}
+            role="slider"
+            tabIndex={0}
+            aria-valuemin={min}
+            aria-valuemax={max}
+            aria-valuenow={point.value}
+            aria-label={`Automation Point ${point.time.toFixed(2)}s`}
+            className="cursor-grab outline-none"
+            onKeyDown={(e) => {
+              if (e.key === "Delete" || e.key === "Backspace") {
+                // Not the selected clips as well
+                e.preventDefault();
+                removeAutomationPoint(track.id, param, point.id);
+              }
+            }}
+            onPointerDown={(e) => {
+              if (e.button !== 0) return;
+              e.stopPropagation();
+              dragPoint(point.id);
+            }}
+            onDoubleClick={() =>
+              removeAutomationPoint(track.id, param, point.id)
+            }
+            onContextMenu={(e) => {
+              e.preventDefault();
+              setMenuPointId(point.id);
+            }}
+          />
+        ))}
+      </svg>
+
+      <DropdownMenu
+        open={menuPoint !== undefined}
+        onOpenChange={(open) => {
+          if (!open) setMenuPointId(null);
+        }}
+      >
+        <DropdownMenuTrigger asChild>
+          <span
+            aria-hidden
+            className="absolute size-0 pointer-events-none"
+            style={{
+              left: menuPoint ? toX(menuPoint.time) : 0,
+              top: menuPoint ? toY(menuPoint.value) : 0,
+            }}
+          />
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="start" className="w-36">
+          {menuPoint && (
+            <>
+              <DropdownMenuRadioGroup
+                value={menuPoint.curve}
+                onValueChange={(curve) => {
+                  if (isAutomationCurve(curve))
+                    updateAutomationPoint(track.id, param, menuPoint.id, {
+                      curve,
+                    });
+                }}
+              >
+                {AUTOMATION_CURVES.map((curve) => (
+                  <DropdownMenuRadioItem key={curve} value={curve}>
+                    {AUTOMATION_CURVE_LABELS[curve]}
+                  </DropdownMenuRadioItem>
+                ))}
+              </DropdownMenuRadioGroup>
+              <DropdownMenuSeparator />
+              <DropdownMenuItem
+                variant="destructive"
+                onSelect={() =>
+                  removeAutomationPoint(track.id, param, menuPoint.id)
+                }
+              >
+                Delete Point
+              </DropdownMenuItem>
+            </>
+          )}
+        </DropdownMenuContent>
+      </DropdownMenu>
+    </div>
+  );
+}
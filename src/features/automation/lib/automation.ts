@@ -0,0 +1,147 @@
+import type {
+  AutomationCurve,
+  AutomationParam,
+  AutomationPoint,
+  TrackAutomation,
+} from "../types/automation";
+
+export const AUTOMATION_PARAMS: AutomationParam[] = ["volume", "pan"];
+
+export const AUTOMATION_CURVES: AutomationCurve[] = [
+  "linear",
+  "ease-in",
+  "ease-out",
+  "smooth",
+  "step",
+];
+
+export const AUTOMATION_CURVE_LABELS: Record<AutomationCurve, string> = {
+  linear: "Linear",
+  "ease-in": "Ease In",
+  "ease-out": "Ease Out",
+  smooth: "S-Curve",
+  step: "Hold",
+};
+
+export const AUTOMATION_RANGES: Record<
+  AutomationParam,
+  { min: number; max: number; label: string }
+> = {
+  volume: { min: 0, max: 1, label: "Volume" },
+  pan: { min: -1, max: 1, label: "Pan" },
+};
+
+// Height in pixels of an expanded lane, in the timeline and the sidebar
+export const AUTOMATION_LANE_HEIGHT = 48;
+
+export function createTrackAutomation(): TrackAutomation {
+  return { volume: [], pan: [] };
+}
+
+export function isAutomationCurve(value: unknown): value is AutomationCurve {
+  return AUTOMATION_CURVES.includes(value as AutomationCurve);
+}
+
+export function sortPoints(points: AutomationPoint[]): AutomationPoint[] {
+  return [...points].sort((a, b) => a.time - b.time);
+}
+
+// Progress 0-1 through a segment mapped to progress 0-1 in value
+function shape(curve: AutomationCurve, t: number): number {
+  switch (curve) {
+    case "ease-in":
+      return t * t;
+    case "ease-out":
+      return 1 - (1 - t) * (1 - t);
+    case "smooth":
+      return (1 - Math.cos(Math.PI * t)) / 2;
+    case "step":
+      return 0;
+    default:
+      return t;
+  }
+}
+
+function segmentValue(
+  from: AutomationPoint,
+  to: AutomationPoint,
+  time: number,
+): number {
+  const span = to.time - from.time;
+  if (span <= 0) return to.value;
+  const t = Math.min(1, Math.max(0, (time - from.time) / span));
+  return from.value + (to.value - from.value) * shape(from.curve, t);
+}
+
+/**
+ * The automated value at `time`: held at the first point before it and at
+ * the last point after it. Returns `undefined` for an empty lane.
+ */
+export function valueAt(
+  points: AutomationPoint[],
+  time: number,
+): number | undefined {
+  if (points.length === 0) return undefined;
+  if (time <= points[0].time) return points[0].value;
+  for (let i = 0; i < points.length - 1; i++) {
+    if (time < points[i + 1].time) {
+      return segmentValue(points[i], points[i + 1], time);
+    }
+  }
+  return points[points.length - 1].value;
+}
+
+/**
+ * One stretch of the lane to schedule: a constant value from `start`, or a
+ * curve sampled from `start` to `end`.
+ */
+export type AutomationSpan =
+  | { kind: "set"; start: number; value: number }
+  | { kind: "curve"; start: number; end: number; values: number[] };
+
+// Curve resolution; breakpoints themselves are always exact
+const SAMPLES_PER_SECOND = 100;
+const MAX_SAMPLES = 512;
+
+/**
+ * Breaks the lane into spans covering `from` (inclusive) to `until`, ready
+ * to be scheduled on an audio parameter. Times stay in timeline seconds.
+ */
+export function getAutomationSpans(
+  points: AutomationPoint[],
+  from: number,
+  until = Number.POSITIVE_INFINITY,
+): AutomationSpan[] {
+  const initial = valueAt(points, from);
+  if (initial === undefined) return [];
+
+  const spans: AutomationSpan[] = [
+    { kind: "set", start: from, value: initial },
+  ];
+  for (let i = 0; i < points.length - 1; i++) {
+    const point = points[i];
+    const next = points[i + 1];
+    const start = Math.max(point.time, from);
+    const end = Math.min(next.time, until);
+    if (end <= start) continue;
+
+    if (point.curve === "step") {
+      spans.push({ kind: "set", start, value: point.value });
+      continue;
+    }
+    const count = Math.min(
+      MAX_SAMPLES,
+      Math.max(2, Math.ceil((end - start) * SAMPLES_PER_SECOND) + 1),
+    );
+    const values = Array.from({ length: count }, (_, n) =>
+      segmentValue(point, next, start + ((end - start) * n) / (count - 1)),
+    );
+    spans.push({ kind: "curve", start, end, values });
+  }
+
+  const last = points[points.length - 1];
+  if (last.time > from && last.time < until) {
+    spans.push({ kind: "set", start: last.time, value: last.value });
+  }
+  return spans;
+}
@@ -0,0 +1,24 @@
+export type AutomationParam = "volume" | "pan";
+
+// Shape of the segment from a point to the next one
+export type AutomationCurve =
+  | "linear"
+  | "ease-in"
+  | "ease-out"
+  | "smooth"
+  | "step";
+
+/**
+ * A breakpoint. `value` is in the units of the track control it automates:
+ * 0-1 fader position for volume, -1 (left) to 1 (right) for pan.
+ */
+export interface AutomationPoint {
+  id: string;
+  time: number; // Seconds on the timeline
+  value: number;
+  curve: AutomationCurve;
+}
+
+// Points per parameter, sorted by time; an empty lane leaves the static
+// track value in charge
+export type TrackAutomation = Record<AutomationParam, AutomationPoint[]>;
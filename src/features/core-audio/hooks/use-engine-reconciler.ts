@@ -0,0 +1,17 @@
+"use client";
+
+import { useEffect } from "react";
+import { AudioEngine } from "../lib/audio-engine";
+import { startEngineReconciler } from "../lib/engine-reconciler";
+
+/**
+ * Keeps the audio engine in step with the track and audio stores for as long
+ * as the calling component is mounted. Mount once.
+ */
+export function useEngineReconciler() {
+  useEffect(() => {
+    const engine = AudioEngine.getInstance();
+    if (!engine) return;
+    return startEngineReconciler(engine);
+  }, []);
+}
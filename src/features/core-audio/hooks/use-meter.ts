@@ -0,0 +1,63 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { onAnimationFrame } from "../lib/animation-loop";
+import { AudioEngine } from "../lib/audio-engine";
+import type { Meter, MeterReading } from "../lib/meter";
+
+/**
+ * The latest reading of a track's meter, or the master's for `null`,
+ * refreshed on the shared animation loop when it has changed, and a function
+ * that resets its hold, clip and integrated values. The reading is `null`
+ * until the meter is running.
+ */
+function useMeter(trackId: string | null) {
+  const [meter, setMeter] = useState<Meter | null>(null);
+  const [reading, setReading] = useState<MeterReading | null>(null);
+
+  useEffect(() => {
+    const engine = AudioEngine.getInstance();
+    if (!engine) return;
+
+    let cancelled = false;
+    let unsubscribe = () => {};
+    const load = trackId
+      ? engine.getTrackMeter(trackId)
+      : engine.getMasterMeter();
+    load.then(
+      (created) => {
+        if (cancelled) return;
+        setMeter(created);
+        let last: MeterReading | null = null;
+        unsubscribe = onAnimationFrame(() => {
+          if (created.reading !== last) {
+            last = created.reading;
+            setReading(last);
+          }
+        });
+      },
+      (e) => console.error("Failed to start a meter", e),
+    );
+
+    return () => {
+      cancelled = true;
+      unsubscribe();
+    };
+  }, [trackId]);
+
+  const reset = () => {
+    if (!meter) return;
+    meter.reset();
+    setReading(meter.reading);
+  };
+
+  return { reading, reset };
+}
+
+export function useMasterMeter() {
+  return useMeter(null);
+}
+
+export function useTrackMeter(trackId: string) {
+  return useMeter(trackId);
+}
@@ -0,0 +1,24 @@
+const callbacks = new Set<() => void>();
+let frameId: number | null = null;
+
+function tick() {
+  for (const callback of callbacks) callback();
+  frameId = callbacks.size > 0 ? requestAnimationFrame(tick) : null;
+}
+
+/**
+ * Runs `callback` on every animation frame. All subscribers share one
+ * `requestAnimationFrame` loop, which only runs while someone is subscribed.
+ * Returns an unsubscribe function.
+ */
+export function onAnimationFrame(callback: () => void): () => void {
+  callbacks.add(callback);
+  if (frameId === null) frameId = requestAnimationFrame(tick);
+  return () => {
+    callbacks.delete(callback);
+    if (callbacks.size === 0 && frameId !== null) {
+      cancelAnimationFrame(frameId);
+      frameId = null;
+    }
+  };
+}
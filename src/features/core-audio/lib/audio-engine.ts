@@ -1,21 +1,119 @@
 import * as Tone from "tone";
+import { createTrackAutomation } from "@/features/automation/lib/automation";
+import type { TrackAutomation } from "@/features/automation/types/automation";
+import type { EffectDevice } from "@/features/effects/types/effects";
+import { getClipGainSpans } from "@/features/fades/lib/fades";
+import type { ClipFades } from "@/features/fades/types/fades";
+import {
+    DEFAULT_WARP_QUALITY,
+    getWarpDetune,
+    needsWarp,
+    WARP_GRAINS,
+} from "@/features/warp/lib/warp";
+import type { WarpQuality } from "@/features/warp/types/warp";
+import type { AudioBlock, MasterBus, TrackSend } from "../types/audio";
+import { acquireBuffer, releaseBuffer } from "./buffer-pool";
+import {
+    createMasterChain,
+    type MasterChain,
+    setMasterChainBus,
+} from "./master-bus";
+import { createMeter, type Meter } from "./meter";
+import { DEFAULT_MASTER_BUS, volumeToDb } from "./mix-utils";
+import {
+    type AutomatedControls,
+    createTrackStrip,
+    disposeTrackStrip,
+    holdStripAutomation,
+    routeStripOutput,
+    scheduleSpans,
+    scheduleStripAutomation,
+    setChannelVolume,
+    setStripEffects,
+    setStripSends,
+    type TrackStrip,
+    toWidenerWidth,
+} from "./track-strip";
+import { WarpPlayer } from "./warp-player";
 
+// Mute is the effective state, including silencing by other tracks' solo
+export type TrackControl = 'volume' | 'mute' | 'pan' | 'width';
+
+// How a block plays where it is placed
+export interface ClipPlayback {
+    rate: number; // Source seconds per timeline second
+    fades: ClipFades; // Including crossfades with the blocks it overlaps
+}
+
+interface ScheduledBlock {
+    trackId: string;
+    block: AudioBlock;
+    playback: ClipPlayback;
+    // Clip gain and fades, between the player and the track strip
+    gain: Tone.Gain;
+    // The pooled decode this clip holds, released with it
+    source: Promise<AudioBuffer>;
+    // Null until the pooled buffer has been decoded
+    buffer: AudioBuffer | null;
+    // A plain player unless the clip is stretched or transposed
+    player: Tone.Player | WarpPlayer | null;
+}
+
+/**
+ * Plays the arrangement. Everything the engine is given is placed in seconds:
+ * musical positions are resolved through the tempo map before they get
+ * here. The transport's own BPM therefore stays at Tone's default; Tone turns
+ * synced start times into ticks at the current BPM, so changing it would
+ * shift every scheduled clip.
+ */
 export class AudioEngine {
     private static instance: AudioEngine;
-    public analyser: Tone.Analyser;
-    private channels: Map<string, Tone.Channel> = new Map();
-    private players: Map<string, Tone.Player> = new Map();
+    private master: MasterChain;
+    private masterMeter: Promise<Meter> | null = null;
+    private trackMeters: Map<string, Promise<Meter>> = new Map();
+    private strips: Map<string, TrackStrip> = new Map();
+    // Static volume and pan plus automation, per track, for rescheduling
+    private controls: Map<string, AutomatedControls> = new Map();
+    private players: Map<string, ScheduledBlock> = new Map();
     private mic: Tone.UserMedia | null = null;
     private recorder: Tone.Recorder | null = null;
     private recordingStartTimestamp: number = 0;
+    private warpQuality: WarpQuality = DEFAULT_WARP_QUALITY;
 
     private constructor() {
-        // Analyser for VU meter
-        this.analyser = new Tone.Analyser("fft", 256);
-        Tone.getDestination().connect(this.analyser);
+        // Neutral until the reconciler pushes the project's master settings
+        this.master = createMasterChain(DEFAULT_MASTER_BUS, 1);
+        this.master.output.toDestination();
 
         // Initialize Recorder
         this.recorder = new Tone.Recorder();
+
+        // Automation is laid out on the context timeline whenever the
+        // transport jumps: on start and at every loop restart
+        const transport = Tone.getTransport();
+        transport.on("start", (time, offset) => {
+            this.scheduleAutomation(offset ?? 0, time);
+            this.scheduleClipGains(offset ?? 0, time);
+        });
+        transport.on("loop", (time) => {
+            const loopStart = transport.toSeconds(transport.loopStart);
+            this.scheduleAutomation(loopStart, time);
+            this.scheduleClipGains(loopStart, time);
+        });
+        const hold = (time: number) => {
+            const position = transport.getSecondsAtTime(time);
+            for (const trackId of this.controls.keys()) {
+                holdStripAutomation(
+                    this.getStrip(trackId),
+                    this.getControls(trackId),
+                    position,
+                    time,
+                );
+            }
+            this.scheduleClipGains(position, time, this.players.values(), position);
+        };
+        transport.on("pause", hold);
+        transport.on("stop", hold);
     }
 
     public static getInstance(): AudioEngine {
@@ -26,58 +124,223 @@ export class AudioEngine {
         return AudioEngine.instance;
     }
 
-    public async scheduleBlock(trackId: string, block: any) {
-        // block as AudioBlock
-        const channel = this.getChannel(trackId);
+    /**
+     * Places a block on the transport, playing at the warp rate and with the
+     * fades its position resolves to.
+     */
+    public scheduleBlock(trackId: string, block: AudioBlock, playback: ClipPlayback) {
+        const existing = this.players.get(block.id);
+        if (existing && existing.block.mediaId === block.mediaId) {
+            const moved =
+                existing.trackId !== trackId ||
+                existing.block.startTime !== block.startTime ||
+                existing.block.offset !== block.offset ||
+                existing.block.duration !== block.duration ||
+                existing.block.warp !== block.warp ||
+                existing.playback.rate !== playback.rate;
+            existing.trackId = trackId;
+            existing.block = block;
+            existing.playback = playback;
+            // Same source: just move the player, the buffer stays decoded.
+            // Gain and fade changes leave a playing clip running.
+            if (moved) this.placePlayer(existing);
+            else this.updateClipGain(existing);
+            return;
+        }
+        if (existing) this.unscheduleBlock(block.id);
+
+        const scheduled: ScheduledBlock = {
+            trackId,
+            block,
+            playback,
+            gain: new Tone.Gain(0),
+            source: acquireBuffer(block.mediaId, block.blobUrl),
+            buffer: null,
+            player: null,
+        };
+        this.players.set(block.id, scheduled);
+
+        scheduled.source.then(
+            (buffer) => {
+                // Unscheduled or replaced while decoding
+                if (this.players.get(block.id) !== scheduled) return;
+                scheduled.buffer = buffer;
+                this.placePlayer(scheduled);
+            },
+            (e) => console.error("Failed to load clip audio", e),
+        );
+    }
 
-        // Clean up existing player if any
-        if (this.players.has(block.id)) {
-            this.players.get(block.id)?.dispose();
+    private placePlayer(scheduled: ScheduledBlock) {
+        const { trackId, block, playback: { rate }, gain, buffer } = scheduled;
+        if (!buffer) return;
+        // The grain player is only used when needed; the plain one is exact
+        const warped = needsWarp(block.warp, rate);
+        if (!scheduled.player || warped !== scheduled.player instanceof WarpPlayer) {
+            scheduled.player?.dispose();
+            scheduled.player = warped ? new WarpPlayer(buffer) : new Tone.Player(buffer);
+        }
+        const player = scheduled.player;
+        player.disconnect().connect(gain);
+        gain.disconnect().connect(this.getStrip(trackId).input);
+        if (player instanceof WarpPlayer) {
+            player.set({
+                playbackRate: rate,
+                detune: getWarpDetune(block.warp),
+                ...WARP_GRAINS[this.warpQuality],
+            });
+            player.unsync().sync().start(block.startTime, block.offset / rate, block.duration);
+        } else {
+            player.unsync().sync().start(block.startTime, block.offset, block.duration);
         }
+        this.updateClipGain(scheduled);
+    }
 
-        const player = new Tone.Player(block.blobUrl).connect(channel);
-        player.sync().start(block.startTime, block.offset, block.duration);
-        this.players.set(block.id, player);
+    private updateClipGain(scheduled: ScheduledBlock) {
+        const transport = Tone.getTransport();
+        const now = Tone.now();
+        if (transport.state === "started") {
+            this.scheduleClipGains(transport.getSecondsAtTime(now), now, [scheduled]);
+        } else {
+            this.scheduleClipGains(transport.seconds, now, [scheduled], transport.seconds);
+        }
+    }
 
-        await Tone.loaded();
+    // Lays out clip gain and fades like automation, up to the loop end
+    private scheduleClipGains(
+        from: number,
+        at: number,
+        clips: Iterable<ScheduledBlock> = this.players.values(),
+        until = this.getScheduleEnd(),
+    ) {
+        for (const { block, playback, gain } of clips) {
+            gain.gain.cancelScheduledValues(at);
+            scheduleSpans(
+                gain.gain,
+                getClipGainSpans(block, playback.fades, from, until),
+                (value) => value,
+                (time) => at + (time - from),
+            );
+        }
     }
 
     public unscheduleBlock(blockId: string) {
-        const player = this.players.get(blockId);
-        if (player) {
-            player.dispose();
+        const scheduled = this.players.get(blockId);
+        if (scheduled) {
+            scheduled.player?.dispose();
+            scheduled.gain.dispose();
+            releaseBuffer(scheduled.block.mediaId, scheduled.source);
             this.players.delete(blockId);
         }
     }
 
-    public getChannel(trackId: string): Tone.Channel {
-        if (!this.channels.has(trackId)) {
-            const channel = new Tone.Channel().toDestination();
-            this.channels.set(trackId, channel);
+    private getStrip(trackId: string): TrackStrip {
+        let strip = this.strips.get(trackId);
+        if (!strip) {
+            // Neutral until the reconciler pushes the track's controls
+            strip = createTrackStrip({
+                volume: 1,
+                isMuted: false,
+                pan: 0,
+                stereoWidth: 1,
+                effects: [],
+            });
+            routeStripOutput(strip, this.master.input);
+            this.strips.set(trackId, strip);
+        }
+        return strip;
+    }
+
+    private getControls(trackId: string): AutomatedControls {
+        let controls = this.controls.get(trackId);
+        if (!controls) {
+            controls = { volume: 1, pan: 0, automation: createTrackAutomation() };
+            this.controls.set(trackId, controls);
+        }
+        return controls;
+    }
+
+    // Scheduling stops at the loop end, where the loop handler takes over
+    private getScheduleEnd(): number | undefined {
+        const transport = Tone.getTransport();
+        return transport.loop ? transport.toSeconds(transport.loopEnd) : undefined;
+    }
+
+    private scheduleAutomation(from: number, at: number, trackIds: Iterable<string> = this.controls.keys()) {
+        const until = this.getScheduleEnd();
+        for (const trackId of trackIds) {
+            scheduleStripAutomation(this.getStrip(trackId), this.getControls(trackId), from, at, until);
         }
-        return this.channels.get(trackId)!;
     }
 
     public removeChannel(trackId: string) {
-        const channel = this.channels.get(trackId);
-        if (channel) {
-            channel.dispose();
-            this.channels.delete(trackId);
+        this.controls.delete(trackId);
+        const meter = this.trackMeters.get(trackId);
+        if (meter) {
+            meter.then((m) => m.dispose(), () => {});
+            this.trackMeters.delete(trackId);
+        }
+        const strip = this.strips.get(trackId);
+        if (strip) {
+            disposeTrackStrip(strip);
+            this.strips.delete(trackId);
         }
     }
 
-    public updateTrackControl(trackId: string, type: 'volume' | 'mute' | 'solo', value: any) {
-        const channel = this.getChannel(trackId);
+    public updateTrackControl(trackId: string, type: TrackControl, value: number | boolean) {
+        const { channel, widener } = this.getStrip(trackId);
+        const controls = this.getControls(trackId);
+        // Automated volume and pan are remembered for when the lane empties
         if (type === 'volume') {
             // value in decimal 0-1
-            channel.volume.value = 20 * Math.log10(Math.max(value, 0.001));
+            controls.volume = Number(value);
+            if (controls.automation.volume.length === 0) {
+                setChannelVolume(channel, volumeToDb(controls.volume));
+            }
         } else if (type === 'mute') {
-            channel.mute = value;
-        } else if (type === 'solo') {
-            channel.solo = value;
+            channel.mute = Boolean(value);
+        } else if (type === 'pan') {
+            // value from -1 (left) to 1 (right)
+            controls.pan = Number(value);
+            if (controls.automation.pan.length === 0) {
+                channel.pan.value = controls.pan;
+            }
+        } else if (type === 'width') {
+            widener.width.value = toWidenerWidth(Number(value));
         }
     }
 
+    public updateTrackAutomation(trackId: string, automation: TrackAutomation) {
+        const controls = this.getControls(trackId);
+        controls.automation = automation;
+        const transport = Tone.getTransport();
+        const now = Tone.now();
+        if (transport.state === "started") {
+            this.scheduleAutomation(transport.getSecondsAtTime(now), now, [trackId]);
+        } else {
+            holdStripAutomation(this.getStrip(trackId), controls, transport.seconds, now);
+        }
+    }
+
+    public updateTrackEffects(trackId: string, effects: EffectDevice[]) {
+        setStripEffects(this.getStrip(trackId), effects);
+    }
+
+    public setTrackOutput(trackId: string, outputTrackId: string | null) {
+        const destination = outputTrackId
+            ? this.getStrip(outputTrackId).input
+            : this.master.input;
+        routeStripOutput(this.getStrip(trackId), destination);
+    }
+
+    public setTrackSends(trackId: string, sends: TrackSend[], silenced: boolean) {
+        setStripSends(
+            this.getStrip(trackId),
+            sends.map((send) => ({ send, target: this.getStrip(send.returnId) })),
+            silenced,
+        );
+    }
+
     public async resume() {
         if (Tone.getContext().state !== "running") {
             await Tone.start();
@@ -102,40 +365,57 @@ export class AudioEngine {
         Tone.getTransport().seconds = seconds;
     }
 
-    public setBpm(bpm: number) {
-        Tone.getTransport().bpm.value = bpm;
-    }
-
     public setLoop(loop: boolean, start?: number, end?: number) {
         Tone.getTransport().loop = loop;
         if (start !== undefined) Tone.getTransport().loopStart = start;
         if (end !== undefined) Tone.getTransport().loopEnd = end;
     }
 
-    public setTimeSignature(numerator: number) {
-        // Tone.js uses numerator for its internal time signature logic
-        Tone.getTransport().timeSignature = numerator;
+    // Applies to warped clips already playing as well
+    public setWarpQuality(quality: WarpQuality) {
+        this.warpQuality = quality;
+        for (const { player } of this.players.values()) {
+            if (player instanceof WarpPlayer) player.set(WARP_GRAINS[quality]);
+        }
     }
 
     public setVolume(db: number) {
-        // Volume in decibels
-        Tone.getDestination().volume.value = db;
+        // Volume in decibels, applied by the master fader
+        this.master.fader.volume.value = db;
+    }
+
+    public updateMasterBus(masterBus: MasterBus) {
+        setMasterChainBus(this.master, masterBus);
     }
 
     public getSeconds(): number {
         return Tone.getTransport().seconds;
     }
 
-    public getVuLevels(): number[] {
-        const values = this.analyser.getValue() as Float32Array;
-        // Simple peak detection or average for VU
-        let sum = 0;
-        for (let i = 0; i < values.length; i++) {
-            sum += Math.abs(values[i]);
+    /**
+     * The meter on the master output, after the limiter. Created on first use.
+     */
+    public getMasterMeter(): Promise<Meter> {
+        if (!this.masterMeter) {
+            this.masterMeter = createMeter(this.master.output);
+        }
+        return this.masterMeter;
+    }
+
+    /**
+     * A light meter (sample peak and RMS) on a track's channel, post-fader.
+     * Created on first use and disposed with the channel.
+     */
+    public getTrackMeter(trackId: string): Promise<Meter> {
+        let meter = this.trackMeters.get(trackId);
+        if (!meter) {
+            meter = createMeter(this.getStrip(trackId).channel, {
+                loudness: false,
+                truePeak: false,
+            });
+            this.trackMeters.set(trackId, meter);
         }
-        const avg = sum / values.length;
-        // Return 0-1 range roughly
-        return [avg, avg]; // Mono-to-stereo mock
+        return meter;
     }
 
     public async startRecording() {
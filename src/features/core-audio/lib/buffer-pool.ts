@@ -0,0 +1,56 @@
+import * as Tone from "tone";
+
+/**
+ * Decoded audio shared by every player that plays the same media. Entries are
+ * reference counted: the first `acquireBuffer` for a media ID fetches and
+ * decodes it, later ones reuse the result, and the buffer is dropped once the
+ * last holder calls `releaseBuffer` with the promise it was given. A failed
+ * decode leaves the pool at once so the next acquire retries; releases of the
+ * failed promise then do nothing, rather than counting against the retry.
+ */
+interface PooledBuffer {
+  refs: number;
+  buffer: Promise<AudioBuffer>;
+}
+
+const pool = new Map<string, PooledBuffer>();
+
+async function decode(url: string): Promise<AudioBuffer> {
+  const buffer = (await Tone.ToneAudioBuffer.fromUrl(url)).get();
+  if (!buffer) throw new Error(`Failed to decode audio from ${url}`);
+  return buffer;
+}
+
+export function acquireBuffer(
+  mediaId: string,
+  url: string,
+): Promise<AudioBuffer> {
+  const existing = pool.get(mediaId);
+  if (existing) {
+    existing.refs += 1;
+    return existing.buffer;
+  }
+
+  const entry: PooledBuffer = { refs: 1, buffer: decode(url) };
+  pool.set(mediaId, entry);
+  entry.buffer.catch(() => {
+    // Let the next acquire retry instead of caching the failure
+    if (pool.get(mediaId) === entry) pool.delete(mediaId);
+  });
+  return entry.buffer;
+}
+
+export function releaseBuffer(mediaId: string, buffer: Promise<AudioBuffer>) {
+  const entry = pool.get(mediaId);
+  if (entry?.buffer !== buffer) return;
+  entry.refs -= 1;
+  if (entry.refs <= 0) pool.delete(mediaId);
+}
+
+/**
+ * Returns the pooled buffer if the media is already in use, or decodes it
+ * without adding it to the pool. For one-off readers such as offline render.
+ */
+export function loadBuffer(mediaId: string, url: string): Promise<AudioBuffer> {
+  return pool.get(mediaId)?.buffer ?? decode(url);
+}
@@ -0,0 +1,228 @@
+import { fadesEqual, resolveClipFades } from "@/features/fades/lib/fades";
+import type { ClipFades } from "@/features/fades/types/fades";
+import {
+  createTempoMap,
+  type TempoMap,
+} from "@/features/tempo-map/lib/tempo-map";
+import { useTrackStore } from "@/features/track-manager/store/trackStore";
+import { getWarpRate } from "@/features/warp/lib/warp";
+import { useAudioStore } from "../store/audioStore";
+import type { AudioBlock, AudioState, Track } from "../types/audio";
+import type { AudioEngine } from "./audio-engine";
+import { getSilencedTracks, volumeToDb } from "./mix-utils";
+
+/**
+ * The engine surface the reconciler drives. Kept narrow so it can be
+ * exercised with a fake engine, without React or Web Audio.
+ */
+export type EngineTarget = Pick<
+  AudioEngine,
+  | "scheduleBlock"
+  | "unscheduleBlock"
+  | "updateTrackControl"
+  | "updateTrackEffects"
+  | "updateTrackAutomation"
+  | "setTrackOutput"
+  | "setTrackSends"
+  | "removeChannel"
+  | "setVolume"
+  | "updateMasterBus"
+  | "setLoop"
+  | "setWarpQuality"
+  | "play"
+  | "pause"
+>;
+
+type EngineSettings = Pick<
+  AudioState,
+  | "isPlaying"
+  | "masterVolume"
+  | "masterBus"
+  | "isLooping"
+  | "loopStart"
+  | "loopEnd"
+  | "warpQuality"
+>;
+
+interface PlacedBlock {
+  trackId: string;
+  block: AudioBlock;
+}
+
+function indexBlocks(tracks: Track[]): Map<string, PlacedBlock> {
+  const index = new Map<string, PlacedBlock>();
+  for (const track of tracks) {
+    for (const block of track.blocks) {
+      index.set(block.id, { trackId: track.id, block });
+    }
+  }
+  return index;
+}
+
+function indexFades(tracks: Track[]): Map<string, ClipFades> {
+  const index = new Map<string, ClipFades>();
+  for (const track of tracks) {
+    for (const [blockId, fades] of resolveClipFades(track.blocks)) {
+      index.set(blockId, fades);
+    }
+  }
+  return index;
+}
+
+function needsReschedule(before: PlacedBlock, after: PlacedBlock): boolean {
+  return (
+    before.trackId !== after.trackId ||
+    before.block.blobUrl !== after.block.blobUrl ||
+    before.block.startTime !== after.block.startTime ||
+    before.block.offset !== after.block.offset ||
+    before.block.duration !== after.block.duration ||
+    before.block.warp !== after.block.warp ||
+    before.block.gain !== after.block.gain
+  );
+}
+
+/**
+ * Applies the difference between two track lists to the engine: channels
+ * for removed tracks are disposed; changed fader, pan and width values,
+ * automation, insert chains, output routing and sends are pushed; mute and solo are
+ * resolved across the routing and pushed as each track's effective mute;
+ * and blocks that were added, moved (in time or to another track), trimmed,
+ * warped, faded or removed are rescheduled, along with blocks whose
+ * crossfades changed because a neighbour moved. Stretched blocks are played
+ * at the rate `tempoMap` gives them.
+ */
+export function reconcileTracks(
+  engine: EngineTarget,
+  previous: Track[],
+  next: Track[],
+  tempoMap: TempoMap,
+) {
+  if (previous === next) return;
+
+  const previousBlocks = indexBlocks(previous);
+  const nextBlocks = indexBlocks(next);
+  const previousFades = indexFades(previous);
+  const nextFades = indexFades(next);
+
+  for (const [blockId] of previousBlocks) {
+    if (!nextBlocks.has(blockId)) engine.unscheduleBlock(blockId);
+  }
+
+  for (const track of previous) {
+    if (!next.some((t) => t.id === track.id)) engine.removeChannel(track.id);
+  }
+
+  const previousSilenced = getSilencedTracks(previous);
+  const nextSilenced = getSilencedTracks(next);
+
+  for (const track of next) {
+    const before = previous.find((t) => t.id === track.id);
+    const silenced = nextSilenced.has(track.id);
+    const silencedChanged =
+      !before || previousSilenced.has(track.id) !== silenced;
+
+    if (!before || before.volume !== track.volume) {
+      engine.updateTrackControl(track.id, "volume", track.volume);
+    }
+    if (silencedChanged) {
+      engine.updateTrackControl(track.id, "mute", silenced);
+    }
+    if (!before || before.pan !== track.pan) {
+      engine.updateTrackControl(track.id, "pan", track.pan);
+    }
+    if (!before || before.stereoWidth !== track.stereoWidth) {
+      engine.updateTrackControl(track.id, "width", track.stereoWidth);
+    }
+    if (!before || before.automation !== track.automation) {
+      engine.updateTrackAutomation(track.id, track.automation);
+    }
+    if (!before || before.effects !== track.effects) {
+      engine.updateTrackEffects(track.id, track.effects);
+    }
+    if (!before || before.output !== track.output) {
+      engine.setTrackOutput(track.id, track.output);
+    }
+    if (!before || before.sends !== track.sends || silencedChanged) {
+      engine.setTrackSends(track.id, track.sends, silenced);
+    }
+  }
+
+  for (const [blockId, placed] of nextBlocks) {
+    const before = previousBlocks.get(blockId);
+    const fades = nextFades.get(blockId) as ClipFades;
+    if (
+      before &&
+      !needsReschedule(before, placed) &&
+      fadesEqual(previousFades.get(blockId), fades)
+    ) {
+      continue;
+    }
+
+    if (placed.block.blobUrl) {
+      const { block } = placed;
+      engine.scheduleBlock(placed.trackId, block, {
+        rate: getWarpRate(block.warp, tempoMap, block.startTime),
+        fades,
+      });
+    } else if (before) {
+      // Media went offline; keep the block but stop playing it
+      engine.unscheduleBlock(blockId);
+    }
+  }
+}
+
+/**
+ * Applies transport and master changes to the engine. Passing `null`
+ * as `previous` pushes every value.
+ */
+export function reconcileSettings(
+  engine: EngineTarget,
+  previous: EngineSettings | null,
+  next: EngineSettings,
+) {
+  if (!previous || previous.masterVolume !== next.masterVolume) {
+    engine.setVolume(volumeToDb(next.masterVolume));
+  }
+  if (!previous || previous.masterBus !== next.masterBus) {
+    engine.updateMasterBus(next.masterBus);
+  }
+  if (
+    !previous ||
+    previous.isLooping !== next.isLooping ||
+    previous.loopStart !== next.loopStart ||
+    previous.loopEnd !== next.loopEnd
+  ) {
+    engine.setLoop(next.isLooping, next.loopStart, next.loopEnd);
+  }
+  if (!previous || previous.warpQuality !== next.warpQuality) {
+    engine.setWarpQuality(next.warpQuality);
+  }
+  if (previous && previous.isPlaying !== next.isPlaying) {
+    if (next.isPlaying) engine.play();
+    else engine.pause();
+  }
+}
+
+/**
+ * Subscribes the engine to the track and audio stores so that store state is
+ * the single source of truth for what the engine plays. The current state is
+ * applied immediately. Returns a function that stops reconciling.
+ */
+export function startEngineReconciler(engine: EngineTarget): () => void {
+  // Tempo changes reach the engine through the blocks they retime
+  const getTempoMap = () => createTempoMap(useAudioStore.getState());
+  reconcileTracks(engine, [], useTrackStore.getState().tracks, getTempoMap());
+  reconcileSettings(engine, null, useAudioStore.getState());
+
+  const unsubscribeTracks = useTrackStore.subscribe((state, prev) =>
+    reconcileTracks(engine, prev.tracks, state.tracks, getTempoMap()),
+  );
+  const unsubscribeAudio = useAudioStore.subscribe((state, prev) =>
+    reconcileSettings(engine, prev, state),
+  );
+
+  return () => {
+    unsubscribeTracks();
+    unsubscribeAudio();
+  };
+}
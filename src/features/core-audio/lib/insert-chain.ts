@@ -0,0 +1,86 @@
+import type * as Tone from "tone";
+import {
+  createEffectNode,
+  type EffectNode,
+} from "@/features/effects/lib/effect-nodes";
+import type { EffectDevice } from "@/features/effects/types/effects";
+
+/**
+ * A run of insert effects between two fixed nodes, shared by track strips
+ * and the master bus.
+ */
+export interface InsertChain {
+  // Built devices by effect ID, including bypassed ones
+  inserts: Map<string, { type: EffectDevice["type"]; node: EffectNode }>;
+  // Active insert IDs as currently wired, to skip needless rewiring
+  wiring: string | null;
+}
+
+export function createInsertChain(): InsertChain {
+  return { inserts: new Map(), wiring: null };
+}
+
+/**
+ * Brings the chain in line with an effect list and wires the active devices
+ * from `source` to `destination`. Existing devices are updated in place; the
+ * chain is only rewired when devices are added, removed, reordered or
+ * (un)bypassed.
+ */
+export function setInsertEffects(
+  chain: InsertChain,
+  effects: EffectDevice[],
+  source: Tone.ToneAudioNode,
+  destination: Tone.InputNode,
+) {
+  for (const [id, insert] of chain.inserts) {
+    const device = effects.find((d) => d.id === id);
+    if (!device || device.type !== insert.type) {
+      insert.node.dispose();
+      chain.inserts.delete(id);
+    }
+  }
+
+  for (const device of effects) {
+    const insert = chain.inserts.get(device.id);
+    if (insert) {
+      insert.node.update(device.params);
+    } else {
+      chain.inserts.set(device.id, {
+        type: device.type,
+        node: createEffectNode(device, source.context),
+      });
+    }
+  }
+
+  const active = effects.filter((d) => !d.bypassed).map((d) => d.id);
+  const wiring = active.join(",");
+  if (wiring === chain.wiring) return;
+
+  source.disconnect();
+  for (const { node } of chain.inserts.values()) node.output.disconnect();
+
+  let previous: Tone.ToneAudioNode = source;
+  for (const id of active) {
+    const node = chain.inserts.get(id)?.node;
+    if (!node) continue;
+    previous.connect(node.input);
+    previous = node.output;
+  }
+  previous.connect(destination);
+  chain.wiring = wiring;
+}
+
+/**
+ * Resolves once every insert can make sound; offline renders must wait for
+ * this before starting.
+ */
+export async function whenInsertsReady(chain: InsertChain) {
+  await Promise.all(
+    Array.from(chain.inserts.values(), ({ node }) => node.whenReady()),
+  );
+}
+
+export function disposeInserts(chain: InsertChain) {
+  for (const { node } of chain.inserts.values()) node.dispose();
+  chain.inserts.clear();
+}
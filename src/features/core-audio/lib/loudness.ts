@@ -0,0 +1,125 @@
+/**
+ * Loudness per ITU-R BS.1770-4 / EBU R128: K-weighted mean square over 400 ms
+ * blocks (75% overlap); integrated loudness gates the blocks at -70 LUFS
+ * absolute and 10 LU below the ungated mean. Used to match the master output
+ * stage to a target and by the live meters.
+ */
+
+export const BLOCK_SECONDS = 0.4;
+export const STEP_SECONDS = 0.1;
+const ABSOLUTE_GATE = -70;
+const RELATIVE_GATE = -10;
+
+export interface Biquad {
+  b0: number;
+  b1: number;
+  b2: number;
+  a1: number;
+  a2: number;
+}
+
+// The standard's coefficients are given for 48 kHz; these are the analog
+// prototypes so any sample rate gets the same curve
+function shelvingStage(sampleRate: number): Biquad {
+  const gain = 3.999843853973347;
+  const q = 0.7071752369554196;
+  const k = Math.tan((Math.PI * 1681.974450955533) / sampleRate);
+  const vh = 10 ** (gain / 20);
+  const vb = vh ** 0.4996667741545416;
+  const a0 = 1 + k / q + k * k;
+  return {
+    b0: (vh + (vb * k) / q + k * k) / a0,
+    b1: (2 * (k * k - vh)) / a0,
+    b2: (vh - (vb * k) / q + k * k) / a0,
+    a1: (2 * (k * k - 1)) / a0,
+    a2: (1 - k / q + k * k) / a0,
+  };
+}
+
+function highPassStage(sampleRate: number): Biquad {
+  const q = 0.5003270373238773;
+  const k = Math.tan((Math.PI * 38.13547087602444) / sampleRate);
+  const a0 = 1 + k / q + k * k;
+  return {
+    b0: 1,
+    b1: -2,
+    b2: 1,
+    a1: (2 * (k * k - 1)) / a0,
+    a2: (1 - k / q + k * k) / a0,
+  };
+}
+
+/**
+ * The two K-weighting biquads (high shelf, then high pass) for a sample rate.
+ */
+export function kWeightingStages(sampleRate: number): [Biquad, Biquad] {
+  return [shelvingStage(sampleRate), highPassStage(sampleRate)];
+}
+
+function filter(input: Float32Array, { b0, b1, b2, a1, a2 }: Biquad) {
+  const output = new Float32Array(input.length);
+  let x1 = 0;
+  let x2 = 0;
+  let y1 = 0;
+  let y2 = 0;
+  for (let i = 0; i < input.length; i++) {
+    const x = input[i];
+    const y = b0 * x + b1 * x1 + b2 * x2 - a1 * y1 - a2 * y2;
+    output[i] = y;
+    x2 = x1;
+    x1 = x;
+    y2 = y1;
+    y1 = y;
+  }
+  return output;
+}
+
+/**
+ * Loudness in LUFS of a K-weighted mean square summed over channels.
+ */
+export const toLoudness = (meanSquare: number) =>
+  -0.691 + 10 * Math.log10(meanSquare);
+
+const mean = (values: number[]) =>
+  values.reduce((total, v) => total + v, 0) / values.length;
+
+/**
+ * Integrated loudness from the mean squares of consecutive 400 ms blocks, or
+ * `-Infinity` when everything is below the absolute gate.
+ */
+export function gatedLoudness(blocks: number[]): number {
+  const aboveAbsolute = blocks.filter((p) => toLoudness(p) > ABSOLUTE_GATE);
+  if (aboveAbsolute.length === 0) return Number.NEGATIVE_INFINITY;
+  const relativeGate = toLoudness(mean(aboveAbsolute)) + RELATIVE_GATE;
+  const aboveBoth = aboveAbsolute.filter((p) => toLoudness(p) > relativeGate);
+  return toLoudness(mean(aboveBoth));
+}
+
+/**
+ * Integrated loudness of `buffer` in LUFS, or `-Infinity` when everything is
+ * below the absolute gate. Channels are weighted equally (stereo).
+ */
+export function measureIntegratedLoudness(buffer: AudioBuffer): number {
+  const { sampleRate, length } = buffer;
+  const [shelf, highPass] = kWeightingStages(sampleRate);
+  const channels = Array.from({ length: buffer.numberOfChannels }, (_, c) =>
+    filter(filter(buffer.getChannelData(c), shelf), highPass),
+  );
+
+  const blockLength = Math.round(BLOCK_SECONDS * sampleRate);
+  const step = Math.round(STEP_SECONDS * sampleRate);
+  const blocks: number[] = [];
+  for (let start = 0; start + blockLength <= length; start += step) {
+    let sum = 0;
+    for (const data of channels) {
+      let channelSum = 0;
+      for (let i = start; i < start + blockLength; i++) {
+        channelSum += data[i] * data[i];
+      }
+      sum += channelSum / blockLength;
+    }
+    blocks.push(sum);
+  }
+
+  return gatedLoudness(blocks);
+}
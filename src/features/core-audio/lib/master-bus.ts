@@ -0,0 +1,84 @@
+import * as Tone from "tone";
+import type { MasterBus, MasterLimiter } from "../types/audio";
+import {
+  createInsertChain,
+  type InsertChain,
+  setInsertEffects,
+  whenInsertsReady,
+} from "./insert-chain";
+import { volumeToDb } from "./mix-utils";
+
+/**
+ * The master signal chain shared by live playback and offline render. Track
+ * outlets feed `input`; the inserts, master fader, output stage and limiter
+ * follow, and `output` goes to the speakers or the render destination.
+ */
+export interface MasterChain extends InsertChain {
+  input: Tone.Gain;
+  fader: Tone.Volume;
+  outputStage: Tone.Volume;
+  // A fast compressor does the audible limiting; the clipper after it
+  // catches whatever the attack lets through, so the ceiling is hard
+  compressor: Tone.Compressor;
+  clipper: Tone.WaveShaper;
+  output: Tone.Gain;
+  // Whether the limiter is currently wired in
+  limiting: boolean | null;
+}
+
+export function createMasterChain(
+  bus: MasterBus,
+  masterVolume: number,
+  context: Tone.BaseContext = Tone.getContext(),
+): MasterChain {
+  const chain: MasterChain = {
+    ...createInsertChain(),
+    input: new Tone.Gain({ context }),
+    fader: new Tone.Volume({ context, volume: volumeToDb(masterVolume) }),
+    outputStage: new Tone.Volume({ context }),
+    compressor: new Tone.Compressor({
+      context,
+      ratio: 20,
+      knee: 0,
+      attack: 0.001,
+    }),
+    clipper: new Tone.WaveShaper({ context }),
+    output: new Tone.Gain({ context }),
+    limiting: null,
+  };
+  chain.input.channelCount = 2;
+  chain.input.channelCountMode = "explicit";
+  chain.clipper.oversample = "4x";
+
+  chain.fader.connect(chain.outputStage);
+  chain.compressor.connect(chain.clipper);
+  chain.clipper.connect(chain.output);
+  setMasterChainBus(chain, bus);
+  return chain;
+}
+
+function setLimiter(chain: MasterChain, limiter: MasterLimiter) {
+  chain.compressor.threshold.value = limiter.ceiling;
+  chain.compressor.release.value = limiter.release / 1000;
+  const ceiling = Tone.dbToGain(limiter.ceiling);
+  chain.clipper.setMap((x) => Math.max(-ceiling, Math.min(ceiling, x)), 4096);
+
+  if (limiter.enabled === chain.limiting) return;
+  chain.outputStage.disconnect();
+  chain.outputStage.connect(limiter.enabled ? chain.compressor : chain.output);
+  chain.limiting = limiter.enabled;
+}
+
+/**
+ * Applies the master bus settings: inserts are synced in place, then the
+ * output stage gain and the limiter.
+ */
+export function setMasterChainBus(chain: MasterChain, bus: MasterBus) {
+  setInsertEffects(chain, bus.effects, chain.input, chain.fader);
+  chain.outputStage.volume.value = bus.outputGain;
+  setLimiter(chain, bus.limiter);
+}
+
+export async function whenMasterChainReady(chain: MasterChain) {
+  await whenInsertsReady(chain);
+}
@@ -0,0 +1,146 @@
+/**
+ * Source of the metering AudioWorklet. It runs on the audio thread, where
+ * modules cannot be imported, so it is shipped as a string and loaded from a
+ * blob URL. K-weighting coefficients come in through `processorOptions`;
+ * without them loudness is skipped, and true peak can be switched off, to
+ * keep per-track meters cheap.
+ *
+ * Every report (about 30 per second) carries, per channel, the sample peak,
+ * the true peak (4x oversampled per BS.1770 Annex 2) and the sum of squares
+ * since the previous report, plus the K-weighted mean square of each 100 ms
+ * loudness sub-block completed since then.
+ */
+
+import type { Biquad } from "./loudness";
+
+export const METER_PROCESSOR_NAME = "soundlab-meter";
+
+export interface MeterReport {
+  peak: [number, number];
+  truePeak: [number, number];
+  sumSquares: [number, number];
+  frames: number;
+  // K-weighted mean square, summed over channels, per 100 ms sub-block
+  loudnessBlocks: number[];
+}
+
+export interface MeterProcessorOptions {
+  kWeighting: Biquad[] | null;
+  truePeak: boolean;
+}
+
+export const METER_PROCESSOR_SOURCE = `
+const PHASES = [
+  [0.001708984375, 0.010986328125, -0.0196533203125, 0.033203125, -0.0594482421875, 0.1373291015625, 0.97216796875, -0.102294921875, 0.047607421875, -0.0266113281250, 0.0148925781250, -0.00830078125],
+  [-0.0291748046875, 0.029296875, -0.0517578125, 0.089111328125, -0.16650390625, 0.465087890625, 0.77978515625, -0.2003173828125, 0.1015625, -0.0582275390625, 0.0330810546875, -0.0189208984375],
+  [-0.0189208984375, 0.0330810546875, -0.0582275390625, 0.1015625, -0.2003173828125, 0.77978515625, 0.465087890625, -0.16650390625, 0.089111328125, -0.0517578125, 0.029296875, -0.0291748046875],
+  [-0.00830078125, 0.0148925781250, -0.0266113281250, 0.047607421875, -0.102294921875, 0.97216796875, 0.1373291015625, -0.0594482421875, 0.033203125, -0.0196533203125, 0.010986328125, 0.001708984375],
+];
+const TAPS = 12;
+
+class MeterProcessor extends AudioWorkletProcessor {
+  constructor(options) {
+    super();
+    this.stages = options.processorOptions.kWeighting;
+    this.measureTruePeak = options.processorOptions.truePeak;
+    this.reportFrames = Math.round(sampleRate / 30);
+    this.blockFrames = Math.round(sampleRate / 10);
+    this.channels = [0, 1].map(() => ({
+      history: new Float32Array(TAPS),
+      filters: (this.stages ?? []).map(() => ({ x1: 0, x2: 0, y1: 0, y2: 0 })),
+    }));
+    this.resetReport();
+    this.blockEnergy = 0;
+    this.blockCount = 0;
+  }
+
+  resetReport() {
+    this.peak = [0, 0];
+    this.truePeak = [0, 0];
+    this.sumSquares = [0, 0];
+    this.frames = 0;
+    this.loudnessBlocks = [];
+  }
+
+  weigh(state, x) {
+    let value = x;
+    for (let s = 0; s < this.stages.length; s++) {
+      const c = this.stages[s];
+      const f = state.filters[s];
+      const y = c.b0 * value + c.b1 * f.x1 + c.b2 * f.x2 - c.a1 * f.y1 - c.a2 * f.y2;
+      f.x2 = f.x1;
+      f.x1 = value;
+      f.y2 = f.y1;
+      f.y1 = y;
+      value = y;
+    }
+    return value;
+  }
+
+  interpolatedPeak(history) {
+    let max = 0;
+    for (const phase of PHASES) {
+      let sum = 0;
+      for (let t = 0; t < TAPS; t++) sum += phase[t] * history[t];
+      max = Math.max(max, Math.abs(sum));
+    }
+    return max;
+  }
+
+  process(inputs) {
+    const input = inputs[0];
+    if (!input || input.length === 0) return true;
+    const length = input[0].length;
+
+    for (let i = 0; i < length; i++) {
+      let energy = 0;
+      for (let c = 0; c < 2; c++) {
+        const data = input[Math.min(c, input.length - 1)];
+        const x = data[i];
+        const state = this.channels[c];
+        const abs = Math.abs(x);
+        if (abs > this.peak[c]) this.peak[c] = abs;
+        this.sumSquares[c] += x * x;
+
+        let truePeak = abs;
+        if (this.measureTruePeak) {
+          state.history.copyWithin(0, 1);
+          state.history[TAPS - 1] = x;
+          truePeak = Math.max(abs, this.interpolatedPeak(state.history));
+        }
+        if (truePeak > this.truePeak[c]) this.truePeak[c] = truePeak;
+
+        if (this.stages) {
+          const weighted = this.weigh(state, x);
+          energy += weighted * weighted;
+        }
+      }
+
+      if (this.stages) {
+        this.blockEnergy += energy;
+        this.blockCount += 1;
+        if (this.blockCount === this.blockFrames) {
+          this.loudnessBlocks.push(this.blockEnergy / this.blockFrames);
+          this.blockEnergy = 0;
+          this.blockCount = 0;
+        }
+      }
+
+      this.frames += 1;
+      if (this.frames === this.reportFrames) {
+        this.port.postMessage({
+          peak: this.peak,
+          truePeak: this.truePeak,
+          sumSquares: this.sumSquares,
+          frames: this.frames,
+          loudnessBlocks: this.loudnessBlocks,
+        });
+        this.resetReport();
+      }
+    }
+    return true;
+  }
+}
+
+registerProcessor("${METER_PROCESSOR_NAME}", MeterProcessor);
+`;
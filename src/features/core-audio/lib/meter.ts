@@ -0,0 +1,196 @@
+import type * as Tone from "tone";
+import {
+  BLOCK_SECONDS,
+  gatedLoudness,
+  kWeightingStages,
+  STEP_SECONDS,
+  toLoudness,
+} from "./loudness";
+import {
+  METER_PROCESSOR_NAME,
+  METER_PROCESSOR_SOURCE,
+  type MeterProcessorOptions,
+  type MeterReport,
+} from "./meter-processor";
+
+const RMS_SECONDS = 0.3;
+const SHORT_TERM_SECONDS = 3;
+const SUB_BLOCKS_PER_BLOCK = Math.round(BLOCK_SECONDS / STEP_SECONDS);
+const SUB_BLOCKS_SHORT_TERM = Math.round(SHORT_TERM_SECONDS / STEP_SECONDS);
+
+/**
+ * Levels in dBFS (peaks, RMS) and LUFS (loudness); `-Infinity` for silence.
+ * Peak hold and clip latch until `reset`.
+ */
+export interface MeterReading {
+  peak: [number, number];
+  truePeak: [number, number];
+  rms: [number, number];
+  peakHold: [number, number];
+  clipped: [boolean, boolean];
+  momentary: number;
+  shortTerm: number;
+  integrated: number;
+}
+
+export interface Meter {
+  // Latest values; replaced (not mutated) on every report
+  reading: MeterReading;
+  reset: () => void;
+  dispose: () => void;
+}
+
+const SILENT: MeterReading = {
+  peak: [-Infinity, -Infinity],
+  truePeak: [-Infinity, -Infinity],
+  rms: [-Infinity, -Infinity],
+  peakHold: [-Infinity, -Infinity],
+  clipped: [false, false],
+  momentary: -Infinity,
+  shortTerm: -Infinity,
+  integrated: -Infinity,
+};
+
+const toDb = (gain: number) => 20 * Math.log10(gain);
+
+const modules = new WeakMap<object, Promise<void>>();
+
+// Loads the processor once per context
+function loadMeterModule(context: Tone.BaseContext): Promise<void> {
+  const raw = context.rawContext as BaseAudioContext;
+  let loaded = modules.get(raw);
+  if (!loaded) {
+    const url = URL.createObjectURL(
+      new Blob([METER_PROCESSOR_SOURCE], { type: "application/javascript" }),
+    );
+    loaded = raw.audioWorklet
+      .addModule(url)
+      .finally(() => URL.revokeObjectURL(url));
+    modules.set(raw, loaded);
+  }
+  return loaded;
+}
+
+function sumLast(values: number[], count: number): number {
+  let sum = 0;
+  for (let i = Math.max(0, values.length - count); i < values.length; i++) {
+    sum += values[i];
+  }
+  return sum;
+}
+
+export interface MeterOptions {
+  // Momentary, short-term and integrated LUFS
+  loudness?: boolean;
+  // Oversampled peaks; otherwise `truePeak` mirrors the sample peak
+  truePeak?: boolean;
+}
+
+/**
+ * Starts metering `source` on an AudioWorklet. Resolves once the worklet is
+ * running; the meter keeps `reading` up to date until disposed.
+ */
+export async function createMeter(
+  source: Tone.ToneAudioNode,
+  { loudness = true, truePeak = true }: MeterOptions = {},
+): Promise<Meter> {
+  const { context } = source;
+  await loadMeterModule(context);
+
+  const processorOptions: MeterProcessorOptions = {
+    kWeighting: loudness ? kWeightingStages(context.sampleRate) : null,
+    truePeak,
+  };
+  const node = context.createAudioWorkletNode(METER_PROCESSOR_NAME, {
+    numberOfInputs: 1,
+    numberOfOutputs: 0,
+    channelCount: 2,
+    channelCountMode: "explicit",
+    channelInterpretation: "speakers",
+    processorOptions,
+  });
+  source.connect(node);
+
+  // Recent reports for RMS, and every 100 ms loudness sub-block since reset
+  let recent: MeterReport[] = [];
+  let subBlocks: number[] = [];
+  let blocks: number[] = [];
+
+  const meter: Meter = {
+    reading: SILENT,
+    reset: () => {
+      subBlocks = [];
+      blocks = [];
+      meter.reading = {
+        ...meter.reading,
+        peakHold: [-Infinity, -Infinity],
+        clipped: [false, false],
+        integrated: -Infinity,
+      };
+    },
+    dispose: () => {
+      node.port.onmessage = null;
+      source.disconnect(node);
+    },
+  };
+
+  const rmsFrames = RMS_SECONDS * context.sampleRate;
+  node.port.onmessage = ({ data }: MessageEvent<MeterReport>) => {
+    recent.push(data);
+    let frames = 0;
+    let start = recent.length;
+    while (start > 0 && frames < rmsFrames) {
+      start -= 1;
+      frames += recent[start].frames;
+    }
+    recent = recent.slice(start);
+    const rms = [0, 1].map((c) => {
+      const sum = recent.reduce((total, r) => total + r.sumSquares[c], 0);
+      return toDb(Math.sqrt(sum / frames));
+    }) as [number, number];
+
+    let gotBlock = false;
+    for (const energy of data.loudnessBlocks) {
+      subBlocks.push(energy);
+      if (subBlocks.length >= SUB_BLOCKS_PER_BLOCK) {
+        blocks.push(
+          sumLast(subBlocks, SUB_BLOCKS_PER_BLOCK) / SUB_BLOCKS_PER_BLOCK,
+        );
+        gotBlock = true;
+      }
+    }
+    // Only the short-term window of sub-blocks is needed from here on
+    subBlocks = subBlocks.slice(-SUB_BLOCKS_SHORT_TERM);
+
+    const previous = meter.reading;
+    const peak = data.peak.map(toDb) as [number, number];
+    const truePeak = data.truePeak.map(toDb) as [number, number];
+    const shortTermCount = Math.min(subBlocks.length, SUB_BLOCKS_SHORT_TERM);
+    meter.reading = {
+      peak,
+      truePeak,
+      rms,
+      peakHold: [
+        Math.max(previous.peakHold[0], truePeak[0]),
+        Math.max(previous.peakHold[1], truePeak[1]),
+      ],
+      clipped: [
+        previous.clipped[0] || data.truePeak[0] >= 1,
+        previous.clipped[1] || data.truePeak[1] >= 1,
+      ],
+      momentary:
+        subBlocks.length >= SUB_BLOCKS_PER_BLOCK
+          ? toLoudness(
+              sumLast(subBlocks, SUB_BLOCKS_PER_BLOCK) / SUB_BLOCKS_PER_BLOCK,
+            )
+          : previous.momentary,
+      shortTerm:
+        shortTermCount > 0
+          ? toLoudness(sumLast(subBlocks, shortTermCount) / shortTermCount)
+          : previous.shortTerm,
+      integrated: gotBlock ? gatedLoudness(blocks) : previous.integrated,
+    };
+  };
+
+  return meter;
+}
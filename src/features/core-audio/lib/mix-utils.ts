@@ -0,0 +1,42 @@
+import {
+  getDownstreamTracks,
+  getUpstreamTracks,
+} from "@/features/track-manager/lib/routing";
+import type { MasterBus, Track } from "../types/audio";
+
+export const DEFAULT_MASTER_BUS: MasterBus = {
+  effects: [],
+  outputGain: 0,
+  loudnessTarget: -14,
+  limiter: { enabled: true, ceiling: -1, release: 100 },
+};
+
+/**
+ * Converts a linear fader value (0-1) to decibels, flooring at -60 dB.
+ */
+export function volumeToDb(volume: number): number {
+  return 20 * Math.log10(Math.max(volume, 0.001));
+}
+
+/**
+ * IDs of tracks silenced by their own mute or by another track's solo.
+ * Solo follows routing: soloing a track keeps the groups and returns it
+ * feeds audible, and soloing a group or return keeps its sources audible.
+ */
+export function getSilencedTracks(tracks: Track[]): Set<string> {
+  const silenced = new Set<string>();
+  const soloed = tracks.filter((t) => t.isSolo);
+  const audible = new Set<string>();
+  for (const track of soloed) {
+    audible.add(track.id);
+    for (const id of getUpstreamTracks(tracks, track.id)) audible.add(id);
+    for (const id of getDownstreamTracks(tracks, track.id)) audible.add(id);
+  }
+
+  for (const track of tracks) {
+    if (track.isMuted || (soloed.length > 0 && !audible.has(track.id))) {
+      silenced.add(track.id);
+    }
+  }
+  return silenced;
+}
@@ -0,0 +1,248 @@
+import * as Tone from "tone";
+import {
+  type AutomationSpan,
+  getAutomationSpans,
+} from "@/features/automation/lib/automation";
+import type { EffectDevice } from "@/features/effects/types/effects";
+import type { Track, TrackSend } from "../types/audio";
+import {
+  createInsertChain,
+  disposeInserts,
+  type InsertChain,
+  setInsertEffects,
+  whenInsertsReady,
+} from "./insert-chain";
+import { volumeToDb } from "./mix-utils";
+
+/**
+ * The per-track signal chain shared by live playback and offline render:
+ * clip players feed `input`, which upmixes mono sources to stereo so width
+ * and pan treat them like centred stereo, then the insert effects in track
+ * order, the stereo widener, the automation gain and the channel (pan,
+ * fader, mute). The channel feeds `outlet`, which is routed to the master or
+ * a group. Solo is resolved across the routing by the caller and applied as
+ * mute.
+ */
+export interface TrackStrip extends InsertChain {
+  input: Tone.Gain;
+  widener: Tone.StereoWidener;
+  // Carries automated volume; the channel fader sits at unity meanwhile, so
+  // mute (which takes over the fader) never fights the automation
+  automationGain: Tone.Gain;
+  channel: Tone.Channel;
+  outlet: Tone.Gain;
+  // One gain per send, tapped pre- or post-fader
+  sends: Tone.Gain[];
+}
+
+type StripControls = Pick<
+  Track,
+  "volume" | "isMuted" | "pan" | "stereoWidth" | "effects"
+>;
+
+/**
+ * Track widths run from 0 (mono) through 1 (as recorded) to 2 (extra wide);
+ * the widener's own scale puts "as recorded" at 0.5.
+ */
+export function toWidenerWidth(stereoWidth: number): number {
+  return Math.min(1, Math.max(0, stereoWidth / 2));
+}
+
+export function createTrackStrip(
+  controls: StripControls,
+  context: Tone.BaseContext = Tone.getContext(),
+): TrackStrip {
+  const input = new Tone.Gain({ context });
+  input.channelCount = 2;
+  input.channelCountMode = "explicit";
+  input.channelInterpretation = "speakers";
+
+  const widener = new Tone.StereoWidener({
+    context,
+    width: toWidenerWidth(controls.stereoWidth),
+  });
+  const channel = new Tone.Channel({
+    context,
+    // The default of 1 would fold stereo sources down to mono
+    channelCount: 2,
+    volume: volumeToDb(controls.volume),
+    pan: controls.pan,
+    mute: controls.isMuted,
+  });
+  const automationGain = new Tone.Gain({ context });
+  const outlet = new Tone.Gain({ context });
+
+  widener.chain(automationGain, channel);
+  channel.connect(outlet);
+  const strip: TrackStrip = {
+    ...createInsertChain(),
+    input,
+    widener,
+    automationGain,
+    channel,
+    outlet,
+    sends: [],
+  };
+  setStripEffects(strip, controls.effects);
+  return strip;
+}
+
+/**
+ * Brings the strip's inserts in line with the track's effect list.
+ */
+export function setStripEffects(strip: TrackStrip, effects: EffectDevice[]) {
+  setInsertEffects(strip, effects, strip.input, strip.widener);
+}
+
+/**
+ * Connects the strip's outlet to `destination` (the master, a group's
+ * input or a render target), or leaves it unconnected for `null`.
+ */
+export function routeStripOutput(
+  strip: TrackStrip,
+  destination: Tone.InputNode | null,
+) {
+  strip.outlet.disconnect();
+  if (destination) strip.outlet.connect(destination);
+}
+
+/**
+ * Rebuilds the strip's sends. Post-fader sends tap the channel, so mute
+ * already silences them; pre-fader sends tap before it and are zeroed while
+ * the track is `silenced`.
+ */
+export function setStripSends(
+  strip: TrackStrip,
+  sends: { send: TrackSend; target: TrackStrip }[],
+  silenced: boolean,
+) {
+  for (const gain of strip.sends) gain.dispose();
+  strip.sends = sends.map(({ send, target }) => {
+    const gain = new Tone.Gain({
+      context: strip.input.context,
+      gain: silenced && send.preFader ? 0 : send.level,
+    });
+    (send.preFader ? strip.widener : strip.channel).connect(gain);
+    gain.connect(target.input);
+    return gain;
+  });
+}
+
+/**
+ * Sets the channel fader without undoing mute, which works by parking the
+ * fader at -Infinity and restoring the previous value.
+ */
+export function setChannelVolume(channel: Tone.Channel, db: number) {
+  if (!channel.mute) {
+    channel.volume.value = db;
+    return;
+  }
+  channel.mute = false;
+  channel.volume.value = db;
+  channel.mute = true;
+}
+
+export type AutomatedControls = Pick<Track, "volume" | "pan" | "automation">;
+
+/**
+ * Schedules automation-style spans on `param`, converting values with
+ * `toValue` and timeline seconds to context time with `toTime`.
+ */
+export function scheduleSpans(
+  param: Tone.Param<"gain"> | Tone.Param<"audioRange">,
+  spans: AutomationSpan[],
+  toValue: (value: number) => number,
+  toTime: (time: number) => number,
+) {
+  for (const span of spans) {
+    if (span.kind === "set") {
+      param.setValueAtTime(toValue(span.value), toTime(span.start));
+    } else {
+      param.setValueCurveAtTime(
+        span.values.map(toValue),
+        toTime(span.start),
+        span.end - span.start,
+      );
+    }
+  }
+}
+
+// Fader position (0-1) to the gain the fader would apply
+const volumeToGain = (volume: number) => Tone.dbToGain(volumeToDb(volume));
+
+/**
+ * Schedules the track's automation from timeline position `from`, which
+ * plays at context time `at`, up to `until` (the loop end, when looping).
+ * Parameters without automation get the static track value instead. Values
+ * scheduled after `at` are replaced.
+ */
+export function scheduleStripAutomation(
+  strip: TrackStrip,
+  controls: AutomatedControls,
+  from: number,
+  at: number,
+  until?: number,
+) {
+  const toTime = (time: number) => at + (time - from);
+  const gain = strip.automationGain.gain;
+  const pan = strip.channel.pan;
+  gain.cancelScheduledValues(at);
+  pan.cancelScheduledValues(at);
+
+  const volumePoints = controls.automation.volume;
+  if (volumePoints.length > 0) {
+    setChannelVolume(strip.channel, 0);
+    scheduleSpans(
+      gain,
+      getAutomationSpans(volumePoints, from, until),
+      volumeToGain,
+      toTime,
+    );
+  } else {
+    setChannelVolume(strip.channel, volumeToDb(controls.volume));
+    gain.setValueAtTime(1, at);
+  }
+
+  const panPoints = controls.automation.pan;
+  if (panPoints.length > 0) {
+    scheduleSpans(
+      pan,
+      getAutomationSpans(panPoints, from, until),
+      (value) => value,
+      toTime,
+    );
+  } else {
+    pan.setValueAtTime(controls.pan, at);
+  }
+}
+
+/**
+ * Stops the automation at context time `at`, holding the values it has at
+ * timeline position `position`.
+ */
+export function holdStripAutomation(
+  strip: TrackStrip,
+  controls: AutomatedControls,
+  position: number,
+  at: number,
+) {
+  scheduleStripAutomation(strip, controls, position, at, position);
+}
+
+/**
+ * Resolves once every insert can make sound; offline renders must wait for
+ * this before starting.
+ */
+export async function whenStripReady(strip: TrackStrip) {
+  await whenInsertsReady(strip);
+}
+
+export function disposeTrackStrip(strip: TrackStrip) {
+  strip.input.dispose();
+  disposeInserts(strip);
+  strip.widener.dispose();
+  strip.automationGain.dispose();
+  strip.channel.dispose();
+  strip.outlet.dispose();
+  for (const gain of strip.sends) gain.dispose();
+}
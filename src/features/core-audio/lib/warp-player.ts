@@ -0,0 +1,22 @@
+import * as Tone from "tone";
+
+/**
+ * A grain player for warped clips, taking its start offset in timeline
+ * seconds rather than buffer seconds. When the transport starts in the
+ * middle of a synced source, Tone adds the elapsed timeline time to the
+ * offset; that is only the buffer position at normal speed, so the offset is
+ * scaled by the playback rate here instead.
+ */
+export class WarpPlayer extends Tone.GrainPlayer {
+  protected _start(
+    time?: Tone.Unit.Time,
+    offset?: Tone.Unit.Time,
+    duration?: Tone.Unit.Time,
+  ) {
+    super._start(
+      time,
+      this.toSeconds(offset ?? 0) * this.playbackRate,
+      duration,
+    );
+  }
+}
@@ -1,36 +1,122 @@
 import { create } from "zustand";
-import { AudioState } from "../types/audio";
+import type { EffectDevice } from "../../effects/types/effects";
+import {
+    clampBpm,
+    sortMeterEvents,
+    sortTempoEvents,
+} from "../../tempo-map/lib/tempo-map";
+import type { MeterEvent, TempoEvent } from "../../tempo-map/types/tempo";
+import { DEFAULT_WARP_QUALITY } from "../../warp/lib/warp";
+import type { WarpQuality } from "../../warp/types/warp";
+import { DEFAULT_MASTER_BUS } from "../lib/mix-utils";
+import type { AudioState, MasterBus, ProjectSettings } from "../types/audio";
 
 interface AudioActions {
     togglePlayback: () => void;
     stopPlayback: () => void;
     setMasterVolume: (volume: number) => void;
+    updateMasterBus: (updates: Partial<MasterBus>) => void;
+    addMasterEffect: (effect: EffectDevice) => void;
+    removeMasterEffect: (effectId: string) => void;
+    updateMasterEffect: (effectId: string, updates: Partial<EffectDevice>) => void;
+    moveMasterEffect: (effectId: string, toIndex: number) => void;
     setPlayheadPosition: (position: number) => void;
     setBpm: (bpm: number) => void;
     setTimeSignature: (num: number, den: number) => void;
+    addTempoEvent: (event: TempoEvent) => void;
+    updateTempoEvent: (eventId: string, updates: Partial<Omit<TempoEvent, "id">>) => void;
+    removeTempoEvent: (eventId: string) => void;
+    addMeterEvent: (event: MeterEvent) => void;
+    updateMeterEvent: (eventId: string, updates: Partial<Omit<MeterEvent, "id">>) => void;
+    removeMeterEvent: (eventId: string) => void;
     toggleLooping: () => void;
     setLoopPoints: (start: number, end: number) => void;
+    setWarpQuality: (quality: WarpQuality) => void;
     toggleRecording: () => void;
+    loadProjectSettings: (settings: ProjectSettings) => void;
+}
+
+function mapMasterEffects(
+    masterBus: MasterBus,
+    update: (effects: EffectDevice[]) => EffectDevice[]
+): MasterBus {
+    return { ...masterBus, effects: update(masterBus.effects) };
 }
 
 export const useAudioStore = create<AudioState & AudioActions>((set) => ({
     isPlaying: false,
     playheadPosition: 0,
     masterVolume: 0.8,
+    masterBus: DEFAULT_MASTER_BUS,
     bpm: 120,
     timeSignature: [4, 4],
+    tempoEvents: [],
+    meterEvents: [],
     isRecording: false,
     isLooping: false,
     loopStart: 0,
     loopEnd: 4,
+    warpQuality: DEFAULT_WARP_QUALITY,
 
     togglePlayback: () => set((state) => ({ isPlaying: !state.isPlaying })),
     stopPlayback: () => set({ isPlaying: false, playheadPosition: 0 }),
     setMasterVolume: (volume) => set({ masterVolume: volume }),
+    updateMasterBus: (updates) =>
+        set((state) => ({ masterBus: { ...state.masterBus, ...updates } })),
+    addMasterEffect: (effect) =>
+        set((state) => ({
+            masterBus: mapMasterEffects(state.masterBus, (effects) => [...effects, effect]),
+        })),
+    removeMasterEffect: (effectId) =>
+        set((state) => ({
+            masterBus: mapMasterEffects(state.masterBus, (effects) => effects.filter((e) => e.id !== effectId)),
+        })),
+    updateMasterEffect: (effectId, updates) =>
+        set((state) => ({
+            masterBus: mapMasterEffects(state.masterBus, (effects) =>
+                effects.map((e) => (e.id === effectId ? { ...e, ...updates } : e))
+            ),
+        })),
+    moveMasterEffect: (effectId, toIndex) =>
+        set((state) => ({
+            masterBus: mapMasterEffects(state.masterBus, (effects) => {
+                const effect = effects.find((e) => e.id === effectId);
+                if (!effect) return effects;
+                const rest = effects.filter((e) => e.id !== effectId);
+                const index = Math.max(0, Math.min(toIndex, rest.length));
+                return [...rest.slice(0, index), effect, ...rest.slice(index)];
+            }),
+        })),
     setPlayheadPosition: (position) => set({ playheadPosition: position }),
-    setBpm: (bpm) => set({ bpm }),
+    // A tempo that is not a number is ignored; others are kept in range
+    setBpm: (bpm) => {
+        if (!Number.isNaN(bpm)) set({ bpm: clampBpm(bpm) });
+    },
     setTimeSignature: (num, den) => set({ timeSignature: [num, den] }),
+    addTempoEvent: (event) =>
+        set((state) => ({ tempoEvents: sortTempoEvents([...state.tempoEvents, event]) })),
+    updateTempoEvent: (eventId, updates) =>
+        set((state) => ({
+            tempoEvents: sortTempoEvents(
+                state.tempoEvents.map((e) => (e.id === eventId ? { ...e, ...updates } : e))
+            ),
+        })),
+    removeTempoEvent: (eventId) =>
+        set((state) => ({ tempoEvents: state.tempoEvents.filter((e) => e.id !== eventId) })),
+    addMeterEvent: (event) =>
+        set((state) => ({ meterEvents: sortMeterEvents([...state.meterEvents, event]) })),
+    updateMeterEvent: (eventId, updates) =>
+        set((state) => ({
+            meterEvents: sortMeterEvents(
+                state.meterEvents.map((e) => (e.id === eventId ? { ...e, ...updates } : e))
+            ),
+        })),
+    removeMeterEvent: (eventId) =>
+        set((state) => ({ meterEvents: state.meterEvents.filter((e) => e.id !== eventId) })),
     toggleLooping: () => set((state) => ({ isLooping: !state.isLooping })),
     setLoopPoints: (start, end) => set({ loopStart: start, loopEnd: end }),
+    setWarpQuality: (quality) => set({ warpQuality: quality }),
     toggleRecording: () => set((state) => ({ isRecording: !state.isRecording })),
+    loadProjectSettings: (settings) =>
+        set({ ...settings, isPlaying: false, isRecording: false, playheadPosition: 0 }),
 }));
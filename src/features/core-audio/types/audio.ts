@@ -1,35 +1,106 @@
+import type { TrackAutomation } from "@/features/automation/types/automation";
+import type { EffectDevice } from "@/features/effects/types/effects";
+import type { ClipFade } from "@/features/fades/types/fades";
+import type { MeterEvent, TempoEvent } from "@/features/tempo-map/types/tempo";
+import type { ClipWarp, WarpQuality } from "@/features/warp/types/warp";
+
+// Musical clips keep their bar and beat when the tempo changes; seconds
+// clips keep their time
+export type ClipTimebase = "seconds" | "musical";
+
 export interface AudioBlock {
     id: string;
     trackId: string;
     name: string;
     startTime: number; // Position on timeline in seconds
-    duration: number; // Current length in seconds
+    startTick: number; // The same position in ticks under the current tempo map
+    timebase: ClipTimebase;
+    duration: number; // Current length in seconds on the timeline
     originalDuration: number; // Source file length
-    offset: number; // Start offset within audio file
-    blobUrl: string; // URL for wavesurfer and Tone.Player
+    offset: number; // Start offset within audio file, in source seconds
+    warp: ClipWarp;
+    gain: number; // Clip gain in dB, before the track's inserts and fader
+    fadeIn: ClipFade;
+    fadeOut: ClipFade;
+    mediaId: string; // Stable reference to the source audio, persisted with the project
+    blobUrl: string; // Transient object URL used to load the media this session
     fileName: string;
 }
 
+// Audio tracks play clips; group tracks sum the tracks routed to them and
+// return tracks are fed by sends
+export type TrackKind = "audio" | "group" | "return";
+
+export interface TrackSend {
+    returnId: string; // Return track receiving the send
+    level: number; // 0 to 1
+    preFader: boolean; // Tap before the fader and pan instead of after
+}
+
 export interface Track {
     id: string;
     name: string;
+    kind: TrackKind;
     color: string;
     volume: number; // 0 to 1
     isMuted: boolean;
     isSolo: boolean;
+    pan: number; // -1 (left) to 1 (right)
+    stereoWidth: number; // 0 (mono) to 2, 1 leaves the source as recorded
+    effects: EffectDevice[]; // Insert chain, in signal order
+    output: string | null; // Group track ID, or null for the master
+    sends: TrackSend[];
+    automation: TrackAutomation; // Overrides volume and pan where a lane has points
     isArmed?: boolean;
     blocks: AudioBlock[];
     gainNode?: GainNode;
 }
 
+export interface MasterLimiter {
+    enabled: boolean;
+    ceiling: number; // dBFS the output never exceeds
+    release: number; // ms
+}
+
+/**
+ * Processing on the summed mix, in signal order: inserts, master fader, the
+ * loudness output stage and the brickwall limiter. Export renders through
+ * the same chain.
+ */
+export interface MasterBus {
+    effects: EffectDevice[];
+    outputGain: number; // dB, set by matching the loudness target
+    loudnessTarget: number; // Integrated LUFS the output stage aims for
+    limiter: MasterLimiter;
+}
+
 export interface AudioState {
     isPlaying: boolean;
     playheadPosition: number;
-    bpm: number;
-    timeSignature: [number, number];
+    bpm: number; // Tempo at the start of the arrangement
+    timeSignature: [number, number]; // Meter at the start of the arrangement
+    tempoEvents: TempoEvent[]; // Later tempo changes, sorted by tick
+    meterEvents: MeterEvent[]; // Later meter changes, sorted by bar
     masterVolume: number;
+    masterBus: MasterBus;
     isLooping: boolean;
     loopStart: number;
     loopEnd: number;
+    warpQuality: WarpQuality; // Live playback of warped clips; render always uses the best
     isRecording: boolean;
 }
+
+// Transport settings that belong to the project rather than the session
+export type ProjectSettings = Pick<
+    AudioState,
+    | "bpm"
+    | "timeSignature"
+    | "tempoEvents"
+    | "meterEvents"
+    | "masterVolume"
+    | "masterBus"
+    | "isLooping"
+    | "loopStart"
+    | "loopEnd"
+    | "warpQuality"
+>;
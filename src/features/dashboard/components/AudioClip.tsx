@@ -1,27 +1,52 @@
 "use client";
 
-import { useEffect, useRef, useState } from "react";
-import WaveSurfer from "wavesurfer.js";
 import { useDraggable } from "@dnd-kit/core";
+import { Clock, Music, Waves } from "lucide-react";
+import { useState } from "react";
+import type { AudioBlock } from "@/features/core-audio/types/audio";
+import { ClipFadeOverlay } from "@/features/fades/components/ClipFadeOverlay";
+import { clipGainToLinear } from "@/features/fades/lib/fades";
+import {
+    beginHistoryGesture,
+    endHistoryGesture,
+} from "@/features/history/lib/history";
+import { selectBlockFromPointer } from "@/features/selection/lib/clip-selection";
+import { useTempoMap } from "@/features/tempo-map/hooks/use-tempo-map";
+import {
+    bypassesSnap,
+    createSnapper,
+    snapTime,
+} from "@/features/timeline-ruler/lib/snap";
 import { useTimelineStore } from "@/features/timeline-ruler/store/timelineStore";
-import { AudioBlock } from "@/features/core-audio/types/audio";
-import { cn } from "@/lib/utils";
-import { AudioEngine } from "@/features/core-audio/lib/audio-engine";
 import { useTrackStore } from "@/features/track-manager/store/trackStore";
-import { useAudioStore } from "@/features/core-audio/store/audioStore";
+import { ClipWarpDialog } from "@/features/warp/components/ClipWarpDialog";
+import { getWarpDetune, getWarpRate } from "@/features/warp/lib/warp";
+import { Waveform } from "@/features/waveform/components/Waveform";
+import { useWaveformPeaks } from "@/features/waveform/hooks/use-waveform-peaks";
+import { cn } from "@/lib/utils";
 
 interface AudioClipProps {
     block: AudioBlock;
     color: string;
+    isSelected: boolean;
+    // Pixels to shift by while another selected clip is dragged
+    followOffset: { x: number; y: number } | null;
 }
 
-export function AudioClip({ block, color }: AudioClipProps) {
-    const containerRef = useRef<HTMLDivElement>(null);
-    const wavesurferRef = useRef<WaveSurfer | null>(null);
-    const { pixelsPerSecond } = useTimelineStore();
-    const [isLoaded, setIsLoaded] = useState(false);
-
-    const { updateBlock } = useTrackStore();
+export function AudioClip({ block, color, isSelected, followOffset }: AudioClipProps) {
+    const { pixelsPerSecond, tool } = useTimelineStore();
+    const peaks = useWaveformPeaks(block.mediaId, block.blobUrl);
+    const tempoMap = useTempoMap();
+    const isMusical = block.timebase === "musical";
+    // Source seconds per timeline second; offsets and the waveform are in source time
+    const rate = getWarpRate(block.warp, tempoMap, block.startTime);
+    const isWarped = block.warp.enabled || getWarpDetune(block.warp) !== 0;
+    const [warpOpen, setWarpOpen] = useState(false);
+    // With the blade, where the cut would go, in pixels from the clip's start
+    const isBlade = tool === "blade";
+    const [bladeX, setBladeX] = useState<number | null>(null);
+
+    const { updateBlock, splitBlocks } = useTrackStore();
 
     const { attributes, listeners, setNodeRef, transform, isDragging } = useDraggable({
         id: block.id,
@@ -30,175 +55,184 @@ export function AudioClip({ block, color }: AudioClipProps) {
         },
     });
 
-    useEffect(() => {
-        if (!containerRef.current) return;
-
-        const ws = WaveSurfer.create({
-            container: containerRef.current,
-            waveColor: `${color}cc`,
-            progressColor: color,
-            cursorColor: "transparent",
-            barWidth: 2,
-            barGap: 1,
-            height: 60,
-            normalize: true,
-            interact: false, // Timeline handles seeking
-        });
-
-        ws.load(block.blobUrl);
-
-        ws.on("ready", () => {
-            setIsLoaded(true);
-            // Sync with AudioEngine playback scheduling
-            AudioEngine.getInstance()?.scheduleBlock(block.trackId, block);
-        });
-
-        wavesurferRef.current = ws;
-
-        return () => {
-            ws.destroy();
-            AudioEngine.getInstance()?.unscheduleBlock(block.id);
-        };
-    }, [block.blobUrl, block.id, block.trackId, color]);
-
-    // Update scheduling if block parameters change (startTime, offset, duration)
-    useEffect(() => {
-        if (isLoaded) {
-            AudioEngine.getInstance()?.scheduleBlock(block.trackId, block);
-        }
-    }, [block.startTime, block.offset, block.duration, isLoaded, block.trackId]);
-
     const style = transform ? {
         transform: `translate3d(${transform.x}px, ${transform.y}px, 0)`,
         width: Math.max(10, block.duration * pixelsPerSecond),
         left: block.startTime * pixelsPerSecond,
+    } : followOffset ? {
+        transform: `translate3d(${followOffset.x}px, ${followOffset.y}px, 0)`,
+        width: Math.max(10, block.duration * pixelsPerSecond),
+        left: block.startTime * pixelsPerSecond,
     } : {
         width: Math.max(10, block.duration * pixelsPerSecond),
         left: block.startTime * pixelsPerSecond,
     };
 
-    // Split logic
-    useEffect(() => {
-        const handleKeyDown = (e: KeyboardEvent) => {
-            if (e.key.toLowerCase() === 's' && !isDragging) {
-                // Find if mouse is over this clip (this is a bit tricky without a portal or ref-based mouse tracking)
-                // For simplicity, we can use a local 'isHovered' state
-            }
-        };
-        window.addEventListener('keydown', handleKeyDown);
-        return () => window.removeEventListener('keydown', handleKeyDown);
-    }, [isDragging]);
+    const bladeTimeAt = (e: React.PointerEvent<HTMLDivElement>) => {
+        const rect = e.currentTarget.getBoundingClientRect();
+        const time = block.startTime + (e.clientX - rect.left) / pixelsPerSecond;
+        return snapTime(bypassesSnap(e) ? null : createSnapper(), time);
+    };
 
     return (
-        <div
-            ref={setNodeRef}
-            style={style}
-            onKeyDown={(e) => {
-                if (e.key.toLowerCase() === 's') {
-                    const { playheadPosition } = useAudioStore.getState();
-                    const splitPoint = playheadPosition;
-
-                    if (splitPoint > block.startTime && splitPoint < block.startTime + block.duration) {
-                        const splitOffset = splitPoint - block.startTime;
-                        const originalClipDuration = block.duration;
-
-                        // 1. Update current block (left part)
+        <>
+            <div
+                ref={setNodeRef}
+                style={style}
+                className={cn(
+                    "absolute top-2 bottom-2 rounded-md border border-white/10 bg-white/5 overflow-hidden group cursor-grab active:cursor-grabbing z-20 transition-shadow focus:outline-none focus:ring-1 focus:ring-primary/50",
+                    isSelected && "ring-2 ring-white/70 border-white/50 bg-white/10",
+                    (isDragging || followOffset) && "opacity-50 shadow-2xl ring-2 ring-primary border-primary",
+                    !peaks && block.blobUrl && "animate-pulse",
+                    isBlade && "cursor-crosshair active:cursor-crosshair"
+                )}
+                {...listeners}
+                {...attributes}
+                onPointerDown={(e) => {
+                    // The blade cuts where clicked instead of selecting or dragging
+                    if (isBlade) {
+                        e.stopPropagation();
+                        if (e.button === 0) splitBlocks([block.id], bladeTimeAt(e));
+                        return;
+                    }
+                    selectBlockFromPointer(block.id, e.shiftKey || e.metaKey || e.ctrlKey);
+                    listeners?.onPointerDown?.(e);
+                }}
+                onPointerMove={(e) => {
+                    if (isBlade) setBladeX((bladeTimeAt(e) - block.startTime) * pixelsPerSecond);
+                }}
+                onPointerLeave={() => setBladeX(null)}
+            >
+                {peaks && (
+                    <Waveform
+                        peaks={peaks}
+                        offset={block.offset}
+                        duration={block.duration * rate}
+                        color={`${color}cc`}
+                        gain={clipGainToLinear(block.gain)}
+                        className="pointer-events-none"
+                    />
+                )}
+
+                {isBlade && bladeX !== null && (
+                    <div
+                        className="absolute top-0 bottom-0 z-30 w-px bg-white/80 pointer-events-none"
+                        style={{ left: bladeX }}
+                    />
+                )}
+
+                {/* Overlay info */}
+                <div className="absolute top-1 left-2 flex flex-col pointer-events-none">
+                    <span className="text-[10px] font-bold text-white/70 truncate drop-shadow-md">
+                        {block.name}
+                    </span>
+                    {!block.blobUrl && (
+                        <span className="text-[9px] font-semibold uppercase tracking-wider text-amber-400/80">
+                            Media offline
+                        </span>
+                    )}
+                </div>
+
+                <button
+                    type="button"
+                    aria-label="Warp"
+                    title="Stretch and transpose"
+                    className={cn(
+                        "absolute top-1 right-8 z-30 rounded p-0.5 transition hover:bg-white/10 hover:text-white/80 focus-visible:opacity-100 group-hover:opacity-100",
+                        isWarped ? "text-primary" : "text-white/40 opacity-0"
+                    )}
+                    onPointerDown={(e) => e.stopPropagation()}
+                    onClick={() => setWarpOpen(true)}
+                >
+                    <Waves className="w-3 h-3" />
+                </button>
+
+                {/* Musical clips follow tempo changes, seconds clips stay put */}
+                <button
+                    type="button"
+                    aria-label={isMusical ? "Follows Tempo" : "Fixed in Time"}
+                    title={isMusical ? "Follows tempo (bars and beats)" : "Fixed in time (seconds)"}
+                    aria-pressed={isMusical}
+                    className="absolute top-1 right-3 z-30 rounded p-0.5 text-white/40 opacity-0 transition hover:bg-white/10 hover:text-white/80 focus-visible:opacity-100 group-hover:opacity-100"
+                    onPointerDown={(e) => e.stopPropagation()}
+                    onClick={() =>
                         updateBlock(block.trackId, block.id, {
-                            duration: splitOffset
-                        });
-
-                        // 2. Create new block (right part)
-                        const newBlockId = Math.random().toString(36).substring(7);
-                        const newBlock: AudioBlock = {
-                            ...block,
-                            id: newBlockId,
-                            startTime: splitPoint,
-                            offset: block.offset + splitOffset,
-                            duration: originalClipDuration - splitOffset,
-                            name: `${block.name} (Copy)`
+                            timebase: isMusical ? "seconds" : "musical",
+                        })
+                    }
+                >
+                    {isMusical ? <Music className="w-3 h-3" /> : <Clock className="w-3 h-3" />}
+                </button>
+
+                {/* Trimming Handles */}
+                <div
+                    className="absolute left-0 top-0 bottom-0 w-2 hover:bg-white/30 cursor-ew-resize z-30 flex items-center justify-center group/left"
+                    onMouseDown={(e) => {
+                        e.stopPropagation();
+                        beginHistoryGesture();
+                        const startX = e.clientX;
+                        const startStartTime = block.startTime;
+                        const startOffset = block.offset;
+                        const startDuration = block.duration;
+
+                        const onMouseMove = (moveEvent: MouseEvent) => {
+                            const deltaX = (moveEvent.clientX - startX) / pixelsPerSecond;
+                            const newStartTime = Math.max(0, startStartTime + deltaX);
+                            const actualDelta = newStartTime - startStartTime;
+                            const newOffset = Math.max(0, startOffset + actualDelta * rate);
+                            const newDuration = Math.max(0.1, startDuration - actualDelta);
+
+                            updateBlock(block.trackId, block.id, {
+                                startTime: newStartTime,
+                                offset: newOffset,
+                                duration: newDuration
+                            });
                         };
 
-                        useTrackStore.getState().addBlock(block.trackId, newBlock);
-                    }
-                }
-            }}
-            className={cn(
-                "absolute top-2 bottom-2 rounded-md border border-white/10 bg-white/5 overflow-hidden group cursor-grab active:cursor-grabbing z-20 transition-shadow focus:outline-none focus:ring-1 focus:ring-primary/50",
-                isDragging && "opacity-50 shadow-2xl ring-2 ring-primary border-primary",
-                !isLoaded && "animate-pulse"
-            )}
-            {...listeners}
-            {...attributes}
-        >
-            <div ref={containerRef} className="w-full h-full pointer-events-none" />
-
-            {/* Overlay info */}
-            <div className="absolute top-1 left-2 flex flex-col pointer-events-none">
-                <span className="text-[10px] font-bold text-white/70 truncate drop-shadow-md">
-                    {block.name}
-                </span>
-            </div>
+                        const onMouseUp = () => {
+                            window.removeEventListener('mousemove', onMouseMove);
+                            window.removeEventListener('mouseup', onMouseUp);
+                            endHistoryGesture();
+                        };
 
-            {/* Trimming Handles */}
-            <div
-                className="absolute left-0 top-0 bottom-0 w-2 hover:bg-white/30 cursor-ew-resize z-30 flex items-center justify-center group/left"
-                onMouseDown={(e) => {
-                    e.stopPropagation();
-                    const startX = e.clientX;
-                    const startStartTime = block.startTime;
-                    const startOffset = block.offset;
-                    const startDuration = block.duration;
-
-                    const onMouseMove = (moveEvent: MouseEvent) => {
-                        const deltaX = (moveEvent.clientX - startX) / pixelsPerSecond;
-                        const newStartTime = Math.max(0, startStartTime + deltaX);
-                        const actualDelta = newStartTime - startStartTime;
-                        const newOffset = Math.max(0, startOffset + actualDelta);
-                        const newDuration = Math.max(0.1, startDuration - actualDelta);
+                        window.addEventListener('mousemove', onMouseMove);
+                        window.addEventListener('mouseup', onMouseUp);
+                    }}
+                >
+                    <div className="w-px h-4 bg-white/20 group-hover/left:bg-white/50" />
+                </div>
+
+                <div
+                    className="absolute right-0 top-0 bottom-0 w-2 hover:bg-white/30 cursor-ew-resize z-30 flex items-center justify-center group/right"
+                    onMouseDown={(e) => {
+                        e.stopPropagation();
+                        beginHistoryGesture();
+                        const startX = e.clientX;
+                        const startDuration = block.duration;
+
+                        const onMouseMove = (moveEvent: MouseEvent) => {
+                            const deltaX = (moveEvent.clientX - startX) / pixelsPerSecond;
+                            const newDuration = Math.max(0.1, startDuration + deltaX);
+                            updateBlock(block.trackId, block.id, { duration: newDuration });
+                        };
 
-                        updateBlock(block.trackId, block.id, {
-                            startTime: newStartTime,
-                            offset: newOffset,
-                            duration: newDuration
-                        });
-                    };
-
-                    const onMouseUp = () => {
-                        window.removeEventListener('mousemove', onMouseMove);
-                        window.removeEventListener('mouseup', onMouseUp);
-                    };
-
-                    window.addEventListener('mousemove', onMouseMove);
-                    window.addEventListener('mouseup', onMouseUp);
-                }}
-            >
-                <div className="w-px h-4 bg-white/20 group-hover/left:bg-white/50" />
-            </div>
+                        const onMouseUp = () => {
+                            window.removeEventListener('mousemove', onMouseMove);
+                            window.removeEventListener('mouseup', onMouseUp);
+                            endHistoryGesture();
+                        };
 
-            <div
-                className="absolute right-0 top-0 bottom-0 w-2 hover:bg-white/30 cursor-ew-resize z-30 flex items-center justify-center group/right"
-                onMouseDown={(e) => {
-                    e.stopPropagation();
-                    const startX = e.clientX;
-                    const startDuration = block.duration;
-
-                    const onMouseMove = (moveEvent: MouseEvent) => {
-                        const deltaX = (moveEvent.clientX - startX) / pixelsPerSecond;
-                        const newDuration = Math.max(0.1, startDuration + deltaX);
-                        updateBlock(block.trackId, block.id, { duration: newDuration });
-                    };
-
-                    const onMouseUp = () => {
-                        window.removeEventListener('mousemove', onMouseMove);
-                        window.removeEventListener('mouseup', onMouseUp);
-                    };
-
-                    window.addEventListener('mousemove', onMouseMove);
-                    window.addEventListener('mouseup', onMouseUp);
-                }}
-            >
-                <div className="w-px h-4 bg-white/20 group-hover/right:bg-white/50" />
+                        window.addEventListener('mousemove', onMouseMove);
+                        window.addEventListener('mouseup', onMouseUp);
+                    }}
+                >
+                    <div className="w-px h-4 bg-white/20 group-hover/right:bg-white/50" />
+                </div>
+
+                {/* Fades and clip gain, above the trim handles at the corners */}
+                <ClipFadeOverlay block={block} />
             </div>
-        </div>
+            <ClipWarpDialog block={block} open={warpOpen} onOpenChange={setWarpOpen} />
+        </>
     );
 }
@@ -1,3 +1,4 @@
+import { RecoverSessionDialog } from "@/features/project/components/RecoverSessionDialog";
 import { DashboardFooter } from "./DashboardFooter";
 import { DashboardHeader } from "./DashboardHeader";
 import { DashboardSidebar } from "./DashboardSidebar";
@@ -14,6 +15,7 @@ export function Dashboard() {
         <DashboardTimeline />
       </div>
       <DashboardFooter />
+      <RecoverSessionDialog />
     </div>
   );
 }
@@ -1,18 +1,69 @@
-import { AudioWaveform, Bell, Menu } from "lucide-react";
+"use client";
+
+import {
+  AudioWaveform,
+  FileArchive,
+  FileAudio,
+  FolderOpen,
+  Menu,
+  Save,
+} from "lucide-react";
+import { useState } from "react";
 import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuShortcut,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { ExportAudioDialog } from "@/features/export/components/ExportAudioDialog";
+import type { ExportKind } from "@/features/export/types/export";
+import { useProjectFile } from "@/features/project/hooks/use-project-file";
+import { useProjectStore } from "@/features/project/store/projectStore";
 
 export function DashboardHeader() {
+  const { save, saveAs, open } = useProjectFile();
+  const { name, isDirty } = useProjectStore();
+  const [exportKind, setExportKind] = useState<ExportKind | null>(null);
+
   return (
     <header className="h-12 bg-card border-b border-border flex items-center justify-between px-4 shrink-0 z-30">
       <div className="flex items-center space-x-4">
-        <Button
-          variant="ghost"
-          size="icon"
-          aria-label="Menu"
-          className="text-muted-foreground hover:text-foreground transition"
-        >
-          <Menu className="w-5 h-5" />
-        </Button>
+        <DropdownMenu>
+          <DropdownMenuTrigger asChild>
+            <Button
+              variant="ghost"
+              size="icon"
+              aria-label="Menu"
+              className="text-muted-foreground hover:text-foreground transition"
+            >
+              <Menu className="w-5 h-5" />
+            </Button>
+          </DropdownMenuTrigger>
+          <DropdownMenuContent align="start" className="w-52">
+            <DropdownMenuItem onSelect={open}>
+              <FolderOpen /> Open…
+              <DropdownMenuShortcut>Ctrl+O</DropdownMenuShortcut>
+            </DropdownMenuItem>
+            <DropdownMenuItem onSelect={save}>
+              <Save /> Save
+              <DropdownMenuShortcut>Ctrl+S</DropdownMenuShortcut>
+            </DropdownMenuItem>
+            <DropdownMenuItem onSelect={saveAs}>
+              <Save /> Save As…
+              <DropdownMenuShortcut>Ctrl+Shift+S</DropdownMenuShortcut>
+            </DropdownMenuItem>
+            <DropdownMenuSeparator />
+            <DropdownMenuItem onSelect={() => setExportKind("mixdown")}>
+              <FileAudio /> Export Mixdown…
+            </DropdownMenuItem>
+            <DropdownMenuItem onSelect={() => setExportKind("stems")}>
+              <FileArchive /> Export Stems…
+            </DropdownMenuItem>
+          </DropdownMenuContent>
+        </DropdownMenu>
         <div className="flex items-center space-x-2">
           <AudioWaveform className="text-primary w-6 h-6" />
           <span className="font-bold text-lg tracking-tight text-foreground">
@@ -23,12 +74,47 @@ export function DashboardHeader() {
 
       <div className="hidden md:block">
         <h1 className="text-sm font-medium text-muted-foreground">
-          New Project
+          {name}
+          {isDirty && (
+            <span className="text-primary" title="Unsaved changes">
+              {" "}
+              •<span className="sr-only">Unsaved changes</span>
+            </span>
+          )}
         </h1>
       </div>
 
       <div className="flex items-center space-x-2">
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={open}
+          aria-label="Open Project"
+          className="h-7 text-xs text-muted-foreground hover:text-foreground"
+        >
+          <FolderOpen className="w-3.5 h-3.5" /> Open
+        </Button>
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={save}
+          aria-label="Save Project"
+          className="h-7 text-xs"
+        >
+          <Save className="w-3.5 h-3.5" /> Save
+        </Button>
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={() => setExportKind("mixdown")}
+          aria-label="Export Mixdown"
+          className="h-7 text-xs text-muted-foreground hover:text-foreground"
+        >
+          <FileAudio className="w-3.5 h-3.5" /> Export
+        </Button>
       </div>
+
+      <ExportAudioDialog kind={exportKind} onKindChange={setExportKind} />
     </header>
   );
 }
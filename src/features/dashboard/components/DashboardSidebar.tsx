@@ -4,30 +4,58 @@ import {
   Plus,
 } from "lucide-react";
 import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import type { TrackKind } from "@/features/core-audio/types/audio";
 import { useTrackStore } from "@/features/track-manager/store/trackStore";
 import { SidebarTrackItem } from "./SidebarTrackItem";
 
 const TRACK_COLORS = ["#7c3aed", "#06b6d4", "#10b981", "#f59e0b", "#ef4444", "#ec4899"];
 
+const TRACK_KIND_LABELS: Record<TrackKind, string> = {
+  audio: "Track",
+  group: "Group",
+  return: "Return",
+};
+
 export function DashboardSidebar() {
   const { tracks, addTrack } = useTrackStore();
 
-  const handleAddTrack = () => {
+  const handleAddTrack = (kind: TrackKind) => {
     const color = TRACK_COLORS[tracks.length % TRACK_COLORS.length];
-    addTrack(`Track ${tracks.length + 1}`, color);
+    const count = tracks.filter((t) => t.kind === kind).length;
+    addTrack(`${TRACK_KIND_LABELS[kind]} ${count + 1}`, color, kind);
   };
 
   return (
     <div className="w-64 bg-card border-r border-border flex flex-col shrink-0 z-10">
       <div className="h-10 flex items-center px-4 border-b border-border bg-background/50">
-        <Button
-          size="sm"
-          onClick={handleAddTrack}
-          className="bg-background hover:bg-accent text-foreground h-7 w-full justify-center border border-border text-xs font-bold"
-          aria-label="Add Track"
-        >
-          <Plus className="w-4 h-4 mr-1" /> Add Track
-        </Button>
+        <DropdownMenu>
+          <DropdownMenuTrigger asChild>
+            <Button
+              size="sm"
+              className="bg-background hover:bg-accent text-foreground h-7 w-full justify-center border border-border text-xs font-bold"
+              aria-label="Add Track"
+            >
+              <Plus className="w-4 h-4 mr-1" /> Add Track
+            </Button>
+          </DropdownMenuTrigger>
+          <DropdownMenuContent align="start" className="w-56">
+            <DropdownMenuItem onSelect={() => handleAddTrack("audio")}>
+              Audio Track
+            </DropdownMenuItem>
+            <DropdownMenuItem onSelect={() => handleAddTrack("group")}>
+              Group Track
+            </DropdownMenuItem>
+            <DropdownMenuItem onSelect={() => handleAddTrack("return")}>
+              Return Track
+            </DropdownMenuItem>
+          </DropdownMenuContent>
+        </DropdownMenu>
       </div>
 
       <div className="flex-1 overflow-y-auto">
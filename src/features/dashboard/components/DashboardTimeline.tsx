@@ -11,27 +11,52 @@ import {
   useSensor,
   useSensors,
   DragEndEvent,
+  DragMoveEvent,
+  DragStartEvent,
   DragOverlay
 } from "@dnd-kit/core";
+import { importMedia } from "@/features/project/lib/media-pool";
+import { getArrangementEnd } from "@/features/track-manager/lib/arrangement";
 import { AudioClip } from "./AudioClip";
-import { restrictToHorizontalAxis, restrictToVerticalAxis } from "@dnd-kit/modifiers";
+import { AutomationLane } from "@/features/automation/components/AutomationLane";
+import { AUTOMATION_LANE_HEIGHT, AUTOMATION_PARAMS } from "@/features/automation/lib/automation";
+import { useTempoMap } from "@/features/tempo-map/hooks/use-tempo-map";
+import { getGridLines, positionToTicks, secondsToTicks, tempoAt, ticksToSeconds } from "@/features/tempo-map/lib/tempo-map";
+import { getGridDivisions } from "@/features/timeline-ruler/lib/grid";
+import { bypassesSnap, createSnapper, snapSpan, snapTime } from "@/features/timeline-ruler/lib/snap";
+import { createClipWarp } from "@/features/warp/lib/warp";
+import { createClipFade } from "@/features/fades/lib/fades";
+import { useSelectionStore } from "@/features/selection/store/selectionStore";
+import { useSelectionShortcuts } from "@/features/selection/hooks/use-selection-shortcuts";
+import { getBlocksInRange, getSelectedBlocks } from "@/features/selection/lib/clip-selection";
+import { TimeRangeMenu } from "@/features/selection/components/TimeRangeMenu";
 import { SlidersHorizontal } from "lucide-react";
 
+// Pixels drawn beyond each edge of the viewport; canvases are only redrawn
+// once scrolling moves past this margin
+const CANVAS_MARGIN = 512;
+// Clips sit this far inside their lane, top and bottom
+const CLIP_INSET = 8;
+// Empty space kept after the last clip so there is room to keep arranging
+const TAIL_SECONDS = 60;
+const TRACK_HEIGHT = 80;
+
 export function DashboardTimeline() {
   const {
     pixelsPerSecond,
     autoScroll,
     toggleAutoScroll,
-    snapToGrid,
-    toggleSnap
+    gridValue,
+    toggleSnap,
+    expandedAutomation
   } = useTimelineStore();
 
   const {
     isPlaying,
     playheadPosition,
     setPlayheadPosition,
-    bpm,
-    timeSignature,
+    tempoEvents,
+    meterEvents,
     isLooping,
     loopStart,
     loopEnd,
@@ -39,12 +64,27 @@ export function DashboardTimeline() {
     isRecording
   } = useAudioStore();
 
-  const { tracks, updateBlock, addBlock } = useTrackStore();
+  const { tracks, addBlock, moveBlocks, addBlockCopies } = useTrackStore();
+  const { selectedBlockIds, timeRange, selectBlocks, setTimeRange, clearSelection } = useSelectionStore();
+  const tempoMap = useTempoMap();
+  useSelectionShortcuts();
 
   const fileInputRef = useRef<HTMLInputElement>(null);
   const [isOver, setIsOver] = useState(false);
   const [draggingLoop, setDraggingLoop] = useState<'start' | 'end' | 'both' | null>(null);
   const [recordingStartTime, setRecordingStartTime] = useState<number | null>(null);
+  // The clip being dragged and how far, so the rest of its selection follows
+  const [groupDrag, setGroupDrag] = useState<{ blockId: string; x: number; y: number } | null>(null);
+  // Alt held when a clip is dropped makes a copy; Ctrl/Cmd drops it unsnapped
+  const altHeldRef = useRef(false);
+  const snapBypassRef = useRef(false);
+  // Ctrl/Cmd held when a clip or the ruler is clicked picks what the click
+  // does (adding to the selection, drawing a loop), so that drag bypasses
+  // snapping only once the key is released and pressed again
+  const clickModifierRef = useRef(false);
+  // Rubber band in track-area pixels, while dragging one out
+  const [marquee, setMarquee] = useState<{ x0: number; y0: number; x1: number; y1: number } | null>(null);
+  const [rangeMenuOpen, setRangeMenuOpen] = useState(false);
 
   useEffect(() => {
     if (isRecording && recordingStartTime === null) {
@@ -62,27 +102,79 @@ export function DashboardTimeline() {
     })
   );
 
+  useEffect(() => {
+    const track = (e: KeyboardEvent) => {
+      altHeldRef.current = e.altKey;
+      snapBypassRef.current = bypassesSnap(e);
+      if (!snapBypassRef.current) clickModifierRef.current = false;
+    };
+    window.addEventListener('keydown', track);
+    window.addEventListener('keyup', track);
+    return () => {
+      window.removeEventListener('keydown', track);
+      window.removeEventListener('keyup', track);
+    };
+  }, []);
+
+  const handleDragStart = (event: DragStartEvent) => {
+    clickModifierRef.current = bypassesSnap(event.activatorEvent as PointerEvent);
+  };
+
+  const handleDragMove = (event: DragMoveEvent) => {
+    setGroupDrag({ blockId: String(event.active.id), x: event.delta.x, y: event.delta.y });
+  };
+
+  // Rows the clip's middle was dragged across, counting automation lanes as
+  // part of the row above them
+  const getTrackOffset = (trackId: string, deltaY: number) => {
+    const from = tracks.findIndex((t) => t.id === trackId);
+    if (from === -1) return 0;
+    const rowTops = rowHeights.map((_, i) => rowHeights.slice(0, i).reduce((sum, h) => sum + h, 0));
+    const y = rowTops[from] + TRACK_HEIGHT / 2 + deltaY;
+    const to = rowTops.findLastIndex((top) => top <= y);
+    return to === -1 ? -from : to - from;
+  };
+
   const handleDragEnd = (event: DragEndEvent) => {
-    const { active, delta } = event;
+    setGroupDrag(null);
+    const { active, delta, activatorEvent } = event;
     const block = active.data.current?.block as AudioBlock;
     if (!block) return;
 
-    const deltaX = delta.x / pixelsPerSecond;
-    let newStartTime = Math.max(0, block.startTime + deltaX);
+    // A selected clip takes the rest of the selection with it, to other
+    // tracks as well; with Alt they are copied instead
+    const moving = selectedBlockIds.includes(block.id) ? selectedBlockIds : [block.id];
+    const trackOffset = getTrackOffset(block.trackId, delta.y);
+    const copy = altHeldRef.current || (activatorEvent as PointerEvent).altKey;
 
-    // Snapping logic if enabled
-    if (snapToGrid) {
-      newStartTime = Math.round(newStartTime / beatDuration) * beatDuration;
+    // Either edge of the dragged clip snaps, but not to clips it moves away
+    const deltaX = delta.x / pixelsPerSecond;
+    const bypass = snapBypassRef.current && !clickModifierRef.current;
+    const snapper = bypass ? null : createSnapper({ blockIds: copy ? [] : moving });
+    const newStartTime = Math.max(0, snapSpan(snapper, Math.max(0, block.startTime + deltaX), block.duration));
+    if (copy) {
+      selectBlocks(addBlockCopies(getSelectedBlocks(tracks, moving), newStartTime - block.startTime, trackOffset));
+    } else {
+      moveBlocks(moving, newStartTime - block.startTime, trackOffset);
     }
-
-    updateBlock(block.trackId, block.id, { startTime: newStartTime });
   };
 
+  // Offset of a clip following another selected clip being dragged
+  const followOffset = (blockId: string) =>
+    groupDrag &&
+    groupDrag.blockId !== blockId &&
+    selectedBlockIds.includes(groupDrag.blockId) &&
+    selectedBlockIds.includes(blockId)
+      ? { x: groupDrag.x, y: groupDrag.y }
+      : null;
+
   const handleFileUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
-    if (!file || tracks.length === 0) return;
+    // Groups and returns only carry other tracks' audio
+    const target = tracks.find((t) => t.kind === "audio");
+    if (!file || !target) return;
 
-    const blobUrl = URL.createObjectURL(file);
+    const { mediaId, blobUrl } = await importMedia(file);
 
     // Create temporary audio context to get duration
     const audioCtx = new (window.AudioContext || (window as any).webkitAudioContext)();
@@ -91,30 +183,97 @@ export function DashboardTimeline() {
 
     const newBlock: AudioBlock = {
       id: Math.random().toString(36).substring(7),
-      trackId: tracks[0].id,
+      trackId: target.id,
       name: file.name,
       fileName: file.name,
+      mediaId,
       blobUrl,
       startTime: playheadPosition,
+      startTick: secondsToTicks(tempoMap, playheadPosition),
+      timebase: "musical",
       duration: decodedData.duration,
       originalDuration: decodedData.duration,
       offset: 0,
+      warp: createClipWarp(tempoAt(tempoMap, playheadPosition)),
+      gain: 0,
+      fadeIn: createClipFade(),
+      fadeOut: createClipFade(),
     };
 
-    addBlock(tracks[0].id, newBlock);
+    addBlock(target.id, newBlock);
     audioCtx.close();
   };
 
-  const MAX_SECONDS = 300; // Increased for performance test
-  const beatDuration = 60 / bpm;
-  const barDuration = beatDuration * timeSignature[0];
-
   const scrollRef = useRef<HTMLDivElement>(null);
   const rulerRef = useRef<HTMLCanvasElement>(null);
   const gridRef = useRef<HTMLCanvasElement>(null);
 
-  const totalWidth = Math.max(800, MAX_SECONDS * pixelsPerSecond + 300);
-  const totalHeight = Math.max(500, tracks.length * 80);
+  // Horizontal slice of the arrangement, in pixels, that canvases and clips
+  // are rendered for: the viewport plus CANVAS_MARGIN on either side
+  const [renderWindow, setRenderWindow] = useState({ start: 0, width: 0 });
+  const [viewportWidth, setViewportWidth] = useState(0);
+
+  const updateRenderWindow = useCallback(() => {
+    const el = scrollRef.current;
+    if (!el) return;
+    const start = Math.max(0, Math.floor(el.scrollLeft / CANVAS_MARGIN - 1) * CANVAS_MARGIN);
+    const width = el.clientWidth + 3 * CANVAS_MARGIN;
+    setViewportWidth(el.clientWidth);
+    setRenderWindow((prev) => (prev.start === start && prev.width === width ? prev : { start, width }));
+  }, []);
+
+  useEffect(() => {
+    const el = scrollRef.current;
+    if (!el) return;
+    updateRenderWindow();
+    const observer = new ResizeObserver(updateRenderWindow);
+    observer.observe(el);
+    return () => observer.disconnect();
+  }, [updateRenderWindow]);
+
+  const arrangementEnd = useMemo(() => getArrangementEnd(tracks), [tracks]);
+  const contentSeconds = Math.max(arrangementEnd, loopEnd, playheadPosition) + TAIL_SECONDS;
+  const totalWidth = Math.max(800, viewportWidth, Math.ceil(contentSeconds * pixelsPerSecond));
+  // Each row is the clip lane plus any expanded automation lanes below it
+  const rowHeights = useMemo(
+    () => tracks.map((track) =>
+      TRACK_HEIGHT + (expandedAutomation.includes(track.id) ? AUTOMATION_PARAMS.length * AUTOMATION_LANE_HEIGHT : 0)
+    ),
+    [tracks, expandedAutomation]
+  );
+  const totalHeight = Math.max(500, rowHeights.reduce((sum, h) => sum + h, 0));
+
+  const windowStart = Math.min(renderWindow.start, totalWidth);
+  const windowWidth = Math.max(0, Math.min(renderWindow.width, totalWidth - windowStart));
+  const windowEnd = windowStart + windowWidth;
+
+  // Bar lines across the render window, following the tempo map, and the
+  // grid value's lines between them
+  const barLines = useMemo(
+    () => getGridLines(tempoMap, windowStart / pixelsPerSecond, windowEnd / pixelsPerSecond)
+      .filter((line) => line.beat === 0),
+    [tempoMap, windowStart, windowEnd, pixelsPerSecond]
+  );
+  const gridDivisions = useMemo(
+    () => getGridDivisions(tempoMap, windowStart / pixelsPerSecond, windowEnd / pixelsPerSecond, gridValue, pixelsPerSecond),
+    [tempoMap, windowStart, windowEnd, pixelsPerSecond, gridValue]
+  );
+
+  // Tempo and meter changes, labelled where they take effect
+  const tempoMarkers = useMemo(() => {
+    const markers = new Map<number, string[]>();
+    const mark = (seconds: number, label: string) => {
+      markers.set(seconds, [...(markers.get(seconds) ?? []), label]);
+    };
+    for (const event of meterEvents) {
+      const ticks = positionToTicks(tempoMap, { bar: event.bar, beat: 0, tick: 0 });
+      mark(ticksToSeconds(tempoMap, ticks), `${event.numerator}/${event.denominator}`);
+    }
+    for (const event of tempoEvents) {
+      mark(ticksToSeconds(tempoMap, event.tick), `${event.ramp ? '\u2197' : '\u2669'}${Math.round(event.bpm)}`);
+    }
+    return Array.from(markers, ([seconds, labels]) => ({ seconds, label: labels.join(' ') }));
+  }, [tempoMap, tempoEvents, meterEvents]);
 
   // Format seconds to mm:ss.ms
   const formatTime = useCallback((s: number) => {
@@ -130,37 +289,52 @@ export function DashboardTimeline() {
     const ctx = canvas.getContext('2d');
     if (!ctx) return;
 
-    canvas.width = totalWidth;
+    canvas.width = windowWidth;
     canvas.height = 30;
 
-    ctx.clearRect(0, 0, totalWidth, 30);
-    ctx.fillStyle = '#111119'; ctx.fillRect(0, 0, totalWidth, 30);
+    ctx.clearRect(0, 0, windowWidth, 30);
+    ctx.fillStyle = '#111119'; ctx.fillRect(0, 0, windowWidth, 30);
+    // Draw in arrangement coordinates
+    ctx.translate(-windowStart, 0);
+
+    // Tempo and meter changes take the lower row, ahead of the time labels
+    const taken: [number, number][] = [];
+    ctx.font = 'bold 8px JetBrains Mono, monospace';
+    for (const { seconds, label } of tempoMarkers) {
+      const x = Math.round(seconds * pixelsPerSecond);
+      ctx.strokeStyle = '#f59e0b'; ctx.lineWidth = 1;
+      ctx.beginPath(); ctx.moveTo(x, 18); ctx.lineTo(x, 30); ctx.stroke();
+      ctx.fillStyle = '#f59e0b';
+      ctx.fillText(label, x + 3, 26);
+      taken.push([x, x + ctx.measureText(label).width + 6]);
+    }
 
-    const pxBar = barDuration * pixelsPerSecond;
-    const labelEvery = pxBar < 40 ? Math.ceil(50 / pxBar) : 1;
+    // Grid subdivisions, dropped once they crowd together
+    let lastDivisionX = -Infinity;
+    ctx.strokeStyle = '#1c1c2e'; ctx.lineWidth = 0.5;
+    for (const seconds of gridDivisions) {
+      const x = Math.round(seconds * pixelsPerSecond);
+      if (x - lastDivisionX < 4) continue;
+      lastDivisionX = x;
+      ctx.beginPath(); ctx.moveTo(x, 18); ctx.lineTo(x, 30); ctx.stroke();
+    }
 
-    for (let bar = 0; bar < (MAX_SECONDS / barDuration) + 1; bar++) {
-      const time = bar * barDuration;
-      const x = Math.round(time * pixelsPerSecond);
-      if (x > totalWidth) break;
+    let lastLabelX = -Infinity;
+    for (const { seconds, bar } of barLines) {
+      const x = Math.round(seconds * pixelsPerSecond);
 
       // Bar line
       ctx.strokeStyle = '#2a2a44'; ctx.lineWidth = 1;
       ctx.beginPath(); ctx.moveTo(x, 0); ctx.lineTo(x, 30); ctx.stroke();
 
-      // Beat subdivisions
-      for (let b = 1; b < timeSignature[0]; b++) {
-        const bx = Math.round((time + b * beatDuration) * pixelsPerSecond);
-        if (bx > totalWidth) break;
-        ctx.strokeStyle = '#1c1c2e'; ctx.lineWidth = 0.5;
-        ctx.beginPath(); ctx.moveTo(bx, 18); ctx.lineTo(bx, 30); ctx.stroke();
-      }
-
-      if (bar % labelEvery === 0) {
+      if (x - lastLabelX >= 50) {
+        lastLabelX = x;
         ctx.fillStyle = '#555575'; ctx.font = 'bold 9px JetBrains Mono, monospace';
         ctx.fillText((bar + 1).toString(), x + 3, 13);
-        ctx.fillStyle = '#33334a'; ctx.font = '8px JetBrains Mono, monospace';
-        ctx.fillText(formatTime(time), x + 3, 26);
+        if (!taken.some(([from, to]) => x + 50 > from && x < to)) {
+          ctx.fillStyle = '#33334a'; ctx.font = '8px JetBrains Mono, monospace';
+          ctx.fillText(formatTime(seconds), x + 3, 26);
+        }
       }
     }
 
@@ -185,7 +359,18 @@ export function DashboardTimeline() {
       ctx.strokeStyle = '#c084fc'; ctx.lineWidth = 2;
       ctx.beginPath(); ctx.moveTo(lX, 1); ctx.lineTo(rX, 1); ctx.stroke();
     }
-  }, [totalWidth, pixelsPerSecond, barDuration, beatDuration, timeSignature, formatTime, MAX_SECONDS, loopStart, loopEnd]);
+
+    // Selected time range
+    if (timeRange) {
+      const lX = timeRange.start * pixelsPerSecond;
+      const rX = timeRange.end * pixelsPerSecond;
+      ctx.fillStyle = 'rgba(56, 189, 248, 0.25)'; // sky-400
+      ctx.fillRect(lX, 16, rX - lX, 14);
+      ctx.strokeStyle = '#38bdf8'; ctx.lineWidth = 1;
+      ctx.beginPath(); ctx.moveTo(lX, 16); ctx.lineTo(lX, 30); ctx.stroke();
+      ctx.beginPath(); ctx.moveTo(rX, 16); ctx.lineTo(rX, 30); ctx.stroke();
+    }
+  }, [windowStart, windowWidth, pixelsPerSecond, barLines, gridDivisions, tempoMarkers, formatTime, loopStart, loopEnd, timeRange]);
 
   // 2. Draw Grid
   useEffect(() => {
@@ -194,10 +379,11 @@ export function DashboardTimeline() {
     const ctx = canvas.getContext('2d');
     if (!ctx) return;
 
-    canvas.width = totalWidth;
+    canvas.width = windowWidth;
     canvas.height = totalHeight;
 
-    ctx.clearRect(0, 0, totalWidth, totalHeight);
+    ctx.clearRect(0, 0, windowWidth, totalHeight);
+    ctx.translate(-windowStart, 0);
 
     // Draw Loop Overlay
     if (isLooping && loopStart !== undefined && loopEnd !== undefined) {
@@ -211,35 +397,59 @@ export function DashboardTimeline() {
       ctx.beginPath(); ctx.moveTo(rX, 0); ctx.lineTo(rX, totalHeight); ctx.stroke();
     }
 
-    for (let bar = 0; bar < (MAX_SECONDS / barDuration) + 1; bar++) {
-      const time = bar * barDuration;
-      const x = Math.round(time * pixelsPerSecond);
-      const nx = Math.round((time + barDuration) * pixelsPerSecond);
-      if (x > totalWidth) break;
+    // Selected time range, across every track
+    if (timeRange) {
+      const lX = timeRange.start * pixelsPerSecond;
+      const rX = timeRange.end * pixelsPerSecond;
+      ctx.fillStyle = 'rgba(56, 189, 248, 0.08)';
+      ctx.fillRect(lX, 0, rX - lX, totalHeight);
+
+      ctx.strokeStyle = 'rgba(56, 189, 248, 0.4)'; ctx.lineWidth = 1;
+      ctx.beginPath(); ctx.moveTo(lX, 0); ctx.lineTo(lX, totalHeight); ctx.stroke();
+      ctx.beginPath(); ctx.moveTo(rX, 0); ctx.lineTo(rX, totalHeight); ctx.stroke();
+    }
+
+    barLines.forEach(({ seconds, bar }, i) => {
+      const x = Math.round(seconds * pixelsPerSecond);
+      const nx = i + 1 < barLines.length ? Math.round(barLines[i + 1].seconds * pixelsPerSecond) : windowEnd;
 
       // Zebra striping
       if (bar % 2 === 0) {
         ctx.fillStyle = 'rgba(255,255,255,0.016)';
         ctx.fillRect(x, 0, nx - x, totalHeight);
       }
+    });
+
+    let lastDivisionX = -Infinity;
+    ctx.strokeStyle = '#161626'; ctx.lineWidth = 0.5;
+    for (const seconds of gridDivisions) {
+      const x = Math.round(seconds * pixelsPerSecond);
+      if (x - lastDivisionX < 4) continue;
+      lastDivisionX = x;
+      ctx.beginPath(); ctx.moveTo(x, 0); ctx.lineTo(x, totalHeight); ctx.stroke();
+    }
 
-      ctx.strokeStyle = '#1e1e2e'; ctx.lineWidth = 1;
+    ctx.strokeStyle = '#1e1e2e'; ctx.lineWidth = 1;
+    for (const { seconds } of barLines) {
+      const x = Math.round(seconds * pixelsPerSecond);
       ctx.beginPath(); ctx.moveTo(x, 0); ctx.lineTo(x, totalHeight); ctx.stroke();
+    }
 
-      for (let b = 1; b < timeSignature[0]; b++) {
-        const bx = Math.round((time + b * beatDuration) * pixelsPerSecond);
-        if (bx > totalWidth) break;
-        ctx.strokeStyle = '#161626'; ctx.lineWidth = 0.5;
-        ctx.beginPath(); ctx.moveTo(bx, 0); ctx.lineTo(bx, totalHeight); ctx.stroke();
-      }
+    // Tempo and meter changes
+    for (const { seconds } of tempoMarkers) {
+      const x = Math.round(seconds * pixelsPerSecond);
+      ctx.strokeStyle = 'rgba(245, 158, 11, 0.25)'; ctx.lineWidth = 1;
+      ctx.beginPath(); ctx.moveTo(x, 0); ctx.lineTo(x, totalHeight); ctx.stroke();
     }
 
     // Horizontal track dividers
-    for (let i = 0; i <= tracks.length; i++) {
+    let y = 0;
+    for (let i = 0; i <= rowHeights.length; i++) {
       ctx.strokeStyle = '#1a1a28'; ctx.lineWidth = 1;
-      ctx.beginPath(); ctx.moveTo(0, i * 80); ctx.lineTo(totalWidth, i * 80); ctx.stroke();
+      ctx.beginPath(); ctx.moveTo(windowStart, y); ctx.lineTo(windowEnd, y); ctx.stroke();
+      y += rowHeights[i] ?? 0;
     }
-  }, [totalWidth, totalHeight, pixelsPerSecond, barDuration, beatDuration, timeSignature, tracks.length, MAX_SECONDS, isLooping, loopStart, loopEnd]);
+  }, [windowStart, windowWidth, windowEnd, totalHeight, pixelsPerSecond, barLines, gridDivisions, tempoMarkers, rowHeights, isLooping, loopStart, loopEnd, timeRange]);
 
   // 3. Playhead Sync RAf Loop
   useEffect(() => {
@@ -257,11 +467,6 @@ export function DashboardTimeline() {
     return () => cancelAnimationFrame(rafId);
   }, [setPlayheadPosition]);
 
-  // 5. Sync Loop State with AudioEngine
-  useEffect(() => {
-    AudioEngine.getInstance()?.setLoop(isLooping, loopStart, loopEnd);
-  }, [isLooping, loopStart, loopEnd]);
-
   // 6. Auto-Scroll Effect
   useEffect(() => {
     if (autoScroll && scrollRef.current) {
@@ -274,54 +479,126 @@ export function DashboardTimeline() {
   }, [playheadPosition, pixelsPerSecond, autoScroll]);
 
   const handleRulerMouseDown = (e: React.MouseEvent<HTMLCanvasElement>) => {
+    if (e.button !== 0) return;
+    // The canvas scrolls with the content, so its rect already accounts for scrollLeft
     const rect = e.currentTarget.getBoundingClientRect();
-    const x = e.clientX - rect.left + (scrollRef.current?.scrollLeft || 0);
+    const x = e.clientX - rect.left + windowStart;
     const time = x / pixelsPerSecond;
 
     // Check hit on loop handles
     const hitTolerance = 10 / pixelsPerSecond;
-    if (Math.abs(time - loopStart) < hitTolerance) {
+    if (e.shiftKey) {
+      handleRangeDown(rect, e);
+    } else if (Math.abs(time - loopStart) < hitTolerance) {
       setDraggingLoop('start');
     } else if (Math.abs(time - loopEnd) < hitTolerance) {
       setDraggingLoop('end');
     } else {
       // Set playhead position or start defining a new loop region if CMD key is held
       if (e.metaKey || e.ctrlKey) {
-        setLoopPoints(time, time + 0.1);
+        clickModifierRef.current = true;
+        const start = snapTime(createSnapper({ loop: true }), time);
+        setLoopPoints(start, start + 0.1);
         setDraggingLoop('end');
       } else {
-        let newTime = time;
-        if (snapToGrid) {
-          newTime = Math.round(newTime / beatDuration) * beatDuration;
-        }
+        const newTime = snapTime(createSnapper(), time);
         AudioEngine.getInstance()?.seek(newTime);
         setPlayheadPosition(newTime);
       }
     }
   };
 
+  // Shift-dragging along the ruler selects a time range across every track;
+  // a Shift-click without a drag clears it
+  const handleRangeDown = (rect: DOMRect, down: React.MouseEvent) => {
+    const snapper = createSnapper();
+    const timeAt = (e: MouseEvent | React.MouseEvent) =>
+      snapTime(bypassesSnap(e) ? null : snapper, Math.max(0, (e.clientX - rect.left + windowStart) / pixelsPerSecond));
+    const anchor = timeAt(down);
+    setTimeRange(null);
+
+    const handleMove = (move: MouseEvent) => {
+      const time = timeAt(move);
+      setTimeRange(time === anchor ? null : { start: Math.min(anchor, time), end: Math.max(anchor, time) });
+    };
+    const handleUp = () => {
+      window.removeEventListener('mousemove', handleMove);
+      window.removeEventListener('mouseup', handleUp);
+    };
+    window.addEventListener('mousemove', handleMove);
+    window.addEventListener('mouseup', handleUp);
+  };
+
+  // Right-clicking inside the selected range opens its edits
+  const handleRulerContextMenu = (e: React.MouseEvent<HTMLCanvasElement>) => {
+    e.preventDefault();
+    const rect = e.currentTarget.getBoundingClientRect();
+    const time = (e.clientX - rect.left + windowStart) / pixelsPerSecond;
+    if (timeRange && time >= timeRange.start && time <= timeRange.end) {
+      setRangeMenuOpen(true);
+    }
+  };
+
+  // Dragging across empty lane space selects the clips the band touches;
+  // with Shift they are added to the selection
+  const handleMarqueeDown = (e: React.PointerEvent<HTMLDivElement>) => {
+    const target = e.target as HTMLElement;
+    if (e.button !== 0 || (target !== e.currentTarget && target.dataset.clipLane === undefined)) return;
+    const rect = e.currentTarget.getBoundingClientRect();
+    const x0 = e.clientX - rect.left;
+    const y0 = e.clientY - rect.top;
+    const base = e.shiftKey ? selectedBlockIds : [];
+    if (!e.shiftKey) clearSelection();
+
+    const handleMove = (move: PointerEvent) => {
+      const x1 = move.clientX - rect.left;
+      const y1 = move.clientY - rect.top;
+      setMarquee({ x0, y0, x1, y1 });
+
+      const top = Math.min(y0, y1);
+      const bottom = Math.max(y0, y1);
+      const trackIds: string[] = [];
+      let rowTop = 0;
+      tracks.forEach((track, i) => {
+        if (rowTop + CLIP_INSET < bottom && rowTop + TRACK_HEIGHT - CLIP_INSET > top) {
+          trackIds.push(track.id);
+        }
+        rowTop += rowHeights[i];
+      });
+      const hits = getBlocksInRange(
+        tracks,
+        trackIds,
+        Math.min(x0, x1) / pixelsPerSecond,
+        Math.max(x0, x1) / pixelsPerSecond
+      );
+      selectBlocks(Array.from(new Set([...base, ...hits])));
+    };
+    const handleUp = () => {
+      window.removeEventListener('pointermove', handleMove);
+      window.removeEventListener('pointerup', handleUp);
+      setMarquee(null);
+    };
+    window.addEventListener('pointermove', handleMove);
+    window.addEventListener('pointerup', handleUp);
+  };
+
   const handleMouseMove = useCallback((e: MouseEvent) => {
     if (!draggingLoop) return;
 
     const rect = rulerRef.current?.getBoundingClientRect();
     if (!rect) return;
 
-    const x = e.clientX - rect.left + (scrollRef.current?.scrollLeft || 0);
-    let time = Math.max(0, x / pixelsPerSecond);
-
-    if (snapToGrid) {
-      time = Math.round(time / beatDuration) * beatDuration;
-    }
+    const x = e.clientX - rect.left + windowStart;
+    if (!bypassesSnap(e)) clickModifierRef.current = false;
+    const bypass = bypassesSnap(e) && !clickModifierRef.current;
+    const time = snapTime(bypass ? null : createSnapper({ loop: true }), Math.max(0, x / pixelsPerSecond));
 
     if (draggingLoop === 'start') {
       setLoopPoints(Math.min(time, loopEnd - 0.1), loopEnd);
     } else if (draggingLoop === 'end') {
       setLoopPoints(loopStart, Math.max(time, loopStart + 0.1));
     }
-
-    // Update AudioEngine loop points
-    AudioEngine.getInstance()?.setLoop(isLooping, loopStart, loopEnd);
-  }, [draggingLoop, loopStart, loopEnd, pixelsPerSecond, snapToGrid, beatDuration, setLoopPoints, isLooping]);
+  }, [draggingLoop, loopStart, loopEnd, pixelsPerSecond, setLoopPoints, windowStart]);
 
   const handleMouseUp = useCallback(() => {
     setDraggingLoop(null);
@@ -372,66 +649,101 @@ export function DashboardTimeline() {
 
       <DndContext
         sensors={sensors}
+        onDragStart={handleDragStart}
+        onDragMove={handleDragMove}
         onDragEnd={handleDragEnd}
-        modifiers={[restrictToHorizontalAxis]}
+        onDragCancel={() => setGroupDrag(null)}
       >
         <div
           ref={scrollRef}
           className="flex-1 overflow-auto relative select-none custom-scrollbar"
+          onScroll={updateRenderWindow}
         >
           <div
             className="relative min-h-full"
             style={{ width: `${totalWidth}px` }}
           >
             {/* Ruler Canvas */}
-            <canvas
-              ref={rulerRef}
-              className="sticky top-0 z-30 cursor-crosshair h-[30px] border-b border-white/5 shadow-sm"
-              onMouseDown={handleRulerMouseDown}
-              style={{ width: `${totalWidth}px`, height: '30px' }}
-            />
+            <div className="sticky top-0 z-30 h-[30px] bg-[#111119] border-b border-white/5 shadow-sm">
+              <canvas
+                ref={rulerRef}
+                className="absolute top-0 cursor-crosshair"
+                onMouseDown={handleRulerMouseDown}
+                onContextMenu={handleRulerContextMenu}
+                style={{ left: `${windowStart}px`, width: `${windowWidth}px`, height: '30px' }}
+              />
+              <TimeRangeMenu open={rangeMenuOpen} onOpenChange={setRangeMenuOpen} />
+            </div>
 
             {/* Grid Canvas */}
             <canvas
               ref={gridRef}
-              className="absolute top-[30px] left-0 pointer-events-none z-0"
-              style={{ width: `${totalWidth}px`, height: `${totalHeight}px` }}
+              className="absolute top-[30px] pointer-events-none z-0"
+              style={{ left: `${windowStart}px`, width: `${windowWidth}px`, height: `${totalHeight}px` }}
             />
 
             {/* Track Rows Layer */}
-            <div className="absolute top-[30px] left-0 right-0 z-10 flex flex-col min-h-[calc(100%-30px)]">
+            <div
+              className="absolute top-[30px] left-0 right-0 z-10 flex flex-col min-h-[calc(100%-30px)]"
+              onPointerDown={handleMarqueeDown}
+            >
               {tracks.length > 0 ? (
                 <>
                   {tracks.map((track: Track) => (
-                    <div
-                      key={track.id}
-                      className="h-[80px] relative w-full border-b border-white/5 bg-transparent"
-                    >
-                      {track.blocks.map((block) => (
-                        <AudioClip key={block.id} block={block} color={track.color} />
-                      ))}
+                    <div key={track.id}>
+                      <div data-clip-lane className="h-[80px] relative w-full border-b border-white/5 bg-transparent">
+                        {track.blocks
+                          .filter((block) =>
+                            (block.startTime + block.duration) * pixelsPerSecond >= windowStart &&
+                            block.startTime * pixelsPerSecond <= windowEnd
+                          )
+                          .map((block) => (
+                            <AudioClip
+                              key={block.id}
+                              block={block}
+                              color={track.color}
+                              isSelected={selectedBlockIds.includes(block.id)}
+                              followOffset={followOffset(block.id)}
+                            />
+                          ))}
+
+                        {/* Ghost block for recording */}
+                        {isRecording && recordingStartTime !== null && track.isArmed && (
+                          <div
+                            className="absolute h-[64px] top-[8px] bg-rose-500/30 border border-rose-500/50 z-20 pointer-events-none rounded animate-pulse shadow-[0_0_15px_rgba(244,63,94,0.1)]"
+                            style={{
+                              left: `${recordingStartTime * pixelsPerSecond}px`,
+                              width: `${Math.max(4, (playheadPosition - recordingStartTime) * pixelsPerSecond)}px`
+                            }}
+                          >
+                            <div className="absolute top-1 left-2 text-[10px] font-black text-rose-500 uppercase tracking-widest flex items-center gap-1.5 opacity-80">
+                              <div className="w-1.5 h-1.5 bg-rose-500 rounded-full animate-ping" />
+                              Recording
+                            </div>
+                          </div>
+                        )}
+                      </div>
 
-                      {/* Ghost block for recording */}
-                      {isRecording && recordingStartTime !== null && track.isArmed && (
+                      {expandedAutomation.includes(track.id) && AUTOMATION_PARAMS.map((param) => (
                         <div
-                          className="absolute h-[64px] top-[8px] bg-rose-500/30 border border-rose-500/50 z-20 pointer-events-none rounded animate-pulse shadow-[0_0_15px_rgba(244,63,94,0.1)]"
-                          style={{
-                            left: `${recordingStartTime * pixelsPerSecond}px`,
-                            width: `${Math.max(4, (playheadPosition - recordingStartTime) * pixelsPerSecond)}px`
-                          }}
+                          key={param}
+                          className="relative w-full bg-black/20 border-b border-white/5"
+                          style={{ height: `${AUTOMATION_LANE_HEIGHT}px` }}
                         >
-                          <div className="absolute top-1 left-2 text-[10px] font-black text-rose-500 uppercase tracking-widest flex items-center gap-1.5 opacity-80">
-                            <div className="w-1.5 h-1.5 bg-rose-500 rounded-full animate-ping" />
-                            Recording
-                          </div>
+                          <AutomationLane
+                            track={track}
+                            param={param}
+                            windowStart={windowStart}
+                            windowWidth={windowWidth}
+                          />
                         </div>
-                      )}
+                      ))}
                     </div>
                   ))}
 
                   {/* Padding rows if few tracks */}
                   {Array.from({ length: Math.max(0, 8 - tracks.length) }).map((_, i) => (
-                    <div key={`empty-${i}`} className="h-[80px] w-full border-b border-white/10 opacity-[0.03]" />
+                    <div key={`empty-${i}`} data-clip-lane className="h-[80px] w-full border-b border-white/10 opacity-[0.03]" />
                   ))}
                 </>
               ) : (
@@ -445,6 +757,18 @@ export function DashboardTimeline() {
                   </div>
                 </div>
               )}
+
+              {marquee && (
+                <div
+                  className="absolute z-30 border border-primary/70 bg-primary/10 pointer-events-none"
+                  style={{
+                    left: `${Math.min(marquee.x0, marquee.x1)}px`,
+                    top: `${Math.min(marquee.y0, marquee.y1)}px`,
+                    width: `${Math.abs(marquee.x1 - marquee.x0)}px`,
+                    height: `${Math.abs(marquee.y1 - marquee.y0)}px`
+                  }}
+                />
+              )}
             </div>
 
             {/* Playhead Marker */}
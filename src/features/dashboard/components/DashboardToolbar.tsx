@@ -1,10 +1,11 @@
 "use client";
 
-import { useState } from "react";
 import {
+  Magnet,
+  MousePointer2,
   Redo2,
   Repeat,
-  Magnet,
+  Scissors,
   SlidersHorizontal,
   Timer,
   Undo2,
@@ -12,7 +13,7 @@ import {
   ZoomIn,
   ZoomOut,
 } from "lucide-react";
-import { cn } from "@/lib/utils";
+import { useState } from "react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import {
@@ -23,25 +24,60 @@ import {
   SelectValue,
 } from "@/components/ui/select";
 import { Slider } from "@/components/ui/slider";
-import { useTimelineStore } from "@/features/timeline-ruler/store/timelineStore";
-import { AudioEngine } from "@/features/core-audio/lib/audio-engine";
-import { VuMeter } from "./VuMeter";
-import { useAudioStore } from "@/features/core-audio/store/audioStore";
-import { useTrackStore } from "@/features/track-manager/store/trackStore";
 import {
   Tooltip,
   TooltipContent,
   TooltipProvider,
   TooltipTrigger,
 } from "@/components/ui/tooltip";
+import { useEngineReconciler } from "@/features/core-audio/hooks/use-engine-reconciler";
+import { AudioEngine } from "@/features/core-audio/lib/audio-engine";
+import { volumeToDb } from "@/features/core-audio/lib/mix-utils";
+import { useAudioStore } from "@/features/core-audio/store/audioStore";
+import type { AudioBlock } from "@/features/core-audio/types/audio";
+import { MasterBusDialog } from "@/features/effects/components/MasterBusDialog";
+import { createClipFade } from "@/features/fades/lib/fades";
+import { useUndoRedo } from "@/features/history/hooks/use-undo-redo";
+import { beginPointerGesture } from "@/features/history/lib/history";
+import { importMedia } from "@/features/project/lib/media-pool";
+import { TempoMapDialog } from "@/features/tempo-map/components/TempoMapDialog";
+import { useMusicalTimeSync } from "@/features/tempo-map/hooks/use-musical-time-sync";
+import { useTempoMap } from "@/features/tempo-map/hooks/use-tempo-map";
+import {
+  formatPosition,
+  secondsToTicks,
+  tempoAt,
+  ticksToPosition,
+} from "@/features/tempo-map/lib/tempo-map";
+import { GridMenu } from "@/features/timeline-ruler/components/GridMenu";
+import { useTimelineStore } from "@/features/timeline-ruler/store/timelineStore";
+import { useTrackStore } from "@/features/track-manager/store/trackStore";
+import { createClipWarp } from "@/features/warp/lib/warp";
+import { cn } from "@/lib/utils";
+import { MasterMeter } from "./MasterMeter";
 
 export function DashboardToolbar() {
   const { tracks, addBlock } = useTrackStore();
+  const { undo, redo, canUndo, canRedo } = useUndoRedo();
+  const [masterBusOpen, setMasterBusOpen] = useState(false);
+  const [tempoMapOpen, setTempoMapOpen] = useState(false);
+  // The tempo being typed; it is applied when the field is left or Enter is
+  // pressed, so half-typed values never retime the clips
+  const [bpmDraft, setBpmDraft] = useState<string | null>(null);
+  const commitBpm = () => {
+    if (bpmDraft !== null) setBpm(Number.parseFloat(bpmDraft));
+    setBpmDraft(null);
+  };
+  const tempoMap = useTempoMap();
+  useEngineReconciler();
+  useMusicalTimeSync();
   const {
     pixelsPerSecond,
     setPixelsPerSecond,
     snapToGrid,
-    toggleSnap
+    toggleSnap,
+    tool,
+    setTool
   } = useTimelineStore();
 
   const {
@@ -50,8 +86,8 @@ export function DashboardToolbar() {
     stopPlayback,
     masterVolume,
     setMasterVolume,
+    masterBus,
     playheadPosition,
-    setPlayheadPosition,
     bpm,
     setBpm,
     timeSignature,
@@ -65,9 +101,6 @@ export function DashboardToolbar() {
   const handleVolumeChange = (values: number[]) => {
     const vol = values[0] / 100;
     setMasterVolume(vol);
-    // Convert 0-1 to dB (-60 to 0 roughly)
-    const db = 20 * Math.log10(Math.max(vol, 0.001));
-    AudioEngine.getInstance()?.setVolume(db);
   };
 
   const handleToggleRecording = async () => {
@@ -88,7 +121,6 @@ export function DashboardToolbar() {
         // Start playback if not already playing to allow recording in context
         if (!isPlaying) {
           togglePlayback();
-          engine.play();
         }
       } catch (e) {
         console.error("Failed to start recording", e);
@@ -103,20 +135,27 @@ export function DashboardToolbar() {
         // Find the track that WAS armed (assuming it stayed armed)
         const armedTrack = tracks.find((t) => t.isArmed);
         if (armedTrack && blob) {
-          const blobUrl = URL.createObjectURL(blob);
+          const { mediaId, blobUrl } = await importMedia(blob);
           // Calculate start time based on end time - duration if we don't have playhead sync
           const startTime = playheadPosition - duration;
 
-          const newBlock = {
+          const newBlock: AudioBlock = {
             id: Math.random().toString(36).substring(7),
             trackId: armedTrack.id,
             name: "Recording",
             startTime: Math.max(0, startTime),
+            startTick: secondsToTicks(tempoMap, Math.max(0, startTime)),
+            timebase: "musical",
             duration: duration,
             originalDuration: duration,
             offset: 0,
+            mediaId,
             blobUrl: blobUrl,
-            fileName: "recording.webm"
+            fileName: "recording.webm",
+            warp: createClipWarp(tempoAt(tempoMap, Math.max(0, startTime))),
+            gain: 0,
+            fadeIn: createClipFade(),
+            fadeOut: createClipFade(),
           };
 
           addBlock(armedTrack.id, newBlock);
@@ -148,19 +187,31 @@ export function DashboardToolbar() {
           <div className="flex items-center space-x-1">
             <Tooltip>
               <TooltipTrigger asChild>
-                <button className="w-8 h-8 flex items-center justify-center text-muted-foreground hover:text-foreground rounded-full hover:bg-accent transition" aria-label="Undo">
+                <button
+                  type="button"
+                  onClick={undo}
+                  disabled={!canUndo}
+                  className="w-8 h-8 flex items-center justify-center text-muted-foreground hover:text-foreground rounded-full hover:bg-accent transition disabled:opacity-40 disabled:pointer-events-none"
+                  aria-label="Undo"
+                >
                   <Undo2 className="w-4.5 h-4.5" />
                 </button>
               </TooltipTrigger>
-              <TooltipContent side="bottom">Undo</TooltipContent>
+              <TooltipContent side="bottom">Undo (Ctrl+Z)</TooltipContent>
             </Tooltip>
             <Tooltip>
               <TooltipTrigger asChild>
-                <button className="w-8 h-8 flex items-center justify-center text-muted-foreground hover:text-foreground rounded-full hover:bg-accent transition" aria-label="Redo">
+                <button
+                  type="button"
+                  onClick={redo}
+                  disabled={!canRedo}
+                  className="w-8 h-8 flex items-center justify-center text-muted-foreground hover:text-foreground rounded-full hover:bg-accent transition disabled:opacity-40 disabled:pointer-events-none"
+                  aria-label="Redo"
+                >
                   <Redo2 className="w-4.5 h-4.5" />
                 </button>
               </TooltipTrigger>
-              <TooltipContent side="bottom">Redo</TooltipContent>
+              <TooltipContent side="bottom">Redo (Ctrl+Shift+Z)</TooltipContent>
             </Tooltip>
           </div>
         </div>
@@ -174,20 +225,28 @@ export function DashboardToolbar() {
             <Tooltip>
               <TooltipTrigger asChild>
                 <div className="flex items-center gap-1.5 focus-within:opacity-100 transition-opacity">
-                  <Timer className="w-3.5 h-3.5 text-muted-foreground" />
+                  <button
+                    type="button"
+                    onClick={() => setTempoMapOpen(true)}
+                    className="text-muted-foreground hover:text-foreground transition-colors"
+                    aria-label="Tempo Map"
+                  >
+                    <Timer className="w-3.5 h-3.5" />
+                  </button>
                   <Input
                     type="number"
-                    value={bpm}
-                    onChange={(e) => {
-                      const newBpm = parseInt(e.target.value);
-                      setBpm(newBpm);
-                      AudioEngine.getInstance()?.setBpm(newBpm);
+                    value={bpmDraft ?? bpm}
+                    onBlur={commitBpm}
+                    onKeyDown={(e) => {
+                      if (e.key === "Enter") commitBpm();
+                      else if (e.key === "Escape") setBpmDraft(null);
                     }}
+                    onChange={(e) => setBpmDraft(e.target.value)}
                     className="w-10 h-[23px] px-1 py-0 text-[12px] font-bold bg-white/10 hover:bg-white/20 border-none focus-visible:ring-1 focus-visible:ring-white/20 text-foreground shadow-none text-center rounded-md [&::-webkit-inner-spin-button]:appearance-none [&::-webkit-outer-spin-button]:appearance-none m-0 transition-colors"
                   />
                 </div>
               </TooltipTrigger>
-              <TooltipContent side="bottom">Tempo (BPM)</TooltipContent>
+              <TooltipContent side="bottom">Tempo (BPM), click the clock for the tempo map</TooltipContent>
             </Tooltip>
             <span className="text-[10px] text-muted-foreground font-bold tracking-widest uppercase">
               BPM
@@ -202,7 +261,6 @@ export function DashboardToolbar() {
                     onValueChange={(val) => {
                       const [num, den] = val.split("/").map(Number);
                       setTimeSignature(num, den);
-                      AudioEngine.getInstance()?.setTimeSignature(num);
                     }}
                   >
                     <SelectTrigger style={{ height: "24px" }} className="w-auto px-2 pt-2.5 border-none bg-white/10 hover:bg-white/20 text-[12px] font-bold text-foreground focus:ring-0 focus:ring-offset-0 shadow-none rounded-md transition-colors [&>svg]:hidden flex items-center justify-center">
@@ -228,8 +286,9 @@ export function DashboardToolbar() {
 
           {/* Transport Controls */}
           <div className="flex items-center bg-black/60 dark:bg-black/80 rounded-full border border-border/50 p-1 pl-5 shadow-sm">
-            <div className="font-mono text-foreground tracking-wider text-sm mr-5">
-              {formatTime(playheadPosition)}
+            <div className="font-mono text-foreground tracking-wider text-sm mr-5 flex items-baseline gap-2">
+              <span>{formatPosition(ticksToPosition(tempoMap, secondsToTicks(tempoMap, playheadPosition)))}</span>
+              <span className="text-[11px] text-muted-foreground">{formatTime(playheadPosition)}</span>
             </div>
 
             <div className="flex items-center space-x-1.5">
@@ -237,15 +296,7 @@ export function DashboardToolbar() {
               <Tooltip>
                 <TooltipTrigger asChild>
                   <button
-                    onClick={() => {
-                      togglePlayback();
-                      const engine = AudioEngine.getInstance();
-                      if (isPlaying) {
-                        engine?.pause();
-                      } else {
-                        engine?.play();
-                      }
-                    }}
+                    onClick={togglePlayback}
                     className="h-7 px-4 bg-foreground text-background rounded-full flex items-center justify-center hover:opacity-90 transition shadow-sm"
                     aria-label={isPlaying ? "Pause" : "Play"}
                   >
@@ -268,9 +319,8 @@ export function DashboardToolbar() {
                   <button
                     onClick={() => {
                       stopPlayback();
-                      const engine = AudioEngine.getInstance();
-                      engine?.stop();
-                      setPlayheadPosition(0);
+                      // Rewinding is a transport command, not store state
+                      AudioEngine.getInstance()?.stop();
                     }}
                     className="w-8 h-8 flex items-center justify-center text-foreground/70 hover:text-foreground transition"
                     aria-label="Stop"
@@ -317,8 +367,43 @@ export function DashboardToolbar() {
             </div>
           </div>
 
-          {/* Zoom and Snap Controls */}
+          {/* Tool, Zoom and Snap Controls */}
           <div className="flex items-center space-x-1">
+            <Tooltip>
+              <TooltipTrigger asChild>
+                <button
+                  type="button"
+                  onClick={() => setTool("pointer")}
+                  className={cn(
+                    "w-8 h-8 flex items-center justify-center rounded-full hover:bg-accent transition",
+                    tool === "pointer" ? "text-primary bg-primary/10" : "text-muted-foreground hover:text-foreground"
+                  )}
+                  aria-label="Pointer Tool"
+                  aria-pressed={tool === "pointer"}
+                >
+                  <MousePointer2 className="w-4 h-4" />
+                </button>
+              </TooltipTrigger>
+              <TooltipContent side="bottom">Pointer (Esc)</TooltipContent>
+            </Tooltip>
+            <Tooltip>
+              <TooltipTrigger asChild>
+                <button
+                  type="button"
+                  onClick={() => setTool("blade")}
+                  className={cn(
+                    "w-8 h-8 flex items-center justify-center rounded-full hover:bg-accent transition",
+                    tool === "blade" ? "text-primary bg-primary/10" : "text-muted-foreground hover:text-foreground"
+                  )}
+                  aria-label="Blade Tool"
+                  aria-pressed={tool === "blade"}
+                >
+                  <Scissors className="w-4 h-4" />
+                </button>
+              </TooltipTrigger>
+              <TooltipContent side="bottom">Blade (B) · Split at Playhead (S)</TooltipContent>
+            </Tooltip>
+            <div className="w-px h-4 bg-border mx-1"></div>
             <Tooltip>
               <TooltipTrigger asChild>
                 <button
@@ -332,8 +417,9 @@ export function DashboardToolbar() {
                   <Magnet className="w-4 h-4" />
                 </button>
               </TooltipTrigger>
-              <TooltipContent side="bottom">Snap to Grid</TooltipContent>
+              <TooltipContent side="bottom">Snap to Grid · Hold Ctrl/Cmd While Dragging to Bypass</TooltipContent>
             </Tooltip>
+            <GridMenu />
             <div className="w-px h-4 bg-border mx-1"></div>
             <Tooltip>
               <TooltipTrigger asChild>
@@ -365,29 +451,49 @@ export function DashboardToolbar() {
         {/* Right Section: Preset */}
         <div className="flex-1 flex justify-end items-center">
           <div className="flex items-center space-x-4 bg-accent rounded-lg p-1 px-2 border border-border h-8">
-            <div className="flex items-center space-x-2 px-2 border-r border-background h-full">
-              <SlidersHorizontal className="w-3.5 h-3.5 text-muted-foreground" />
-              <div className="text-xs font-bold text-foreground/90 tracking-tight">
-                Preset
-              </div>
-            </div>
-            <div className="flex items-center space-x-2 pr-2 w-48 relative">
+            <Tooltip>
+              <TooltipTrigger asChild>
+                <button
+                  type="button"
+                  onClick={() => setMasterBusOpen(true)}
+                  className="flex items-center space-x-2 px-2 border-r border-background h-full hover:text-foreground transition"
+                  aria-label="Master Bus"
+                >
+                  <SlidersHorizontal
+                    className={cn(
+                      "w-3.5 h-3.5",
+                      masterBus.effects.length > 0 || masterBus.limiter.enabled
+                        ? "text-primary"
+                        : "text-muted-foreground"
+                    )}
+                  />
+                  <div className="text-xs font-bold text-foreground/90 tracking-tight">
+                    Master
+                  </div>
+                </button>
+              </TooltipTrigger>
+              <TooltipContent side="bottom">Master Bus</TooltipContent>
+            </Tooltip>
+            <div className="flex items-center space-x-2 pr-2 relative">
               <Volume2 className="w-4 h-4 text-muted-foreground shrink-0" />
               <Slider
-                defaultValue={[masterVolume * 100]}
+                value={[masterVolume * 100]}
                 max={100}
                 step={1}
+                onPointerDown={beginPointerGesture}
                 onValueChange={handleVolumeChange}
                 className="w-16 **:data-[slot=slider-track]:h-1 **:data-[slot=slider-thumb]:size-2.5"
               />
               <span className="text-[10px] font-mono text-muted-foreground tracking-tighter shrink-0 w-12 text-right">
-                {(20 * Math.log10(Math.max(masterVolume, 0.001))).toFixed(1)} dB
+                {volumeToDb(masterVolume).toFixed(1)} dB
               </span>
-              <VuMeter />
+              <MasterMeter />
             </div>
           </div>
         </div>
       </div>
+      <MasterBusDialog open={masterBusOpen} onOpenChange={setMasterBusOpen} />
+      <TempoMapDialog open={tempoMapOpen} onOpenChange={setTempoMapOpen} />
     </TooltipProvider>
   );
 }
@@ -0,0 +1,89 @@
+"use client";
+
+import {
+  Tooltip,
+  TooltipContent,
+  TooltipTrigger,
+} from "@/components/ui/tooltip";
+import { useMasterMeter } from "@/features/core-audio/hooks/use-meter";
+import type { MeterReading } from "@/features/core-audio/lib/meter";
+import { MeterBar } from "./MeterBar";
+
+function formatLevel(db: number): string {
+  return Number.isFinite(db) ? db.toFixed(1) : "-inf";
+}
+
+export function MasterMeter() {
+  const { reading, reset } = useMasterMeter();
+
+  return (
+    <Tooltip>
+      <TooltipTrigger asChild>
+        <button
+          type="button"
+          onClick={reset}
+          aria-label="Reset Meters"
+          className="flex items-center gap-1.5 h-[22px] px-1"
+        >
+          <div className="flex items-end gap-[2px] h-full">
+            <MeterBar reading={reading} channel={0} />
+            <MeterBar reading={reading} channel={1} />
+          </div>
+          <div className="flex flex-col items-end font-mono text-[9px] leading-[11px] text-muted-foreground w-12">
+            <span>{formatLevel(reading?.shortTerm ?? -Infinity)} S</span>
+            <span>{formatLevel(reading?.integrated ?? -Infinity)} I</span>
+          </div>
+        </button>
+      </TooltipTrigger>
+      <TooltipContent side="bottom">
+        <MeterDetails reading={reading} />
+      </TooltipContent>
+    </Tooltip>
+  );
+}
+
+function MeterDetails({ reading }: { reading: MeterReading | null }) {
+  const rows: [string, string][] = reading
+    ? [
+        [
+          "Peak",
+          `${formatLevel(reading.peak[0])} / ${formatLevel(reading.peak[1])} dBFS`,
+        ],
+        [
+          "True peak",
+          `${formatLevel(reading.truePeak[0])} / ${formatLevel(reading.truePeak[1])} dBTP`,
+        ],
+        [
+          "Hold",
+          `${formatLevel(reading.peakHold[0])} / ${formatLevel(reading.peakHold[1])} dBTP`,
+        ],
+        [
+          "RMS",
+          `${formatLevel(reading.rms[0])} / ${formatLevel(reading.rms[1])} dBFS`,
+        ],
+        ["Momentary", `${formatLevel(reading.momentary)} LUFS`],
+        ["Short-term", `${formatLevel(reading.shortTerm)} LUFS`],
+        ["Integrated", `${formatLevel(reading.integrated)} LUFS`],
+      ]
+    : [];
+
+  return (
+    <div className="space-y-0.5 text-[11px]">
+      {rows.length === 0 ? (
+        <p>Meter starts with the audio engine.</p>
+      ) : (
+        <div className="grid grid-cols-[auto_auto] gap-x-3 font-mono">
+          {rows.map(([label, value]) => (
+            <div key={label} className="contents">
+              <span className="text-muted-foreground">{label}</span>
+              <span className="text-right">{value}</span>
+            </div>
+          ))}
+        </div>
+      )}
+      <p className="text-muted-foreground">
+        Click to reset hold, clip and integrated.
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,62 @@
+"use client";
+
+import type { MeterReading } from "@/features/core-audio/lib/meter";
+import { cn } from "@/lib/utils";
+
+// Bottom of the meter scale, in dBFS
+const FLOOR_DB = -60;
+
+function toPercent(db: number): number {
+  if (!Number.isFinite(db)) return 0;
+  return Math.min(100, Math.max(0, ((db - FLOOR_DB) / -FLOOR_DB) * 100));
+}
+
+/**
+ * One channel of a level meter: peak (dim) and RMS (solid) fills, the
+ * peak-hold line and an over LED on top.
+ */
+export function MeterBar({
+  reading,
+  channel,
+}: {
+  reading: MeterReading | null;
+  channel: 0 | 1;
+}) {
+  const peak = reading?.peak[channel] ?? -Infinity;
+  const rms = reading?.rms[channel] ?? -Infinity;
+  const hold = reading?.peakHold[channel] ?? -Infinity;
+  const clipped = reading?.clipped[channel] ?? false;
+
+  let color = "bg-green-500";
+  if (peak > -3) color = "bg-red-500";
+  else if (peak > -12) color = "bg-amber-500";
+
+  return (
+    <div className="flex flex-col gap-[1px] h-full w-[5px]">
+      <div
+        className={cn(
+          "h-[3px] w-full rounded-[1px]",
+          clipped
+            ? "bg-red-500 shadow-[0_0_4px_rgba(239,68,68,0.6)]"
+            : "bg-[#1a1a28]",
+        )}
+      />
+      <div className="relative flex-1 bg-[#1a1a28] rounded-sm overflow-hidden">
+        <div
+          className={cn("absolute bottom-0 w-full opacity-50", color)}
+          style={{ height: `${toPercent(peak)}%` }}
+        />
+        <div
+          className={cn("absolute bottom-0 w-full", color)}
+          style={{ height: `${toPercent(rms)}%` }}
+        />
+        {Number.isFinite(hold) && (
+          <div
+            className="absolute w-full h-px bg-foreground"
+            style={{ bottom: `${toPercent(hold)}%` }}
+          />
+        )}
+      </div>
+    </div>
+  );
+}
@@ -1,12 +1,35 @@
 "use client";
 
-import { Activity, ChevronDown, Volume2, Trash2 } from "lucide-react";
+import { useState } from "react";
+import { Activity, ChevronDown, Eraser, Layers, Route, Spline, Undo2, Volume2, Trash2 } from "lucide-react";
 import { Button } from "@/components/ui/button";
+import { Knob } from "@/components/ui/knob";
 import { Slider } from "@/components/ui/slider";
 import { useTrackStore } from "@/features/track-manager/store/trackStore";
-import { AudioEngine } from "@/features/core-audio/lib/audio-engine";
+import { useTimelineStore } from "@/features/timeline-ruler/store/timelineStore";
+import { beginPointerGesture } from "@/features/history/lib/history";
 import { cn } from "@/lib/utils";
-import { Track } from "@/features/core-audio/types/audio";
+import { Track, TrackKind } from "@/features/core-audio/types/audio";
+import { TrackEffectsDialog } from "@/features/effects/components/TrackEffectsDialog";
+import { TrackRoutingDialog } from "@/features/track-manager/components/TrackRoutingDialog";
+import { AUTOMATION_LANE_HEIGHT, AUTOMATION_PARAMS, AUTOMATION_RANGES } from "@/features/automation/lib/automation";
+import { TrackMeter } from "./TrackMeter";
+
+const TRACK_KIND_ICONS: Record<TrackKind, typeof Activity> = {
+    audio: Activity,
+    group: Layers,
+    return: Undo2,
+};
+
+function formatPan(pan: number): string {
+    const amount = Math.round(Math.abs(pan) * 100);
+    if (amount === 0) return "Pan C";
+    return `Pan ${pan < 0 ? "L" : "R"}${amount}`;
+}
+
+function formatWidth(width: number): string {
+    return `Width ${Math.round(width * 100)}%`;
+}
 
 interface SidebarTrackItemProps {
     track: Track;
@@ -14,101 +37,196 @@ interface SidebarTrackItemProps {
 
 export function SidebarTrackItem({ track }: SidebarTrackItemProps) {
     const { updateTrack, removeTrack, toggleArm } = useTrackStore();
+    const [effectsOpen, setEffectsOpen] = useState(false);
+    const [routingOpen, setRoutingOpen] = useState(false);
+    const showAutomation = useTimelineStore((s) => s.expandedAutomation.includes(track.id));
+    const toggleAutomation = useTimelineStore((s) => s.toggleAutomation);
+    const KindIcon = TRACK_KIND_ICONS[track.kind];
 
     const handleMute = () => {
         const newVal = !track.isMuted;
         updateTrack(track.id, { isMuted: newVal });
-        AudioEngine.getInstance()?.updateTrackControl(track.id, 'mute', newVal);
     };
 
     const handleSolo = () => {
         const newVal = !track.isSolo;
         updateTrack(track.id, { isSolo: newVal });
-        AudioEngine.getInstance()?.updateTrackControl(track.id, 'solo', newVal);
     };
 
     const handleVolume = (values: number[]) => {
         const val = values[0] / 100;
         updateTrack(track.id, { volume: val });
-        AudioEngine.getInstance()?.updateTrackControl(track.id, 'volume', val);
+    };
+
+    const handlePan = (pan: number) => {
+        updateTrack(track.id, { pan });
+    };
+
+    const handleWidth = (stereoWidth: number) => {
+        updateTrack(track.id, { stereoWidth });
     };
 
     return (
-        <div className="h-20 bg-primary/5 border-b border-border py-2 px-4 relative group flex flex-col justify-between hover:bg-white/5 transition-colors">
-            <div className="flex justify-between items-center w-full">
-                <div className="flex items-center space-x-2">
-                    <Activity className="w-4 h-4 text-muted-foreground" />
-                    <span className="font-semibold text-xs text-foreground truncate max-w-[120px]">
-                        {track.name}
-                    </span>
+        <div>
+            <div className="h-20 bg-primary/5 border-b border-border py-2 px-4 relative group flex flex-col justify-between hover:bg-white/5 transition-colors">
+                <div className="flex justify-between items-center w-full">
+                    <div className="flex items-center space-x-2">
+                        <KindIcon className="w-4 h-4 text-muted-foreground" />
+                        <span className="font-semibold text-xs text-foreground truncate max-w-[120px]">
+                            {track.name}
+                        </span>
+                    </div>
+                    <div className="flex items-center space-x-1 opacity-0 group-hover:opacity-100 transition-opacity">
+                        <Button
+                            variant="ghost"
+                            size="icon"
+                            className="h-6 w-6 text-muted-foreground hover:text-rose-500"
+                            onClick={() => removeTrack(track.id)}
+                        >
+                            <Trash2 className="w-3.5 h-3.5" />
+                        </Button>
+                        <Button
+                            variant="ghost"
+                            size="icon"
+                            aria-label="Automation Lanes"
+                            onClick={() => toggleAutomation(track.id)}
+                            className={cn(
+                                "h-6 w-6",
+                                showAutomation || AUTOMATION_PARAMS.some((p) => track.automation[p].length > 0)
+                                    ? "text-primary"
+                                    : "text-muted-foreground"
+                            )}
+                        >
+                            <Spline className="w-3.5 h-3.5" />
+                        </Button>
+                        <Button
+                            variant="ghost"
+                            size="icon"
+                            aria-label="Track Routing"
+                            onClick={() => setRoutingOpen(true)}
+                            className={cn(
+                                "h-6 w-6",
+                                track.output || track.sends.length > 0 ? "text-primary" : "text-muted-foreground"
+                            )}
+                        >
+                            <Route className="w-3.5 h-3.5" />
+                        </Button>
+                        <Button
+                            variant="ghost"
+                            size="icon"
+                            aria-label="Track Effects"
+                            onClick={() => setEffectsOpen(true)}
+                            className={cn(
+                                "h-6 w-6",
+                                track.effects.length > 0 ? "text-primary" : "text-muted-foreground"
+                            )}
+                        >
+                            <ChevronDown className="w-4 h-4" />
+                        </Button>
+                    </div>
+                </div>
+
+                <div className="flex items-center justify-between w-full">
+                    <div className="flex space-x-1">
+                        <button
+                            onClick={handleMute}
+                            className={cn(
+                                "w-7 h-6 flex items-center justify-center rounded text-[10px] font-bold transition",
+                                track.isMuted ? "bg-amber-500 text-background" : "bg-card border border-border text-muted-foreground hover:text-foreground"
+                            )}
+                        >
+                            M
+                        </button>
+                        <button
+                            onClick={handleSolo}
+                            className={cn(
+                                "w-7 h-6 flex items-center justify-center rounded text-[10px] font-bold transition",
+                                track.isSolo ? "bg-blue-500 text-background" : "bg-card border border-border text-muted-foreground hover:text-foreground"
+                            )}
+                        >
+                            S
+                        </button>
+                        {track.kind === "audio" && (
+                            <button
+                                onClick={() => toggleArm(track.id)}
+                                className={cn(
+                                    "w-7 h-6 flex items-center justify-center rounded text-[10px] font-bold transition",
+                                    track.isArmed ? "bg-rose-500 text-background animate-pulse" : "bg-card border border-border text-muted-foreground hover:text-rose-500/70"
+                                )}
+                            >
+                                R
+                            </button>
+                        )}
+                    </div>
+                    <div className="flex items-center space-x-1">
+                        <Knob
+                            aria-label="Pan"
+                            value={track.pan}
+                            min={-1}
+                            max={1}
+                            defaultValue={0}
+                            origin={0}
+                            formatValue={formatPan}
+                            onPointerDown={beginPointerGesture}
+                            onValueChange={handlePan}
+                            className="size-5"
+                        />
+                        <Knob
+                            aria-label="Stereo Width"
+                            value={track.stereoWidth}
+                            min={0}
+                            max={2}
+                            defaultValue={1}
+                            origin={1}
+                            formatValue={formatWidth}
+                            onPointerDown={beginPointerGesture}
+                            onValueChange={handleWidth}
+                            className="size-5"
+                        />
+                    </div>
+                    <div className="flex items-center space-x-1.5">
+                        <Volume2 className="w-3 h-3 text-muted-foreground shrink-0" />
+                        <Slider
+                            value={[track.volume * 100]}
+                            max={100}
+                            step={1}
+                            onPointerDown={beginPointerGesture}
+                            onValueChange={handleVolume}
+                            className="w-14 data-[slot=slider-track]:h-1 data-[slot=slider-thumb]:size-2.5"
+                        />
+                        <TrackMeter trackId={track.id} />
+                    </div>
                 </div>
-                <div className="flex items-center space-x-1 opacity-0 group-hover:opacity-100 transition-opacity">
+                <div
+                    className="absolute left-0 top-0 bottom-0 w-1"
+                    style={{ backgroundColor: track.color || 'var(--primary)' }}
+                ></div>
+                <TrackEffectsDialog track={track} open={effectsOpen} onOpenChange={setEffectsOpen} />
+                <TrackRoutingDialog track={track} open={routingOpen} onOpenChange={setRoutingOpen} />
+            </div>
+
+            {/* Headers lining up with the automation lanes in the timeline */}
+            {showAutomation && AUTOMATION_PARAMS.map((param) => (
+                <div
+                    key={param}
+                    className="flex items-center justify-between pl-6 pr-4 border-b border-border bg-background/40"
+                    style={{ height: `${AUTOMATION_LANE_HEIGHT}px` }}
+                >
+                    <span className="text-[10px] font-bold uppercase tracking-wider text-muted-foreground">
+                        {AUTOMATION_RANGES[param].label}
+                    </span>
                     <Button
                         variant="ghost"
                         size="icon"
+                        aria-label={`Clear ${AUTOMATION_RANGES[param].label} Automation`}
+                        disabled={track.automation[param].length === 0}
+                        onClick={() => updateTrack(track.id, { automation: { ...track.automation, [param]: [] } })}
                         className="h-6 w-6 text-muted-foreground hover:text-rose-500"
-                        onClick={() => {
-                            removeTrack(track.id);
-                            AudioEngine.getInstance()?.removeChannel(track.id);
-                        }}
                     >
-                        <Trash2 className="w-3.5 h-3.5" />
+                        <Eraser className="w-3.5 h-3.5" />
                     </Button>
-                    <Button
-                        variant="ghost"
-                        size="icon"
-                        className="h-6 w-6 text-muted-foreground"
-                    >
-                        <ChevronDown className="w-4 h-4" />
-                    </Button>
-                </div>
-            </div>
-
-            <div className="flex items-center justify-between w-full">
-                <div className="flex space-x-1">
-                    <button
-                        onClick={handleMute}
-                        className={cn(
-                            "w-7 h-6 flex items-center justify-center rounded text-[10px] font-bold transition",
-                            track.isMuted ? "bg-amber-500 text-background" : "bg-card border border-border text-muted-foreground hover:text-foreground"
-                        )}
-                    >
-                        M
-                    </button>
-                    <button
-                        onClick={handleSolo}
-                        className={cn(
-                            "w-7 h-6 flex items-center justify-center rounded text-[10px] font-bold transition",
-                            track.isSolo ? "bg-blue-500 text-background" : "bg-card border border-border text-muted-foreground hover:text-foreground"
-                        )}
-                    >
-                        S
-                    </button>
-                    <button
-                        onClick={() => toggleArm(track.id)}
-                        className={cn(
-                            "w-7 h-6 flex items-center justify-center rounded text-[10px] font-bold transition",
-                            track.isArmed ? "bg-rose-500 text-background animate-pulse" : "bg-card border border-border text-muted-foreground hover:text-rose-500/70"
-                        )}
-                    >
-                        R
-                    </button>
                 </div>
-                <div className="flex items-center space-x-2">
-                    <Volume2 className="w-3 h-3 text-muted-foreground shrink-0" />
-                    <Slider
-                        defaultValue={[track.volume * 100]}
-                        max={100}
-                        step={1}
-                        onValueChange={handleVolume}
-                        className="w-20 data-[slot=slider-track]:h-1 data-[slot=slider-thumb]:size-2.5"
-                    />
-                </div>
-            </div>
-            <div
-                className="absolute left-0 top-0 bottom-0 w-1"
-                style={{ backgroundColor: track.color || 'var(--primary)' }}
-            ></div>
+            ))}
         </div>
     );
 }
@@ -0,0 +1,28 @@
+"use client";
+
+import { useTrackMeter } from "@/features/core-audio/hooks/use-meter";
+import { MeterBar } from "./MeterBar";
+
+function formatLevel(db: number): string {
+  return Number.isFinite(db) ? `${db.toFixed(1)} dB` : "-inf dB";
+}
+
+export function TrackMeter({ trackId }: { trackId: string }) {
+  const { reading, reset } = useTrackMeter(trackId);
+  const hold = reading
+    ? Math.max(reading.peakHold[0], reading.peakHold[1])
+    : Number.NEGATIVE_INFINITY;
+
+  return (
+    <button
+      type="button"
+      onClick={reset}
+      aria-label="Reset Track Meter"
+      title={`Peak hold ${formatLevel(hold)}. Click to reset.`}
+      className="flex items-end gap-[1px] h-5 shrink-0"
+    >
+      <MeterBar reading={reading} channel={0} />
+      <MeterBar reading={reading} channel={1} />
+    </button>
+  );
+}
@@ -0,0 +1,141 @@
+"use client";
+
+import { ArrowDown, ArrowUp, Power, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Knob } from "@/components/ui/knob";
+import { beginPointerGesture } from "@/features/history/lib/history";
+import { cn } from "@/lib/utils";
+import {
+  EFFECT_DEFINITIONS,
+  formatParam,
+  paramToPosition,
+  positionToParam,
+} from "../lib/effect-definitions";
+import type { EffectDevice, EffectParamDefinition } from "../types/effects";
+
+interface EffectDevicePanelProps {
+  device: EffectDevice;
+  index: number;
+  count: number;
+  onChange: (updates: Partial<EffectDevice>) => void;
+  onRemove: () => void;
+  onMove: (toIndex: number) => void;
+}
+
+// Bipolar parameters (e.g. EQ gain) draw their arc from zero
+function knobOrigin(param: EffectParamDefinition): number {
+  return param.min < 0 && param.max > 0 ? paramToPosition(param, 0) : 0;
+}
+
+export function EffectDevicePanel({
+  device,
+  index,
+  count,
+  onChange,
+  onRemove,
+  onMove,
+}: EffectDevicePanelProps) {
+  const definition = EFFECT_DEFINITIONS[device.type];
+
+  const handleParam = (param: EffectParamDefinition, position: number) => {
+    onChange({
+      params: {
+        ...device.params,
+        [param.key]: positionToParam(param, position),
+      },
+    });
+  };
+
+  return (
+    <div
+      className={cn(
+        "rounded-md border border-border bg-background/50",
+        device.bypassed && "opacity-60",
+      )}
+    >
+      <div className="flex items-center justify-between border-b border-border px-2 py-1.5">
+        <div className="flex items-center gap-2">
+          <Button
+            variant="ghost"
+            size="icon"
+            aria-label={device.bypassed ? "Enable" : "Bypass"}
+            aria-pressed={!device.bypassed}
+            onClick={() => onChange({ bypassed: !device.bypassed })}
+            className={cn(
+              "h-6 w-6",
+              device.bypassed ? "text-muted-foreground" : "text-primary",
+            )}
+          >
+            <Power className="w-3.5 h-3.5" />
+          </Button>
+          <span className="text-xs font-semibold">{definition.label}</span>
+        </div>
+        <div className="flex items-center gap-0.5">
+          <Button
+            variant="ghost"
+            size="icon"
+            aria-label="Move Up"
+            disabled={index === 0}
+            onClick={() => onMove(index - 1)}
+            className="h-6 w-6 text-muted-foreground"
+          >
+            <ArrowUp className="w-3.5 h-3.5" />
+          </Button>
+          <Button
+            variant="ghost"
+            size="icon"
+            aria-label="Move Down"
+            disabled={index === count - 1}
+            onClick={() => onMove(index + 1)}
+            className="h-6 w-6 text-muted-foreground"
+          >
+            <ArrowDown className="w-3.5 h-3.5" />
+          </Button>
+          <Button
+            variant="ghost"
+            size="icon"
+            aria-label="Remove Effect"
+            onClick={onRemove}
+            className="h-6 w-6 text-muted-foreground hover:text-rose-500"
+          >
+            <Trash2 className="w-3.5 h-3.5" />
+          </Button>
+        </div>
+      </div>
+
+      <div className="flex flex-wrap gap-x-4 gap-y-3 px-3 py-3">
+        {definition.params.map((param) => {
+          const value = device.params[param.key];
+          return (
+            <div
+              key={param.key}
+              className="flex w-14 flex-col items-center gap-1"
+            >
+              <Knob
+                aria-label={param.label}
+                value={paramToPosition(param, value)}
+                min={0}
+                max={1}
+                step={0.001}
+                defaultValue={paramToPosition(param, param.defaultValue)}
+                origin={knobOrigin(param)}
+                formatValue={(position) =>
+                  formatParam(param, positionToParam(param, position))
+                }
+                onPointerDown={beginPointerGesture}
+                onValueChange={(position) => handleParam(param, position)}
+                className="size-8"
+              />
+              <span className="text-[10px] text-muted-foreground">
+                {param.label}
+              </span>
+              <span className="font-mono text-[10px] text-foreground">
+                {formatParam(param, value)}
+              </span>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
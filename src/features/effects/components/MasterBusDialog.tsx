@@ -0,0 +1,263 @@
+"use client";
+
+import { Plus, Power } from "lucide-react";
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { Knob } from "@/components/ui/knob";
+import { useAudioStore } from "@/features/core-audio/store/audioStore";
+import type { MasterLimiter } from "@/features/core-audio/types/audio";
+import { measureMixLoudness } from "@/features/export/lib/mixdown";
+import { beginPointerGesture } from "@/features/history/lib/history";
+import { cn } from "@/lib/utils";
+import {
+  createEffectDevice,
+  EFFECT_DEFINITIONS,
+  EFFECT_TYPES,
+} from "../lib/effect-definitions";
+import { EffectDevicePanel } from "./EffectDevicePanel";
+
+const OUTPUT_GAIN_RANGE = 24;
+
+interface MasterBusDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+function formatDb(value: number, unit = "dB"): string {
+  return `${value > 0 ? "+" : ""}${value.toFixed(1)} ${unit}`;
+}
+
+function ControlKnob({
+  label,
+  value,
+  display,
+  ...props
+}: Omit<React.ComponentProps<typeof Knob>, "value" | "aria-label"> & {
+  label: string;
+  value: number;
+  display: string;
+}) {
+  return (
+    <div className="flex w-16 flex-col items-center gap-1">
+      <Knob
+        aria-label={label}
+        value={value}
+        onPointerDown={beginPointerGesture}
+        className="size-8"
+        {...props}
+      />
+      <span className="text-[10px] text-muted-foreground">{label}</span>
+      <span className="font-mono text-[10px] text-foreground">{display}</span>
+    </div>
+  );
+}
+
+export function MasterBusDialog({ open, onOpenChange }: MasterBusDialogProps) {
+  const {
+    masterBus,
+    updateMasterBus,
+    addMasterEffect,
+    updateMasterEffect,
+    removeMasterEffect,
+    moveMasterEffect,
+  } = useAudioStore();
+  const [measured, setMeasured] = useState<number | null>(null);
+  const [isMeasuring, setIsMeasuring] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const { limiter } = masterBus;
+  const updateLimiter = (updates: Partial<MasterLimiter>) =>
+    updateMasterBus({ limiter: { ...limiter, ...updates } });
+
+  const handleMatch = async () => {
+    setIsMeasuring(true);
+    setError(null);
+    try {
+      const loudness = await measureMixLoudness();
+      setMeasured(loudness);
+      if (!Number.isFinite(loudness)) {
+        setError("The arrangement is silent; there is nothing to match.");
+        return;
+      }
+      const gain = masterBus.loudnessTarget - loudness;
+      updateMasterBus({
+        outputGain: Math.max(
+          -OUTPUT_GAIN_RANGE,
+          Math.min(OUTPUT_GAIN_RANGE, gain),
+        ),
+      });
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Measuring failed");
+    } finally {
+      setIsMeasuring(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Master Bus</DialogTitle>
+          <DialogDescription>
+            The whole mix runs through the inserts, the master fader, the output
+            stage and the limiter, live and on export.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="max-h-[50vh] space-y-2 overflow-y-auto">
+          {masterBus.effects.length === 0 ? (
+            <p className="py-4 text-center text-xs italic text-muted-foreground">
+              No effects on the master bus.
+            </p>
+          ) : (
+            masterBus.effects.map((device, index) => (
+              <EffectDevicePanel
+                key={device.id}
+                device={device}
+                index={index}
+                count={masterBus.effects.length}
+                onChange={(updates) => updateMasterEffect(device.id, updates)}
+                onRemove={() => removeMasterEffect(device.id)}
+                onMove={(toIndex) => moveMasterEffect(device.id, toIndex)}
+              />
+            ))
+          )}
+        </div>
+
+        <DropdownMenu>
+          <DropdownMenuTrigger asChild>
+            <Button variant="outline" size="sm" className="self-start">
+              <Plus className="w-4 h-4" /> Add Effect
+            </Button>
+          </DropdownMenuTrigger>
+          <DropdownMenuContent align="start">
+            {EFFECT_TYPES.map((type) => (
+              <DropdownMenuItem
+                key={type}
+                onSelect={() => addMasterEffect(createEffectDevice(type))}
+              >
+                {EFFECT_DEFINITIONS[type].label}
+              </DropdownMenuItem>
+            ))}
+          </DropdownMenuContent>
+        </DropdownMenu>
+
+        <div className="grid grid-cols-2 gap-2">
+          <div className="rounded-md border border-border bg-background/50">
+            <div className="flex h-9 items-center border-b border-border px-3">
+              <span className="text-xs font-semibold">Output Stage</span>
+            </div>
+            <div className="flex flex-col items-center gap-3 px-3 py-3">
+              <div className="flex gap-2">
+                <ControlKnob
+                  label="Target"
+                  value={masterBus.loudnessTarget}
+                  min={-30}
+                  max={-6}
+                  step={0.5}
+                  defaultValue={-14}
+                  formatValue={(v) => `${v.toFixed(1)} LUFS`}
+                  onValueChange={(loudnessTarget) =>
+                    updateMasterBus({ loudnessTarget })
+                  }
+                  display={`${masterBus.loudnessTarget.toFixed(1)} LUFS`}
+                />
+                <ControlKnob
+                  label="Gain"
+                  value={masterBus.outputGain}
+                  min={-OUTPUT_GAIN_RANGE}
+                  max={OUTPUT_GAIN_RANGE}
+                  step={0.1}
+                  defaultValue={0}
+                  origin={0}
+                  formatValue={(v) => formatDb(v)}
+                  onValueChange={(outputGain) =>
+                    updateMasterBus({ outputGain })
+                  }
+                  display={formatDb(masterBus.outputGain)}
+                />
+              </div>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={handleMatch}
+                disabled={isMeasuring}
+                className="h-7 w-full text-xs"
+              >
+                {isMeasuring ? "Measuring…" : "Match Target"}
+              </Button>
+              {measured !== null && Number.isFinite(measured) && (
+                <span className="text-[10px] text-muted-foreground">
+                  Mix measured {measured.toFixed(1)} LUFS
+                </span>
+              )}
+            </div>
+          </div>
+
+          <div
+            className={cn(
+              "rounded-md border border-border bg-background/50",
+              !limiter.enabled && "opacity-60",
+            )}
+          >
+            <div className="flex h-9 items-center gap-2 border-b border-border px-2">
+              <Button
+                variant="ghost"
+                size="icon"
+                aria-label={limiter.enabled ? "Bypass" : "Enable"}
+                aria-pressed={limiter.enabled}
+                onClick={() => updateLimiter({ enabled: !limiter.enabled })}
+                className={cn(
+                  "h-6 w-6",
+                  limiter.enabled ? "text-primary" : "text-muted-foreground",
+                )}
+              >
+                <Power className="w-3.5 h-3.5" />
+              </Button>
+              <span className="text-xs font-semibold">Limiter</span>
+            </div>
+            <div className="flex justify-center gap-2 px-3 py-3">
+              <ControlKnob
+                label="Ceiling"
+                value={limiter.ceiling}
+                min={-12}
+                max={0}
+                step={0.1}
+                defaultValue={-1}
+                formatValue={(v) => formatDb(v, "dBFS")}
+                onValueChange={(ceiling) => updateLimiter({ ceiling })}
+                display={formatDb(limiter.ceiling, "dBFS")}
+              />
+              <ControlKnob
+                label="Release"
+                value={limiter.release}
+                min={1}
+                max={1000}
+                step={1}
+                defaultValue={100}
+                formatValue={(v) => `${Math.round(v)} ms`}
+                onValueChange={(release) => updateLimiter({ release })}
+                display={`${Math.round(limiter.release)} ms`}
+              />
+            </div>
+          </div>
+        </div>
+
+        {error && <p className="text-xs text-rose-500">{error}</p>}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,93 @@
+"use client";
+
+import { Plus } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import type { Track } from "@/features/core-audio/types/audio";
+import { useTrackStore } from "@/features/track-manager/store/trackStore";
+import {
+  createEffectDevice,
+  EFFECT_DEFINITIONS,
+  EFFECT_TYPES,
+} from "../lib/effect-definitions";
+import { EffectDevicePanel } from "./EffectDevicePanel";
+
+interface TrackEffectsDialogProps {
+  track: Track;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+export function TrackEffectsDialog({
+  track,
+  open,
+  onOpenChange,
+}: TrackEffectsDialogProps) {
+  const { addEffect, updateEffect, removeEffect, moveEffect } = useTrackStore();
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>{track.name} Effects</DialogTitle>
+          <DialogDescription>
+            Inserts process the track top to bottom, before width, pan and
+            fader.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="max-h-[60vh] space-y-2 overflow-y-auto">
+          {track.effects.length === 0 ? (
+            <p className="py-6 text-center text-xs italic text-muted-foreground">
+              No effects on this track.
+            </p>
+          ) : (
+            track.effects.map((device, index) => (
+              <EffectDevicePanel
+                key={device.id}
+                device={device}
+                index={index}
+                count={track.effects.length}
+                onChange={(updates) =>
+                  updateEffect(track.id, device.id, updates)
+                }
+                onRemove={() => removeEffect(track.id, device.id)}
+                onMove={(toIndex) => moveEffect(track.id, device.id, toIndex)}
+              />
+            ))
+          )}
+        </div>
+
+        <DropdownMenu>
+          <DropdownMenuTrigger asChild>
+            <Button variant="outline" size="sm" className="self-start">
+              <Plus className="w-4 h-4" /> Add Effect
+            </Button>
+          </DropdownMenuTrigger>
+          <DropdownMenuContent align="start">
+            {EFFECT_TYPES.map((type) => (
+              <DropdownMenuItem
+                key={type}
+                onSelect={() => addEffect(track.id, createEffectDevice(type))}
+              >
+                {EFFECT_DEFINITIONS[type].label}
+              </DropdownMenuItem>
+            ))}
+          </DropdownMenuContent>
+        </DropdownMenu>
+      </DialogContent>
+    </Dialog>
+  );
+}
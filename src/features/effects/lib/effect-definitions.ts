@@ -0,0 +1,341 @@
+import type {
+  EffectDefinition,
+  EffectDevice,
+  EffectParamDefinition,
+  EffectParams,
+  EffectType,
+} from "../types/effects";
+
+export const EFFECT_DEFINITIONS: Record<EffectType, EffectDefinition> = {
+  eq: {
+    type: "eq",
+    label: "Parametric EQ",
+    params: [
+      {
+        key: "lowFreq",
+        label: "Low Freq",
+        min: 20,
+        max: 1000,
+        step: 1,
+        defaultValue: 100,
+        unit: "Hz",
+        logarithmic: true,
+      },
+      {
+        key: "lowGain",
+        label: "Low Gain",
+        min: -18,
+        max: 18,
+        step: 0.1,
+        defaultValue: 0,
+        unit: "dB",
+      },
+      {
+        key: "midFreq",
+        label: "Mid Freq",
+        min: 100,
+        max: 10000,
+        step: 1,
+        defaultValue: 1000,
+        unit: "Hz",
+        logarithmic: true,
+      },
+      {
+        key: "midGain",
+        label: "Mid Gain",
+        min: -18,
+        max: 18,
+        step: 0.1,
+        defaultValue: 0,
+        unit: "dB",
+      },
+      {
+        key: "midQ",
+        label: "Mid Q",
+        min: 0.1,
+        max: 10,
+        step: 0.01,
+        defaultValue: 1,
+        unit: "",
+        logarithmic: true,
+      },
+      {
+        key: "highFreq",
+        label: "High Freq",
+        min: 1000,
+        max: 20000,
+        step: 1,
+        defaultValue: 8000,
+        unit: "Hz",
+        logarithmic: true,
+      },
+      {
+        key: "highGain",
+        label: "High Gain",
+        min: -18,
+        max: 18,
+        step: 0.1,
+        defaultValue: 0,
+        unit: "dB",
+      },
+    ],
+  },
+  compressor: {
+    type: "compressor",
+    label: "Compressor",
+    params: [
+      {
+        key: "threshold",
+        label: "Threshold",
+        min: -60,
+        max: 0,
+        step: 0.1,
+        defaultValue: -24,
+        unit: "dB",
+      },
+      {
+        key: "ratio",
+        label: "Ratio",
+        min: 1,
+        max: 20,
+        step: 0.1,
+        defaultValue: 4,
+        unit: ":1",
+      },
+      {
+        key: "attack",
+        label: "Attack",
+        min: 0.1,
+        max: 200,
+        step: 0.1,
+        defaultValue: 10,
+        unit: "ms",
+        logarithmic: true,
+      },
+      {
+        key: "release",
+        label: "Release",
+        min: 10,
+        max: 1000,
+        step: 1,
+        defaultValue: 200,
+        unit: "ms",
+        logarithmic: true,
+      },
+      {
+        key: "knee",
+        label: "Knee",
+        min: 0,
+        max: 40,
+        step: 0.1,
+        defaultValue: 6,
+        unit: "dB",
+      },
+      {
+        key: "makeup",
+        label: "Makeup",
+        min: 0,
+        max: 24,
+        step: 0.1,
+        defaultValue: 0,
+        unit: "dB",
+      },
+    ],
+  },
+  gate: {
+    type: "gate",
+    label: "Gate",
+    params: [
+      {
+        key: "threshold",
+        label: "Threshold",
+        min: -100,
+        max: 0,
+        step: 0.1,
+        defaultValue: -50,
+        unit: "dB",
+      },
+      {
+        key: "smoothing",
+        label: "Smoothing",
+        min: 1,
+        max: 500,
+        step: 1,
+        defaultValue: 100,
+        unit: "ms",
+        logarithmic: true,
+      },
+    ],
+  },
+  reverb: {
+    type: "reverb",
+    label: "Reverb",
+    params: [
+      {
+        key: "decay",
+        label: "Decay",
+        min: 0.1,
+        max: 15,
+        step: 0.01,
+        defaultValue: 2.5,
+        unit: "s",
+        logarithmic: true,
+      },
+      {
+        key: "preDelay",
+        label: "Pre-delay",
+        min: 0,
+        max: 200,
+        step: 1,
+        defaultValue: 10,
+        unit: "ms",
+      },
+      {
+        key: "mix",
+        label: "Mix",
+        min: 0,
+        max: 100,
+        step: 1,
+        defaultValue: 30,
+        unit: "%",
+      },
+    ],
+  },
+  delay: {
+    type: "delay",
+    label: "Delay",
+    params: [
+      {
+        key: "time",
+        label: "Time",
+        min: 1,
+        max: 2000,
+        step: 1,
+        defaultValue: 250,
+        unit: "ms",
+        logarithmic: true,
+      },
+      {
+        key: "feedback",
+        label: "Feedback",
+        min: 0,
+        max: 95,
+        step: 1,
+        defaultValue: 35,
+        unit: "%",
+      },
+      {
+        key: "mix",
+        label: "Mix",
+        min: 0,
+        max: 100,
+        step: 1,
+        defaultValue: 25,
+        unit: "%",
+      },
+    ],
+  },
+  saturator: {
+    type: "saturator",
+    label: "Saturator",
+    params: [
+      {
+        key: "drive",
+        label: "Drive",
+        min: 0,
+        max: 100,
+        step: 1,
+        defaultValue: 30,
+        unit: "%",
+      },
+      {
+        key: "mix",
+        label: "Mix",
+        min: 0,
+        max: 100,
+        step: 1,
+        defaultValue: 100,
+        unit: "%",
+      },
+      {
+        key: "output",
+        label: "Output",
+        min: -24,
+        max: 12,
+        step: 0.1,
+        defaultValue: 0,
+        unit: "dB",
+      },
+    ],
+  },
+};
+
+export const EFFECT_TYPES = Object.keys(EFFECT_DEFINITIONS) as EffectType[];
+
+export function isEffectType(value: unknown): value is EffectType {
+  return typeof value === "string" && value in EFFECT_DEFINITIONS;
+}
+
+export function clampParam(param: EffectParamDefinition, value: number) {
+  return Math.min(param.max, Math.max(param.min, value));
+}
+
+/**
+ * Completes a parameter set from the definition: missing or non-numeric
+ * values take their default, unknown keys are dropped and values are clamped.
+ */
+export function normalizeParams(
+  type: EffectType,
+  params: Record<string, unknown>,
+): EffectParams {
+  const normalized: EffectParams = {};
+  for (const param of EFFECT_DEFINITIONS[type].params) {
+    const value = params[param.key];
+    normalized[param.key] =
+      typeof value === "number" && Number.isFinite(value)
+        ? clampParam(param, value)
+        : param.defaultValue;
+  }
+  return normalized;
+}
+
+export function createEffectDevice(type: EffectType): EffectDevice {
+  return {
+    id: Math.random().toString(36).substring(7),
+    type,
+    bypassed: false,
+    params: normalizeParams(type, {}),
+  };
+}
+
+/**
+ * Maps a parameter value to knob travel in 0..1, and back. Logarithmic
+ * parameters spread decades evenly across the knob.
+ */
+export function paramToPosition(param: EffectParamDefinition, value: number) {
+  if (param.logarithmic && param.min > 0) {
+    return Math.log(value / param.min) / Math.log(param.max / param.min);
+  }
+  return (value - param.min) / (param.max - param.min);
+}
+
+export function positionToParam(
+  param: EffectParamDefinition,
+  position: number,
+) {
+  const raw =
+    param.logarithmic && param.min > 0
+      ? param.min * (param.max / param.min) ** position
+      : param.min + position * (param.max - param.min);
+  return clampParam(param, Math.round(raw / param.step) * param.step);
+}
+
+export function formatParam(param: EffectParamDefinition, value: number) {
+  if (param.unit === "Hz" && value >= 1000) {
+    return `${(value / 1000).toFixed(value >= 10000 ? 1 : 2)} kHz`;
+  }
+  const decimals = param.step >= 1 ? 0 : param.step >= 0.1 ? 1 : 2;
+  const text = value.toFixed(decimals);
+  if (param.unit === ":1") return `${text}:1`;
+  return param.unit ? `${text} ${param.unit}` : text;
+}
@@ -0,0 +1,193 @@
+import * as Tone from "tone";
+import type { EffectDevice, EffectParams } from "../types/effects";
+
+/**
+ * A built device: audio enters at `input` and leaves at `output`. Parameter
+ * changes are applied in place so the chain does not have to be rewired.
+ */
+export interface EffectNode {
+  input: Tone.ToneAudioNode;
+  output: Tone.ToneAudioNode;
+  update: (params: EffectParams) => void;
+  // Resolves once the device can make sound (reverb builds its IR async)
+  whenReady: () => Promise<void>;
+  dispose: () => void;
+}
+
+const ms = (value: number) => value / 1000;
+const percent = (value: number) => value / 100;
+const ready = () => Promise.resolve();
+
+function createEq(context: Tone.BaseContext, params: EffectParams): EffectNode {
+  const low = new Tone.Filter({ context, type: "lowshelf" });
+  const mid = new Tone.Filter({ context, type: "peaking" });
+  const high = new Tone.Filter({ context, type: "highshelf" });
+  low.chain(mid, high);
+
+  const update = (p: EffectParams) => {
+    low.frequency.value = p.lowFreq;
+    low.gain.value = p.lowGain;
+    mid.frequency.value = p.midFreq;
+    mid.gain.value = p.midGain;
+    mid.Q.value = p.midQ;
+    high.frequency.value = p.highFreq;
+    high.gain.value = p.highGain;
+  };
+  update(params);
+
+  return {
+    input: low,
+    output: high,
+    update,
+    whenReady: ready,
+    dispose: () => {
+      low.dispose();
+      mid.dispose();
+      high.dispose();
+    },
+  };
+}
+
+function createCompressor(
+  context: Tone.BaseContext,
+  params: EffectParams,
+): EffectNode {
+  const compressor = new Tone.Compressor({ context });
+  const makeup = new Tone.Volume({ context });
+  compressor.connect(makeup);
+
+  const update = (p: EffectParams) => {
+    compressor.threshold.value = p.threshold;
+    compressor.ratio.value = p.ratio;
+    compressor.attack.value = ms(p.attack);
+    compressor.release.value = ms(p.release);
+    compressor.knee.value = p.knee;
+    makeup.volume.value = p.makeup;
+  };
+  update(params);
+
+  return {
+    input: compressor,
+    output: makeup,
+    update,
+    whenReady: ready,
+    dispose: () => {
+      compressor.dispose();
+      makeup.dispose();
+    },
+  };
+}
+
+function createGate(
+  context: Tone.BaseContext,
+  params: EffectParams,
+): EffectNode {
+  const gate = new Tone.Gate({ context });
+
+  const update = (p: EffectParams) => {
+    gate.threshold = p.threshold;
+    gate.smoothing = ms(p.smoothing);
+  };
+  update(params);
+
+  return {
+    input: gate,
+    output: gate,
+    update,
+    whenReady: ready,
+    dispose: () => gate.dispose(),
+  };
+}
+
+function createReverb(
+  context: Tone.BaseContext,
+  params: EffectParams,
+): EffectNode {
+  const reverb = new Tone.Reverb({
+    context,
+    decay: params.decay,
+    preDelay: ms(params.preDelay),
+    wet: percent(params.mix),
+  });
+
+  return {
+    input: reverb,
+    output: reverb,
+    update: (p) => {
+      // Each of these regenerates the impulse response, so skip no-ops
+      if (reverb.decay !== p.decay) reverb.decay = p.decay;
+      if (reverb.preDelay !== ms(p.preDelay)) reverb.preDelay = ms(p.preDelay);
+      reverb.wet.value = percent(p.mix);
+    },
+    whenReady: () => reverb.ready,
+    dispose: () => reverb.dispose(),
+  };
+}
+
+function createDelay(
+  context: Tone.BaseContext,
+  params: EffectParams,
+): EffectNode {
+  const delay = new Tone.FeedbackDelay({ context, maxDelay: 2 });
+
+  const update = (p: EffectParams) => {
+    delay.delayTime.value = ms(p.time);
+    delay.feedback.value = percent(p.feedback);
+    delay.wet.value = percent(p.mix);
+  };
+  update(params);
+
+  return {
+    input: delay,
+    output: delay,
+    update,
+    whenReady: ready,
+    dispose: () => delay.dispose(),
+  };
+}
+
+function createSaturator(
+  context: Tone.BaseContext,
+  params: EffectParams,
+): EffectNode {
+  const distortion = new Tone.Distortion({ context, oversample: "4x" });
+  const output = new Tone.Volume({ context });
+  distortion.connect(output);
+
+  const update = (p: EffectParams) => {
+    distortion.distortion = percent(p.drive);
+    distortion.wet.value = percent(p.mix);
+    output.volume.value = p.output;
+  };
+  update(params);
+
+  return {
+    input: distortion,
+    output,
+    update,
+    whenReady: ready,
+    dispose: () => {
+      distortion.dispose();
+      output.dispose();
+    },
+  };
+}
+
+const FACTORIES = {
+  eq: createEq,
+  compressor: createCompressor,
+  gate: createGate,
+  reverb: createReverb,
+  delay: createDelay,
+  saturator: createSaturator,
+} satisfies Record<
+  EffectDevice["type"],
+  (context: Tone.BaseContext, params: EffectParams) => EffectNode
+>;
+
+export function createEffectNode(
+  device: EffectDevice,
+  context: Tone.BaseContext,
+): EffectNode {
+  return FACTORIES[device.type](context, device.params);
+}
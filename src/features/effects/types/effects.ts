@@ -0,0 +1,38 @@
+export type EffectType =
+  | "eq"
+  | "compressor"
+  | "gate"
+  | "reverb"
+  | "delay"
+  | "saturator";
+
+export type EffectParams = Record<string, number>;
+
+/**
+ * One insert on a track. Parameters are stored in the units shown in the UI
+ * (Hz, dB, ms, %), keyed by the names in the device definition.
+ */
+export interface EffectDevice {
+  id: string;
+  type: EffectType;
+  bypassed: boolean;
+  params: EffectParams;
+}
+
+export interface EffectParamDefinition {
+  key: string;
+  label: string;
+  min: number;
+  max: number;
+  step: number;
+  defaultValue: number;
+  unit: "Hz" | "dB" | "ms" | "s" | "%" | ":1" | "";
+  // Logarithmic knob travel, for frequencies and times
+  logarithmic?: boolean;
+}
+
+export interface EffectDefinition {
+  type: EffectType;
+  label: string;
+  params: EffectParamDefinition[];
+}
@@ -0,0 +1,234 @@
+"use client";
+
+import { Download } from "lucide-react";
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Progress } from "@/components/ui/progress";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useProjectStore } from "@/features/project/store/projectStore";
+import { downloadBlob } from "@/lib/download";
+import { useRenderJob } from "../hooks/use-render-job";
+import { renderMixdown } from "../lib/mixdown";
+import { renderStems } from "../lib/stems";
+import type { ExportKind, ExportRange, WavBitDepth } from "../types/export";
+
+const SAMPLE_RATES = [44100, 48000, 88200, 96000];
+const BIT_DEPTHS: { value: WavBitDepth; label: string }[] = [
+  { value: 16, label: "16-bit PCM" },
+  { value: 24, label: "24-bit PCM" },
+  { value: 32, label: "32-bit float" },
+];
+
+interface ExportAudioDialogProps {
+  kind: ExportKind | null;
+  onKindChange: (kind: ExportKind | null) => void;
+}
+
+export function ExportAudioDialog({
+  kind,
+  onKindChange,
+}: ExportAudioDialogProps) {
+  const [range, setRange] = useState<ExportRange>("arrangement");
+  const [sampleRate, setSampleRate] = useState(48000);
+  const [bitDepth, setBitDepth] = useState<WavBitDepth>(24);
+  const [applyTrackControls, setApplyTrackControls] = useState(true);
+  const { status, progress, error, start, cancel, reset } = useRenderJob();
+  const isRendering = status === "rendering";
+  const isStems = kind === "stems";
+
+  const handleExport = () =>
+    start(async (signal, onProgress) => {
+      const { name } = useProjectStore.getState();
+      if (isStems) {
+        const zip = await renderStems({
+          sampleRate,
+          bitDepth,
+          applyTrackControls,
+          signal,
+          onProgress,
+        });
+        downloadBlob(zip, `${name} - Stems.zip`);
+      } else {
+        const wav = await renderMixdown({
+          range,
+          sampleRate,
+          bitDepth,
+          signal,
+          onProgress,
+        });
+        downloadBlob(wav, `${name} - Mixdown.wav`);
+      }
+    });
+
+  const handleOpenChange = (open: boolean) => {
+    if (open) return;
+    cancel();
+    reset();
+    onKindChange(null);
+  };
+
+  return (
+    <Dialog open={kind !== null} onOpenChange={handleOpenChange}>
+      <DialogContent className="dark text-foreground sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>
+            {isStems ? "Export Stems" : "Export Mixdown"}
+          </DialogTitle>
+          <DialogDescription>
+            {isStems
+              ? "Renders every track to its own WAV, aligned to the start of the project, and saves them as one ZIP."
+              : "Renders the mix faster than real time to a WAV file."}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid grid-cols-[auto_1fr] items-center gap-x-4 gap-y-3 text-sm">
+          <label htmlFor="export-kind" className="text-muted-foreground">
+            Export
+          </label>
+          <Select
+            value={kind ?? "mixdown"}
+            onValueChange={(value) => {
+              reset();
+              onKindChange(value as ExportKind);
+            }}
+            disabled={isRendering}
+          >
+            <SelectTrigger id="export-kind" className="w-full">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="mixdown">Mixdown</SelectItem>
+              <SelectItem value="stems">Stems (one file per track)</SelectItem>
+            </SelectContent>
+          </Select>
+
+          {isStems ? (
+            <>
+              <label
+                htmlFor="export-controls"
+                className="text-muted-foreground"
+              >
+                Fader & mute
+              </label>
+              <Select
+                value={applyTrackControls ? "apply" : "bypass"}
+                onValueChange={(value) =>
+                  setApplyTrackControls(value === "apply")
+                }
+                disabled={isRendering}
+              >
+                <SelectTrigger id="export-controls" className="w-full">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="apply">Apply track settings</SelectItem>
+                  <SelectItem value="bypass">Bypass (unity gain)</SelectItem>
+                </SelectContent>
+              </Select>
+            </>
+          ) : (
+            <>
+              <label htmlFor="export-range" className="text-muted-foreground">
+                Range
+              </label>
+              <Select
+                value={range}
+                onValueChange={(value) => setRange(value as ExportRange)}
+                disabled={isRendering}
+              >
+                <SelectTrigger id="export-range" className="w-full">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="arrangement">Full arrangement</SelectItem>
+                  <SelectItem value="loop">Loop range</SelectItem>
+                </SelectContent>
+              </Select>
+            </>
+          )}
+
+          <label htmlFor="export-sample-rate" className="text-muted-foreground">
+            Sample rate
+          </label>
+          <Select
+            value={String(sampleRate)}
+            onValueChange={(value) => setSampleRate(Number(value))}
+            disabled={isRendering}
+          >
+            <SelectTrigger id="export-sample-rate" className="w-full">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {SAMPLE_RATES.map((rate) => (
+                <SelectItem key={rate} value={String(rate)}>
+                  {(rate / 1000).toFixed(1)} kHz
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+
+          <label htmlFor="export-bit-depth" className="text-muted-foreground">
+            Format
+          </label>
+          <Select
+            value={String(bitDepth)}
+            onValueChange={(value) => setBitDepth(Number(value) as WavBitDepth)}
+            disabled={isRendering}
+          >
+            <SelectTrigger id="export-bit-depth" className="w-full">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {BIT_DEPTHS.map((depth) => (
+                <SelectItem key={depth.value} value={String(depth.value)}>
+                  {depth.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        {status !== "idle" && (
+          <div className="space-y-1.5" aria-live="polite">
+            <Progress value={progress * 100} aria-label="Export progress" />
+            <p className="text-xs text-muted-foreground">
+              {status === "rendering" &&
+                `Rendering… ${Math.round(progress * 100)}%`}
+              {status === "done" && "Export complete."}
+              {status === "cancelled" && "Export cancelled."}
+              {status === "error" && (
+                <span className="text-destructive">{error}</span>
+              )}
+            </p>
+          </div>
+        )}
+
+        <DialogFooter>
+          {isRendering ? (
+            <Button variant="outline" onClick={cancel}>
+              Cancel
+            </Button>
+          ) : (
+            <Button onClick={handleExport}>
+              <Download /> {isStems ? "Export ZIP" : "Export WAV"}
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,68 @@
+"use client";
+
+import { useCallback, useEffect, useRef, useState } from "react";
+
+export type RenderJobStatus =
+  | "idle"
+  | "rendering"
+  | "done"
+  | "cancelled"
+  | "error";
+
+type RenderJob = (
+  signal: AbortSignal,
+  onProgress: (progress: number) => void,
+) => Promise<void>;
+
+function isAbortError(error: unknown): boolean {
+  return error instanceof DOMException && error.name === "AbortError";
+}
+
+/**
+ * Tracks progress and cancellation of one long-running render at a time.
+ * The job is aborted if the component unmounts.
+ */
+export function useRenderJob() {
+  const [status, setStatus] = useState<RenderJobStatus>("idle");
+  const [progress, setProgress] = useState(0);
+  const [error, setError] = useState<string | null>(null);
+  const controllerRef = useRef<AbortController | null>(null);
+
+  useEffect(() => () => controllerRef.current?.abort(), []);
+
+  const start = useCallback(async (job: RenderJob) => {
+    controllerRef.current?.abort();
+    const controller = new AbortController();
+    controllerRef.current = controller;
+
+    setStatus("rendering");
+    setProgress(0);
+    setError(null);
+    try {
+      await job(controller.signal, setProgress);
+      if (!controller.signal.aborted) setStatus("done");
+    } catch (e) {
+      if (isAbortError(e) || controller.signal.aborted) {
+        setStatus("cancelled");
+      } else {
+        console.error("Render failed", e);
+        setError(e instanceof Error ? e.message : String(e));
+        setStatus("error");
+      }
+    } finally {
+      if (controllerRef.current === controller) controllerRef.current = null;
+    }
+  }, []);
+
+  const cancel = useCallback(() => {
+    controllerRef.current?.abort();
+  }, []);
+
+  const reset = useCallback(() => {
+    setStatus("idle");
+    setProgress(0);
+    setError(null);
+  }, []);
+
+  return { status, progress, error, start, cancel, reset };
+}
@@ -0,0 +1,204 @@
+import * as Tone from "tone";
+import { loadBuffer } from "@/features/core-audio/lib/buffer-pool";
+import { getSilencedTracks } from "@/features/core-audio/lib/mix-utils";
+import {
+  createTrackStrip,
+  routeStripOutput,
+  scheduleSpans,
+  scheduleStripAutomation,
+  setStripSends,
+  type TrackStrip,
+  whenStripReady,
+} from "@/features/core-audio/lib/track-strip";
+import type { ProjectSettings, Track } from "@/features/core-audio/types/audio";
+import { getClipGainSpans, resolveClipFades } from "@/features/fades/lib/fades";
+import type { ClipFades } from "@/features/fades/types/fades";
+import type { TempoMap } from "@/features/tempo-map/lib/tempo-map";
+import { getArrangementEnd } from "@/features/track-manager/lib/arrangement";
+import { getUpstreamTracks } from "@/features/track-manager/lib/routing";
+import { warpBuffer } from "@/features/warp/lib/time-stretch";
+import {
+  getWarpDetune,
+  getWarpRate,
+  needsWarp,
+} from "@/features/warp/lib/warp";
+import type { ExportRange } from "../types/export";
+
+export interface RenderRange {
+  start: number;
+  end: number;
+}
+
+export function getRenderRange(
+  range: ExportRange,
+  tracks: Track[],
+  settings: ProjectSettings,
+): RenderRange {
+  if (range === "loop") {
+    return { start: settings.loopStart, end: settings.loopEnd };
+  }
+  return { start: 0, end: getArrangementEnd(tracks) };
+}
+
+export interface RenderBuffers {
+  // Source audio by media ID
+  media: Map<string, AudioBuffer>;
+  // Stretched or transposed blocks by block ID, already processed to play
+  // from the block's start at normal speed
+  warped: Map<string, AudioBuffer>;
+}
+
+/**
+ * Decodes the source audio of every block, and processes warped blocks at
+ * full quality once for every render that uses them. Media that is already
+ * loaded for playback is taken from the buffer pool.
+ */
+export async function loadRenderBuffers(
+  tracks: Track[],
+  tempoMap: TempoMap,
+): Promise<RenderBuffers> {
+  const urls = new Map<string, string>();
+  for (const track of tracks) {
+    for (const block of track.blocks) {
+      if (block.blobUrl) urls.set(block.mediaId, block.blobUrl);
+    }
+  }
+
+  const media = new Map<string, AudioBuffer>();
+  await Promise.all(
+    Array.from(urls, async ([mediaId, url]) => {
+      media.set(mediaId, await loadBuffer(mediaId, url));
+    }),
+  );
+
+  const warped = new Map<string, AudioBuffer>();
+  for (const track of tracks) {
+    for (const block of track.blocks) {
+      const buffer = media.get(block.mediaId);
+      const rate = getWarpRate(block.warp, tempoMap, block.startTime);
+      if (!buffer || !needsWarp(block.warp, rate)) continue;
+      warped.set(
+        block.id,
+        warpBuffer(
+          buffer,
+          block.offset,
+          block.duration,
+          rate,
+          getWarpDetune(block.warp),
+        ),
+      );
+    }
+  }
+  return { media, warped };
+}
+
+function scheduleBlocks(
+  context: Tone.OfflineContext,
+  track: Track,
+  strip: TrackStrip,
+  buffers: RenderBuffers,
+  range: RenderRange,
+) {
+  const fades = resolveClipFades(track.blocks);
+  for (const block of track.blocks) {
+    const warped = buffers.warped.get(block.id);
+    const buffer = warped ?? buffers.media.get(block.mediaId);
+    if (!buffer) continue;
+
+    const blockEnd = block.startTime + block.duration;
+    if (blockEnd <= range.start || block.startTime >= range.end) continue;
+
+    // Clip the block to the render range
+    const skipped = Math.max(0, range.start - block.startTime);
+    const when = Math.max(0, block.startTime - range.start);
+    const duration = Math.min(blockEnd, range.end) - block.startTime - skipped;
+
+    // Clip gain and fades, laid out like the live engine does
+    const gain = new Tone.Gain({ context, gain: 0 }).connect(strip.input);
+    scheduleSpans(
+      gain.gain,
+      getClipGainSpans(
+        block,
+        fades.get(block.id) as ClipFades,
+        range.start,
+        range.end,
+      ),
+      (value) => value,
+      (time) => time - range.start,
+    );
+    const player = new Tone.Player({ context, url: buffer }).connect(gain);
+    // Warped audio already starts at the block's offset
+    player.start(when, (warped ? 0 : block.offset) + skipped, duration);
+  }
+}
+
+export interface MixGraphOptions {
+  /**
+   * Render only what reaches this track's outlet (its own clips plus every
+   * track routed into it), with solo ignored. Without it the whole mix is
+   * rendered with mute and solo as heard live.
+   */
+  root?: string;
+  // With this off, the root track's fader and mute are bypassed
+  applyControls?: boolean;
+}
+
+/**
+ * Builds the track strips in the offline context, wires outputs and sends
+ * as they are routed live and schedules the clips, with their gain and
+ * fades, and automation relative
+ * to the range start. Tracks routed to the master (or the root) feed `output`. Resolves
+ * once every insert is ready to render.
+ */
+export async function buildMixGraph(
+  context: Tone.OfflineContext,
+  tracks: Track[],
+  output: Tone.InputNode,
+  buffers: RenderBuffers,
+  range: RenderRange,
+  { root, applyControls = true }: MixGraphOptions = {},
+) {
+  const included = root
+    ? tracks.filter(
+        (t) => t.id === root || getUpstreamTracks(tracks, root).has(t.id),
+      )
+    : tracks;
+  const silenced = root ? null : getSilencedTracks(tracks);
+  const bypassed = (track: Track) => track.id === root && !applyControls;
+
+  const strips = new Map<string, TrackStrip>();
+  for (const track of included) {
+    const controls = bypassed(track)
+      ? {
+          ...track,
+          volume: 1,
+          isMuted: false,
+          // Volume automation rides the fader, so it is bypassed with it
+          automation: { ...track.automation, volume: [] },
+        }
+      : { ...track, isMuted: silenced?.has(track.id) ?? track.isMuted };
+    const strip = createTrackStrip(controls, context);
+    scheduleStripAutomation(strip, controls, range.start, 0, range.end);
+    strips.set(track.id, strip);
+  }
+
+  for (const track of included) {
+    const strip = strips.get(track.id) as TrackStrip;
+    let destination: Tone.InputNode | null = null;
+    if (track.id === root) destination = output;
+    else if (track.output)
+      destination = strips.get(track.output)?.input ?? null;
+    else if (!root) destination = output;
+    routeStripOutput(strip, destination);
+
+    const sends = track.sends.flatMap((send) => {
+      const target = strips.get(send.returnId);
+      return target ? [{ send, target }] : [];
+    });
+    setStripSends(strip, sends, silenced?.has(track.id) ?? track.isMuted);
+
+    scheduleBlocks(context, track, strip, buffers, range);
+  }
+
+  await Promise.all(Array.from(strips.values(), whenStripReady));
+}
@@ -0,0 +1,102 @@
+import { measureIntegratedLoudness } from "@/features/core-audio/lib/loudness";
+import {
+  createMasterChain,
+  whenMasterChainReady,
+} from "@/features/core-audio/lib/master-bus";
+import { useAudioStore } from "@/features/core-audio/store/audioStore";
+import type { MasterBus } from "@/features/core-audio/types/audio";
+import { createTempoMap } from "@/features/tempo-map/lib/tempo-map";
+import { useTrackStore } from "@/features/track-manager/store/trackStore";
+import type { ExportRange, RenderOptions } from "../types/export";
+import {
+  buildMixGraph,
+  getRenderRange,
+  loadRenderBuffers,
+} from "./arrangement-render";
+import { renderOffline } from "./offline-render";
+import { encodeWav } from "./wav-encoder";
+
+// Loudness is measured at a fixed rate; the result does not depend on it
+const MEASURE_SAMPLE_RATE = 44100;
+
+async function renderMix(
+  range: ExportRange,
+  sampleRate: number,
+  masterBus: MasterBus,
+  signal?: AbortSignal,
+  onProgress?: (progress: number) => void,
+): Promise<AudioBuffer> {
+  const { tracks } = useTrackStore.getState();
+  const settings = useAudioStore.getState();
+
+  const renderRange = getRenderRange(range, tracks, settings);
+  if (renderRange.end <= renderRange.start) {
+    throw new Error("There is nothing to export in the selected range");
+  }
+
+  const buffers = await loadRenderBuffers(tracks, createTempoMap(settings));
+
+  return renderOffline({
+    duration: renderRange.end - renderRange.start,
+    sampleRate,
+    signal,
+    onProgress,
+    build: async (context) => {
+      const master = createMasterChain(
+        masterBus,
+        settings.masterVolume,
+        context,
+      );
+      master.output.connect(context.destination);
+
+      await buildMixGraph(context, tracks, master.input, buffers, renderRange);
+      await whenMasterChainReady(master);
+    },
+  });
+}
+
+/**
+ * Renders the current arrangement (or loop range) to a stereo WAV, applying
+ * track volume, mute and solo, routing and the master bus as heard live.
+ */
+export async function renderMixdown({
+  range,
+  sampleRate,
+  bitDepth,
+  signal,
+  onProgress,
+}: RenderOptions): Promise<Blob> {
+  const { masterBus } = useAudioStore.getState();
+  const rendered = await renderMix(
+    range,
+    sampleRate,
+    masterBus,
+    signal,
+    onProgress,
+  );
+  return encodeWav(rendered, bitDepth);
+}
+
+/**
+ * Integrated loudness of the full arrangement in LUFS as it enters the
+ * output stage, i.e. after the master inserts and fader but before the
+ * output gain and limiter.
+ */
+export async function measureMixLoudness(
+  signal?: AbortSignal,
+  onProgress?: (progress: number) => void,
+): Promise<number> {
+  const { masterBus } = useAudioStore.getState();
+  const rendered = await renderMix(
+    "arrangement",
+    MEASURE_SAMPLE_RATE,
+    {
+      ...masterBus,
+      outputGain: 0,
+      limiter: { ...masterBus.limiter, enabled: false },
+    },
+    signal,
+    onProgress,
+  );
+  return measureIntegratedLoudness(rendered);
+}
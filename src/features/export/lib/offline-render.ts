@@ -0,0 +1,87 @@
+import * as Tone from "tone";
+
+const PROGRESS_STEPS = 50;
+// OfflineAudioContext can only suspend on render-quantum boundaries
+const RENDER_QUANTUM = 128;
+
+export interface OfflineRenderOptions {
+  duration: number;
+  sampleRate: number;
+  numberOfChannels?: number;
+  signal?: AbortSignal;
+  onProgress?: (progress: number) => void;
+  /**
+   * Builds the graph to render. Nodes must be created with `{ context }` and
+   * scheduled in context time starting at 0.
+   */
+  build: (context: Tone.OfflineContext) => void | Promise<void>;
+}
+
+export function createAbortError(): DOMException {
+  return new DOMException("Render cancelled", "AbortError");
+}
+
+/**
+ * Renders a Tone graph faster than real time. Unlike `Tone.Offline` this
+ * reports progress and can be cancelled: the underlying OfflineAudioContext
+ * is suspended at regular intervals, and an aborted render is simply never
+ * resumed.
+ */
+export async function renderOffline({
+  duration,
+  sampleRate,
+  numberOfChannels = 2,
+  signal,
+  onProgress,
+  build,
+}: OfflineRenderOptions): Promise<AudioBuffer> {
+  if (signal?.aborted) throw createAbortError();
+
+  const length = Math.max(RENDER_QUANTUM, Math.ceil(duration * sampleRate));
+  const rawContext = new OfflineAudioContext(
+    numberOfChannels,
+    length,
+    sampleRate,
+  );
+  const context = new Tone.OfflineContext(rawContext);
+
+  try {
+    await build(context);
+    if (signal?.aborted) throw createAbortError();
+
+    return await new Promise<AudioBuffer>((resolve, reject) => {
+      const handleAbort = () => reject(createAbortError());
+      signal?.addEventListener("abort", handleAbort, { once: true });
+
+      const quanta = Math.floor(length / RENDER_QUANTUM);
+      const stepQuanta = Math.max(1, Math.floor(quanta / PROGRESS_STEPS));
+      for (let q = stepQuanta; q < quanta; q += stepQuanta) {
+        const frame = q * RENDER_QUANTUM;
+        rawContext.suspend(frame / sampleRate).then(() => {
+          if (signal?.aborted) return;
+          onProgress?.(frame / length);
+          rawContext.resume();
+        });
+      }
+
+      context.render().then(
+        (buffer) => {
+          signal?.removeEventListener("abort", handleAbort);
+          const rendered = buffer.get();
+          if (!rendered) {
+            reject(new Error("Offline render produced no audio"));
+            return;
+          }
+          onProgress?.(1);
+          resolve(rendered);
+        },
+        (error) => {
+          signal?.removeEventListener("abort", handleAbort);
+          reject(error);
+        },
+      );
+    });
+  } finally {
+    context.dispose();
+  }
+}
@@ -0,0 +1,71 @@
+import { useAudioStore } from "@/features/core-audio/store/audioStore";
+import type { Track } from "@/features/core-audio/types/audio";
+import { createTempoMap } from "@/features/tempo-map/lib/tempo-map";
+import { getArrangementEnd } from "@/features/track-manager/lib/arrangement";
+import { useTrackStore } from "@/features/track-manager/store/trackStore";
+import type { StemRenderOptions } from "../types/export";
+import { buildMixGraph, loadRenderBuffers } from "./arrangement-render";
+import { renderOffline } from "./offline-render";
+import { encodeWav } from "./wav-encoder";
+import { createZip, type ZipEntry } from "./zip";
+
+function stemFileNames(tracks: Track[]): string[] {
+  const used = new Map<string, number>();
+  return tracks.map((track) => {
+    const base =
+      track.name.replace(/[\\/:*?"<>|]+/g, "_").trim() || "Untitled Track";
+    const count = (used.get(base.toLowerCase()) ?? 0) + 1;
+    used.set(base.toLowerCase(), count);
+    return count === 1 ? `${base}.wav` : `${base} (${count}).wav`;
+  });
+}
+
+/**
+ * Renders every track to its own WAV, all starting at time zero and running
+ * to the end of the arrangement, and bundles them into a single ZIP. Group
+ * and return stems include the tracks routed into them. Solo is ignored; the
+ * stem track's own fader and mute apply only with `applyTrackControls`.
+ */
+export async function renderStems({
+  sampleRate,
+  bitDepth,
+  applyTrackControls,
+  signal,
+  onProgress,
+}: StemRenderOptions): Promise<Blob> {
+  const { tracks } = useTrackStore.getState();
+  const range = { start: 0, end: getArrangementEnd(tracks) };
+  if (tracks.length === 0 || range.end <= 0) {
+    throw new Error("There is nothing to export");
+  }
+
+  const buffers = await loadRenderBuffers(
+    tracks,
+    createTempoMap(useAudioStore.getState()),
+  );
+  const names = stemFileNames(tracks);
+  const entries: ZipEntry[] = [];
+
+  for (const [index, track] of tracks.entries()) {
+    const rendered = await renderOffline({
+      duration: range.end,
+      sampleRate,
+      signal,
+      onProgress: (progress) =>
+        onProgress?.((index + progress) / tracks.length),
+      build: async (context) => {
+        await buildMixGraph(
+          context,
+          tracks,
+          context.destination,
+          buffers,
+          range,
+          { root: track.id, applyControls: applyTrackControls },
+        );
+      },
+    });
+    entries.push({ name: names[index], data: encodeWav(rendered, bitDepth) });
+  }
+
+  return createZip(entries);
+}
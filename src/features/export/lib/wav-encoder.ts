@@ -0,0 +1,61 @@
+import type { WavBitDepth } from "../types/export";
+
+function writeString(view: DataView, offset: number, value: string) {
+  for (let i = 0; i < value.length; i++) {
+    view.setUint8(offset + i, value.charCodeAt(i));
+  }
+}
+
+/**
+ * Encodes an AudioBuffer as an interleaved RIFF/WAVE file. 16 and 24 bit are
+ * written as PCM integers with clipping; 32 bit is written as IEEE float.
+ */
+export function encodeWav(buffer: AudioBuffer, bitDepth: WavBitDepth): Blob {
+  const { numberOfChannels, sampleRate, length } = buffer;
+  const bytesPerSample = bitDepth / 8;
+  const blockAlign = numberOfChannels * bytesPerSample;
+  const dataSize = length * blockAlign;
+  const isFloat = bitDepth === 32;
+
+  const view = new DataView(new ArrayBuffer(44 + dataSize));
+  writeString(view, 0, "RIFF");
+  view.setUint32(4, 36 + dataSize, true);
+  writeString(view, 8, "WAVE");
+  writeString(view, 12, "fmt ");
+  view.setUint32(16, 16, true);
+  view.setUint16(20, isFloat ? 3 : 1, true);
+  view.setUint16(22, numberOfChannels, true);
+  view.setUint32(24, sampleRate, true);
+  view.setUint32(28, sampleRate * blockAlign, true);
+  view.setUint16(32, blockAlign, true);
+  view.setUint16(34, bitDepth, true);
+  writeString(view, 36, "data");
+  view.setUint32(40, dataSize, true);
+
+  const channels = Array.from({ length: numberOfChannels }, (_, c) =>
+    buffer.getChannelData(c),
+  );
+
+  let offset = 44;
+  for (let i = 0; i < length; i++) {
+    for (let c = 0; c < numberOfChannels; c++) {
+      const sample = channels[c][i];
+      if (isFloat) {
+        view.setFloat32(offset, sample, true);
+      } else {
+        const clipped = Math.max(-1, Math.min(1, sample));
+        if (bitDepth === 16) {
+          view.setInt16(offset, Math.round(clipped * 0x7fff), true);
+        } else {
+          const value = Math.round(clipped * 0x7fffff);
+          view.setUint8(offset, value & 0xff);
+          view.setUint8(offset + 1, (value >> 8) & 0xff);
+          view.setUint8(offset + 2, (value >> 16) & 0xff);
+        }
+      }
+      offset += bytesPerSample;
+    }
+  }
+
+  return new Blob([view], { type: "audio/wav" });
+}
@@ -0,0 +1,17 @@
+export type WavBitDepth = 16 | 24 | 32;
+
+export type ExportRange = "arrangement" | "loop";
+
+export type ExportKind = "mixdown" | "stems";
+
+export interface RenderOptions {
+  range: ExportRange;
+  sampleRate: number;
+  bitDepth: WavBitDepth;
+  signal?: AbortSignal;
+  onProgress?: (progress: number) => void;
+}
+
+export type StemRenderOptions = Omit<RenderOptions, "range"> & {
+  applyTrackControls: boolean;
+};
@@ -0,0 +1,272 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuRadioGroup,
+  DropdownMenuRadioItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { Knob } from "@/components/ui/knob";
+import type { AudioBlock } from "@/features/core-audio/types/audio";
+import {
+  beginHistoryGesture,
+  beginPointerGesture,
+  endHistoryGesture,
+} from "@/features/history/lib/history";
+import { useTimelineStore } from "@/features/timeline-ruler/store/timelineStore";
+import { useTrackStore } from "@/features/track-manager/store/trackStore";
+import { cn } from "@/lib/utils";
+import {
+  FADE_CURVE_LABELS,
+  FADE_CURVES,
+  fadeShape,
+  fitFades,
+  isFadeCurve,
+  MAX_CLIP_GAIN,
+  MIN_CLIP_GAIN,
+  resolveClipFades,
+} from "../lib/fades";
+import type { ClipFade, FadeCurve } from "../types/fades";
+
+type FadeEdge = "fadeIn" | "fadeOut";
+
+// Horizontal spacing of the samples the drawn curves are built from
+const SAMPLE_PIXELS = 3;
+// The drawing's own height; it is stretched to the clip
+const HEIGHT = 100;
+
+interface ClipFadeOverlayProps {
+  block: AudioBlock;
+}
+
+function formatGain(db: number): string {
+  return `${db > 0 ? "+" : ""}${db.toFixed(1)} dB`;
+}
+
+// The area a fade takes out of the clip, as a path from its silent end
+function fadePath(
+  curve: FadeCurve,
+  from: number,
+  width: number,
+  edge: FadeEdge,
+): string {
+  const steps = Math.max(2, Math.ceil(width / SAMPLE_PIXELS));
+  const points: string[] = [];
+  for (let n = 0; n <= steps; n++) {
+    const t = n / steps;
+    const x = edge === "fadeIn" ? from + t * width : from + width - t * width;
+    points.push(
+      `${x.toFixed(1)},${((1 - fadeShape(curve, t)) * HEIGHT).toFixed(1)}`,
+    );
+  }
+  const corner = edge === "fadeIn" ? from + width : from;
+  return `M${points.join(" L")} L${corner},0 Z`;
+}
+
+/**
+ * Fades, crossfades and clip gain drawn over a clip's waveform. The handles
+ * at the top corners drag the fades, double-click to remove them and
+ * right-click for their curve; the knob sets the clip gain.
+ */
+export function ClipFadeOverlay({ block }: ClipFadeOverlayProps) {
+  const pixelsPerSecond = useTimelineStore((s) => s.pixelsPerSecond);
+  const updateBlock = useTrackStore((s) => s.updateBlock);
+  const blocks = useTrackStore(
+    (s) => s.tracks.find((t) => t.id === block.trackId)?.blocks,
+  );
+  const [menuEdge, setMenuEdge] = useState<FadeEdge | null>(null);
+
+  // Overlaps with neighbours show as the crossfades they play
+  const fades = useMemo(
+    () =>
+      resolveClipFades(blocks ?? [block]).get(block.id) ?? {
+        fadeIn: block.fadeIn,
+        fadeOut: block.fadeOut,
+      },
+    [blocks, block],
+  );
+  const width = block.duration * pixelsPerSecond;
+  const played = fitFades(block.duration, fades);
+  const own = fitFades(block.duration, block);
+
+  const updateFade = (edge: FadeEdge, updates: Partial<ClipFade>) => {
+    const fade = { ...block[edge], ...updates };
+    updateBlock(
+      block.trackId,
+      block.id,
+      edge === "fadeIn" ? { fadeIn: fade } : { fadeOut: fade },
+    );
+  };
+
+  const dragFade = (edge: FadeEdge, startX: number) => {
+    beginHistoryGesture();
+    const startDuration = own[edge];
+    const other = edge === "fadeIn" ? "fadeOut" : "fadeIn";
+    const handleMove = (e: PointerEvent) => {
+      const delta = (e.clientX - startX) / pixelsPerSecond;
+      const duration = startDuration + (edge === "fadeIn" ? delta : -delta);
+      updateFade(edge, {
+        duration: Math.min(block.duration - own[other], Math.max(0, duration)),
+      });
+    };
+    const handleUp = () => {
+      window.removeEventListener("pointermove", handleMove);
+      window.removeEventListener("pointerup", handleUp);
+      endHistoryGesture();
+    };
+    window.addEventListener("pointermove", handleMove);
+    window.addEventListener("pointerup", handleUp);
+  };
+
+  const handleX = (edge: FadeEdge) =>
+    edge === "fadeIn"
+      ? own.fadeIn * pixelsPerSecond
+      : width - own.fadeOut * pixelsPerSecond;
+  const menuFade = menuEdge ? block[menuEdge] : null;
+
+  return (
+    <>
+      <svg
+        aria-hidden="true"
+        viewBox={`0 0 ${Math.max(1, width)} ${HEIGHT}`}
+        preserveAspectRatio="none"
+        className="absolute inset-0 h-full w-full pointer-events-none"
+      >
+        {played.fadeIn > 0 && (
+          <path
+            d={fadePath(
+              fades.fadeIn.curve,
+              0,
+              played.fadeIn * pixelsPerSecond,
+              "fadeIn",
+            )}
+            className="fill-black/40 stroke-white/60"
+            strokeWidth={1}
+            vectorEffect="non-scaling-stroke"
+          />
+        )}
+        {played.fadeOut > 0 && (
+          <path
+            d={fadePath(
+              fades.fadeOut.curve,
+              width - played.fadeOut * pixelsPerSecond,
+              played.fadeOut * pixelsPerSecond,
+              "fadeOut",
+            )}
+            className="fill-black/40 stroke-white/60"
+            strokeWidth={1}
+            vectorEffect="non-scaling-stroke"
+          />
+        )}
+      </svg>
+
+      {(["fadeIn", "fadeOut"] as const).map((edge) => (
+        <div
+          key={edge}
+          role="slider"
+          tabIndex={-1}
+          aria-label={edge === "fadeIn" ? "Fade In" : "Fade Out"}
+          aria-valuemin={0}
+          aria-valuemax={block.duration}
+          aria-valuenow={own[edge]}
+          title={`${edge === "fadeIn" ? "Fade in" : "Fade out"} ${own[edge].toFixed(2)}s (${FADE_CURVE_LABELS[block[edge].curve]})`}
+          className={cn(
+            "absolute top-0 z-30 size-2.5 -translate-x-1/2 cursor-ew-resize rounded-sm border border-white/70 bg-white/30 transition-opacity hover:bg-white/70 group-hover:opacity-100",
+            own[edge] === 0 && menuEdge !== edge && "opacity-0",
+          )}
+          style={{
+            // Kept clear of the trim handles' corners
+            left: Math.min(width - 6, Math.max(6, handleX(edge))),
+          }}
+          onPointerDown={(e) => {
+            e.stopPropagation();
+            if (e.button === 0) dragFade(edge, e.clientX);
+          }}
+          onDoubleClick={() => updateFade(edge, { duration: 0 })}
+          onContextMenu={(e) => {
+            e.preventDefault();
+            setMenuEdge(edge);
+          }}
+        />
+      ))}
+
+      <div
+        className={cn(
+          "absolute bottom-1 right-2 z-30 flex items-center gap-1 transition-opacity group-hover:opacity-100",
+          block.gain === 0 && "opacity-0",
+        )}
+      >
+        <span className="font-mono text-[9px] text-white/70 drop-shadow-md">
+          {formatGain(block.gain)}
+        </span>
+        <Knob
+          aria-label="Clip Gain"
+          value={block.gain}
+          min={MIN_CLIP_GAIN}
+          max={MAX_CLIP_GAIN}
+          step={0.1}
+          origin={0}
+          defaultValue={0}
+          formatValue={formatGain}
+          onValueChange={(gain) =>
+            updateBlock(block.trackId, block.id, { gain })
+          }
+          onPointerDown={(e) => {
+            e.stopPropagation();
+            beginPointerGesture();
+          }}
+          className="size-4"
+        />
+      </div>
+
+      <DropdownMenu
+        open={menuFade !== null}
+        onOpenChange={(open) => {
+          if (!open) setMenuEdge(null);
+        }}
+      >
+        <DropdownMenuTrigger asChild>
+          <span
+            aria-hidden
+            className="absolute top-0 size-0 pointer-events-none"
+            style={{ left: menuEdge ? handleX(menuEdge) : 0 }}
+          />
+        </DropdownMenuTrigger>
+        <DropdownMenuContent
+          align="start"
+          className="w-36"
+          // Portalled, but React still bubbles to the clip's drag and keys
+          onPointerDown={(e) => e.stopPropagation()}
+          onKeyDown={(e) => e.stopPropagation()}
+        >
+          {menuEdge && menuFade && (
+            <>
+              <DropdownMenuRadioGroup
+                value={menuFade.curve}
+                onValueChange={(curve) => {
+                  if (isFadeCurve(curve)) updateFade(menuEdge, { curve });
+                }}
+              >
+                {FADE_CURVES.map((curve) => (
+                  <DropdownMenuRadioItem key={curve} value={curve}>
+                    {FADE_CURVE_LABELS[curve]}
+                  </DropdownMenuRadioItem>
+                ))}
+              </DropdownMenuRadioGroup>
+              <DropdownMenuSeparator />
+              <DropdownMenuItem
+                onSelect={() => updateFade(menuEdge, { duration: 0 })}
+              >
+                Remove Fade
+              </DropdownMenuItem>
+            </>
+          )}
+        </DropdownMenuContent>
+      </DropdownMenu>
+    </>
+  );
+}
@@ -0,0 +1,189 @@
+import type { AutomationSpan } from "@/features/automation/lib/automation";
+import type { AudioBlock } from "@/features/core-audio/types/audio";
+import type { ClipFade, ClipFades, FadeCurve } from "../types/fades";
+
+export const FADE_CURVES: FadeCurve[] = [
+  "linear",
+  "equal-power",
+  "exponential",
+  "s-curve",
+];
+
+export const FADE_CURVE_LABELS: Record<FadeCurve, string> = {
+  linear: "Linear",
+  "equal-power": "Equal Power",
+  exponential: "Exponential",
+  "s-curve": "S-Curve",
+};
+
+// Clip gain in dB, applied before the track's inserts and fader
+export const MIN_CLIP_GAIN = -24;
+export const MAX_CLIP_GAIN = 12;
+
+// Given to both sides of a split so the cut does not click
+export const SPLIT_FADE_SECONDS = 0.005;
+
+// Overlapping clips keep their combined level through the crossfade
+const CROSSFADE_CURVE: FadeCurve = "equal-power";
+
+// Fade resolution; short fades still get enough points to keep their shape
+const SAMPLES_PER_SECOND = 500;
+const MIN_SAMPLES = 8;
+const MAX_SAMPLES = 512;
+
+export function createClipFade(duration = 0): ClipFade {
+  return { duration, curve: "linear" };
+}
+
+export function isFadeCurve(value: unknown): value is FadeCurve {
+  return FADE_CURVES.includes(value as FadeCurve);
+}
+
+/**
+ * Gain 0-1 at progress `t` (0-1) through a fade in. Fades out play the same
+ * shape backwards.
+ */
+export function fadeShape(curve: FadeCurve, t: number): number {
+  switch (curve) {
+    case "equal-power":
+      return Math.sin((Math.PI * t) / 2);
+    case "exponential":
+      return t * t;
+    case "s-curve":
+      return (1 - Math.cos(Math.PI * t)) / 2;
+    default:
+      return t;
+  }
+}
+
+export function clipGainToLinear(db: number): number {
+  return 10 ** (db / 20);
+}
+
+/**
+ * The fades each block plays with. Where a block starts inside an earlier
+ * one and runs past its end, the two crossfade over the overlap: fades
+ * shorter than it are lengthened and take an equal-power curve. A block
+ * lying wholly inside another plays on top of it.
+ */
+export function resolveClipFades(blocks: AudioBlock[]): Map<string, ClipFades> {
+  const sorted = [...blocks].sort((a, b) => a.startTime - b.startTime);
+  const resolved = new Map<string, ClipFades>(
+    sorted.map((block) => [
+      block.id,
+      { fadeIn: block.fadeIn, fadeOut: block.fadeOut },
+    ]),
+  );
+
+  sorted.forEach((earlier, i) => {
+    const earlierEnd = earlier.startTime + earlier.duration;
+    for (let j = i + 1; j < sorted.length; j++) {
+      const later = sorted[j];
+      if (later.startTime >= earlierEnd) break;
+      if (later.startTime + later.duration <= earlierEnd) continue;
+
+      const overlap = earlierEnd - later.startTime;
+      const out = resolved.get(earlier.id) as ClipFades;
+      if (out.fadeOut.duration < overlap) {
+        resolved.set(earlier.id, {
+          ...out,
+          fadeOut: { duration: overlap, curve: CROSSFADE_CURVE },
+        });
+      }
+      const into = resolved.get(later.id) as ClipFades;
+      if (into.fadeIn.duration < overlap) {
+        resolved.set(later.id, {
+          ...into,
+          fadeIn: { duration: overlap, curve: CROSSFADE_CURVE },
+        });
+      }
+    }
+  });
+  return resolved;
+}
+
+export function fadesEqual(a?: ClipFades, b?: ClipFades): boolean {
+  if (!a || !b) return a === b;
+  return (
+    a.fadeIn.duration === b.fadeIn.duration &&
+    a.fadeIn.curve === b.fadeIn.curve &&
+    a.fadeOut.duration === b.fadeOut.duration &&
+    a.fadeOut.curve === b.fadeOut.curve
+  );
+}
+
+/**
+ * The lengths in seconds the fades play for on a clip of `duration`: fades
+ * that together run longer than the clip are shortened in proportion.
+ */
+export function fitFades(
+  duration: number,
+  { fadeIn, fadeOut }: ClipFades,
+): { fadeIn: number; fadeOut: number } {
+  const total = fadeIn.duration + fadeOut.duration;
+  const scale = total > duration && total > 0 ? duration / total : 1;
+  return {
+    fadeIn: fadeIn.duration * scale,
+    fadeOut: fadeOut.duration * scale,
+  };
+}
+
+const clamp01 = (value: number) => Math.min(1, Math.max(0, value));
+
+/**
+ * The clip's linear gain at timeline `time`: its clip gain shaped by its
+ * fades. Silent before the clip starts and, when it fades out, after it
+ * ends.
+ */
+export function clipGainAt(
+  block: AudioBlock,
+  fades: ClipFades,
+  time: number,
+): number {
+  const fitted = fitFades(block.duration, fades);
+  const into = time - block.startTime;
+  const left = block.startTime + block.duration - time;
+  let gain = clipGainToLinear(block.gain);
+  if (fitted.fadeIn > 0 && into < fitted.fadeIn) {
+    gain *= fadeShape(fades.fadeIn.curve, clamp01(into / fitted.fadeIn));
+  }
+  if (fitted.fadeOut > 0 && left < fitted.fadeOut) {
+    gain *= fadeShape(fades.fadeOut.curve, clamp01(left / fitted.fadeOut));
+  }
+  return gain;
+}
+
+/**
+ * The clip's gain envelope from `from` (inclusive) to `until`, as spans to
+ * schedule like an automation lane. Times stay in timeline seconds.
+ */
+export function getClipGainSpans(
+  block: AudioBlock,
+  fades: ClipFades,
+  from: number,
+  until = Number.POSITIVE_INFINITY,
+): AutomationSpan[] {
+  const fitted = fitFades(block.duration, fades);
+  const end = block.startTime + block.duration;
+  const spans: AutomationSpan[] = [
+    { kind: "set", start: from, value: clipGainAt(block, fades, from) },
+  ];
+  const ramps = [
+    [block.startTime, block.startTime + fitted.fadeIn],
+    [end - fitted.fadeOut, end],
+  ];
+  for (const [rampStart, rampEnd] of ramps) {
+    const start = Math.max(rampStart, from);
+    const stop = Math.min(rampEnd, until);
+    if (stop <= start) continue;
+    const count = Math.min(
+      MAX_SAMPLES,
+      Math.max(MIN_SAMPLES, Math.ceil((stop - start) * SAMPLES_PER_SECOND) + 1),
+    );
+    const values = Array.from({ length: count }, (_, n) =>
+      clipGainAt(block, fades, start + ((stop - start) * n) / (count - 1)),
+    );
+    spans.push({ kind: "curve", start, end: stop, values });
+  }
+  return spans;
+}
@@ -0,0 +1,13 @@
+// How the gain moves through a fade
+export type FadeCurve = "linear" | "equal-power" | "exponential" | "s-curve";
+
+export interface ClipFade {
+  duration: number; // Seconds on the timeline
+  curve: FadeCurve;
+}
+
+// The fades a clip plays with once overlaps have been crossfaded
+export interface ClipFades {
+  fadeIn: ClipFade;
+  fadeOut: ClipFade;
+}
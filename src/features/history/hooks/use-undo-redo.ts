@@ -0,0 +1,36 @@
+"use client";
+
+import { useEffect } from "react";
+import { isTextInput } from "@/lib/utils";
+import { redo, startHistoryRecording, undo } from "../lib/history";
+import { useHistoryStore } from "../store/historyStore";
+
+/**
+ * Records edit history for the session and binds Ctrl/Cmd+Z (undo) and
+ * Shift+Ctrl/Cmd+Z or Ctrl+Y (redo). Mount once.
+ */
+export function useUndoRedo() {
+  const canUndo = useHistoryStore((state) => state.past.length > 0);
+  const canRedo = useHistoryStore((state) => state.future.length > 0);
+
+  useEffect(() => startHistoryRecording(), []);
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.metaKey || e.ctrlKey) || isTextInput(e.target)) return;
+      const key = e.key.toLowerCase();
+      if (key === "z") {
+        e.preventDefault();
+        if (e.shiftKey) redo();
+        else undo();
+      } else if (key === "y" && !e.metaKey) {
+        e.preventDefault();
+        redo();
+      }
+    };
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, []);
+
+  return { undo, redo, canUndo, canRedo };
+}
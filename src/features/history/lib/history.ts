@@ -0,0 +1,190 @@
+import { useAudioStore } from "@/features/core-audio/store/audioStore";
+import type {
+  AudioState,
+  ProjectSettings,
+} from "@/features/core-audio/types/audio";
+import { useTrackStore } from "@/features/track-manager/store/trackStore";
+import { type EditSnapshot, useHistoryStore } from "../store/historyStore";
+
+/**
+ * Undo history is recorded by observing the stores rather than wrapping each
+ * action: every change to the track list or to the project settings becomes
+ * one step. Changes made in the same tick are batched, and changes made while
+ * a gesture is open (a trim drag, a slider drag) collapse into one step.
+ */
+
+let pendingBaseline: EditSnapshot | null = null;
+let gestureBaseline: EditSnapshot | null = null;
+let gestureDepth = 0;
+let isRestoring = false;
+
+function pickSettings(state: AudioState): ProjectSettings {
+  return {
+    bpm: state.bpm,
+    timeSignature: state.timeSignature,
+    tempoEvents: state.tempoEvents,
+    meterEvents: state.meterEvents,
+    masterVolume: state.masterVolume,
+    masterBus: state.masterBus,
+    isLooping: state.isLooping,
+    loopStart: state.loopStart,
+    loopEnd: state.loopEnd,
+    warpQuality: state.warpQuality,
+  };
+}
+
+function settingsEqual(a: ProjectSettings, b: ProjectSettings): boolean {
+  return (
+    a.bpm === b.bpm &&
+    a.timeSignature === b.timeSignature &&
+    a.tempoEvents === b.tempoEvents &&
+    a.meterEvents === b.meterEvents &&
+    a.masterVolume === b.masterVolume &&
+    a.masterBus === b.masterBus &&
+    a.isLooping === b.isLooping &&
+    a.loopStart === b.loopStart &&
+    a.loopEnd === b.loopEnd &&
+    a.warpQuality === b.warpQuality
+  );
+}
+
+function captureSnapshot(): EditSnapshot {
+  return {
+    tracks: useTrackStore.getState().tracks,
+    settings: pickSettings(useAudioStore.getState()),
+  };
+}
+
+function snapshotsEqual(a: EditSnapshot, b: EditSnapshot): boolean {
+  return a.tracks === b.tracks && settingsEqual(a.settings, b.settings);
+}
+
+function commitPending() {
+  const baseline = pendingBaseline;
+  pendingBaseline = null;
+  if (baseline && !snapshotsEqual(baseline, captureSnapshot())) {
+    useHistoryStore.getState().push(baseline);
+  }
+}
+
+function handleChange(previous: EditSnapshot) {
+  if (isRestoring || gestureDepth > 0 || pendingBaseline) return;
+  pendingBaseline = previous;
+  queueMicrotask(commitPending);
+}
+
+/**
+ * Starts observing the stores. Returns a function that stops recording.
+ */
+export function startHistoryRecording(): () => void {
+  // Baselines pair one store's previous state with the other store as last
+  // seen here, not as it is now: another listener may already have changed
+  // it in response (a tempo edit retiming clips), and that belongs to the
+  // same step
+  let lastTracks = useTrackStore.getState().tracks;
+  let lastSettings = pickSettings(useAudioStore.getState());
+  const unsubscribeTracks = useTrackStore.subscribe((state, prev) => {
+    if (state.tracks === prev.tracks) return;
+    handleChange({ tracks: prev.tracks, settings: lastSettings });
+    lastTracks = state.tracks;
+  });
+  const unsubscribeAudio = useAudioStore.subscribe((state, prev) => {
+    const previous = pickSettings(prev);
+    const next = pickSettings(state);
+    if (settingsEqual(next, previous)) return;
+    handleChange({ tracks: lastTracks, settings: previous });
+    lastSettings = next;
+  });
+  return () => {
+    unsubscribeTracks();
+    unsubscribeAudio();
+  };
+}
+
+/**
+ * Opens a gesture: every change until the matching `endHistoryGesture`
+ * becomes a single undo step. Gestures may nest.
+ */
+export function beginHistoryGesture() {
+  if (gestureDepth === 0) {
+    commitPending();
+    gestureBaseline = captureSnapshot();
+  }
+  gestureDepth += 1;
+}
+
+/**
+ * Closes a gesture. Safe to call without a matching begin, which lets
+ * components call it from handlers that also fire for keyboard input.
+ */
+export function endHistoryGesture() {
+  if (gestureDepth === 0) return;
+  gestureDepth -= 1;
+  if (gestureDepth > 0) return;
+
+  const baseline = gestureBaseline;
+  gestureBaseline = null;
+  if (baseline && !snapshotsEqual(baseline, captureSnapshot())) {
+    useHistoryStore.getState().push(baseline);
+  }
+}
+
+/**
+ * Opens a gesture that closes when the pointer is released or cancelled,
+ * for controls that only report a commit when their value changed: a click
+ * that moves nothing still ends it.
+ */
+export function beginPointerGesture() {
+  beginHistoryGesture();
+  const end = () => {
+    window.removeEventListener("pointerup", end);
+    window.removeEventListener("pointercancel", end);
+    endHistoryGesture();
+  };
+  window.addEventListener("pointerup", end);
+  window.addEventListener("pointercancel", end);
+}
+
+// The engine follows the stores on its own, so restoring state is enough
+function restore(snapshot: EditSnapshot) {
+  isRestoring = true;
+  try {
+    useTrackStore.setState({ tracks: snapshot.tracks });
+    useAudioStore.setState(snapshot.settings);
+  } finally {
+    isRestoring = false;
+  }
+}
+
+// True while undo or redo writes a snapshot back to the stores
+export function isRestoringHistory(): boolean {
+  return isRestoring;
+}
+
+function settleOpenEdits() {
+  while (gestureDepth > 0) endHistoryGesture();
+  commitPending();
+}
+
+export function undo() {
+  settleOpenEdits();
+  const previous = useHistoryStore.getState().popPast(captureSnapshot());
+  if (previous) restore(previous);
+}
+
+export function redo() {
+  settleOpenEdits();
+  const next = useHistoryStore.getState().popFuture(captureSnapshot());
+  if (next) restore(next);
+}
+
+/**
+ * Drops all history, including any edit that has not been committed yet.
+ * Used when the whole session is replaced.
+ */
+export function resetHistory() {
+  pendingBaseline = null;
+  gestureBaseline = null;
+  gestureDepth = 0;
+  useHistoryStore.getState().clear();
+}
@@ -0,0 +1,52 @@
+import { create } from "zustand";
+import type { ProjectSettings, Track } from "@/features/core-audio/types/audio";
+
+export interface EditSnapshot {
+  tracks: Track[];
+  settings: ProjectSettings;
+}
+
+const MAX_HISTORY = 100;
+
+interface HistoryState {
+  past: EditSnapshot[];
+  future: EditSnapshot[];
+}
+
+interface HistoryActions {
+  push: (snapshot: EditSnapshot) => void;
+  popPast: (current: EditSnapshot) => EditSnapshot | undefined;
+  popFuture: (current: EditSnapshot) => EditSnapshot | undefined;
+  clear: () => void;
+}
+
+export const useHistoryStore = create<HistoryState & HistoryActions>(
+  (set, get) => ({
+    past: [],
+    future: [],
+
+    push: (snapshot) =>
+      set((state) => ({
+        past: [...state.past, snapshot].slice(-MAX_HISTORY),
+        future: [],
+      })),
+
+    popPast: (current) => {
+      const { past, future } = get();
+      const previous = past[past.length - 1];
+      if (!previous) return undefined;
+      set({ past: past.slice(0, -1), future: [...future, current] });
+      return previous;
+    },
+
+    popFuture: (current) => {
+      const { past, future } = get();
+      const next = future[future.length - 1];
+      if (!next) return undefined;
+      set({ past: [...past, current], future: future.slice(0, -1) });
+      return next;
+    },
+
+    clear: () => set({ past: [], future: [] }),
+  }),
+);
@@ -0,0 +1,50 @@
+"use client";
+
+import { History } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { useSessionRecovery } from "../hooks/use-session-recovery";
+
+export function RecoverSessionDialog() {
+  const { snapshot, recover, discard } = useSessionRecovery();
+
+  const updatedAt = snapshot ? new Date(snapshot.updatedAt) : null;
+  const trackCount = snapshot?.project.tracks.length ?? 0;
+
+  return (
+    <Dialog
+      open={snapshot !== null}
+      onOpenChange={(open) => {
+        if (!open) discard();
+      }}
+    >
+      <DialogContent className="dark text-foreground sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <History className="w-4 h-4 text-primary" />
+            Recover unsaved session
+          </DialogTitle>
+          <DialogDescription>
+            “{snapshot?.project.name}” has changes that were never saved
+            {updatedAt && <> (last autosaved {updatedAt.toLocaleString()})</>},
+            with {trackCount} {trackCount === 1 ? "track" : "tracks"}. Do you
+            want to restore it?
+          </DialogDescription>
+        </DialogHeader>
+        <DialogFooter>
+          <Button variant="ghost" onClick={discard}>
+            Discard
+          </Button>
+          <Button onClick={recover}>Recover</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,97 @@
+"use client";
+
+import { useCallback, useEffect } from "react";
+import {
+  openProjectFile,
+  projectNameFromFileName,
+  saveProjectFileAs,
+  writeProjectFile,
+} from "../lib/project-file";
+import {
+  applyProjectDocument,
+  createProjectDocument,
+  subscribeToProjectChanges,
+} from "../lib/project-serializer";
+import { useProjectStore } from "../store/projectStore";
+
+function reportError(action: string, error: unknown) {
+  const message = error instanceof Error ? error.message : String(error);
+  console.error(`Failed to ${action} project`, error);
+  alert(`Could not ${action} project: ${message}`);
+}
+
+/**
+ * Save / Open / Save As actions for the current session, plus dirty-state
+ * tracking and the Ctrl/Cmd+S, Ctrl/Cmd+Shift+S and Ctrl/Cmd+O shortcuts.
+ */
+export function useProjectFile() {
+  const markDirty = useProjectStore((state) => state.markDirty);
+
+  useEffect(() => subscribeToProjectChanges(markDirty), [markDirty]);
+
+  const saveAs = useCallback(async () => {
+    const { name, setProject, markSaved } = useProjectStore.getState();
+    try {
+      const project = createProjectDocument(name);
+      const handle = await saveProjectFileAs(project);
+      if (handle === undefined) return;
+      setProject(handle ? projectNameFromFileName(handle.name) : name, handle);
+      markSaved(project.savedAt);
+    } catch (error) {
+      reportError("save", error);
+    }
+  }, []);
+
+  const save = useCallback(async () => {
+    const { name, fileHandle, markSaved } = useProjectStore.getState();
+    if (!fileHandle) {
+      await saveAs();
+      return;
+    }
+    try {
+      const project = createProjectDocument(name);
+      await writeProjectFile(fileHandle, project);
+      markSaved(project.savedAt);
+    } catch (error) {
+      reportError("save", error);
+    }
+  }, [saveAs]);
+
+  const open = useCallback(async () => {
+    const { isDirty, setProject, markSaved } = useProjectStore.getState();
+    if (
+      isDirty &&
+      !confirm("Discard unsaved changes to the current project?")
+    ) {
+      return;
+    }
+    try {
+      const opened = await openProjectFile();
+      if (!opened) return;
+      await applyProjectDocument(opened.project);
+      setProject(opened.project.name, opened.handle);
+      markSaved(opened.project.savedAt);
+    } catch (error) {
+      reportError("open", error);
+    }
+  }, []);
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.metaKey || e.ctrlKey)) return;
+      const key = e.key.toLowerCase();
+      if (key === "s") {
+        e.preventDefault();
+        if (e.shiftKey) saveAs();
+        else save();
+      } else if (key === "o") {
+        e.preventDefault();
+        open();
+      }
+    };
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, [save, saveAs, open]);
+
+  return { save, saveAs, open };
+}
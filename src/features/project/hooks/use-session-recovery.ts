@@ -0,0 +1,72 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { startAutosave } from "../lib/autosave";
+import {
+  type AutosaveSnapshot,
+  clearAutosave,
+  getAutosave,
+} from "../lib/media-db";
+import { parseProjectDocument } from "../lib/project-schema";
+import { applyProjectDocument } from "../lib/project-serializer";
+import { useProjectStore } from "../store/projectStore";
+
+/**
+ * Looks for an autosaved session that was never saved to a file and offers
+ * it for recovery. Autosaving only starts once that choice has been made so
+ * the pending snapshot is not overwritten by the fresh session.
+ */
+export function useSessionRecovery() {
+  const [snapshot, setSnapshot] = useState<AutosaveSnapshot | null>(null);
+  const [isResolved, setIsResolved] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    getAutosave()
+      .then((found) => {
+        if (cancelled) return;
+        if (found?.isDirty) setSnapshot(found);
+        else setIsResolved(true);
+      })
+      .catch((e) => {
+        console.error("Failed to read autosave", e);
+        if (!cancelled) setIsResolved(true);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  useEffect(() => {
+    if (!isResolved) return;
+    return startAutosave();
+  }, [isResolved]);
+
+  const recover = useCallback(async () => {
+    if (!snapshot) return;
+    try {
+      const project = parseProjectDocument(snapshot.project);
+      await applyProjectDocument(project);
+      const { setProject, markDirty } = useProjectStore.getState();
+      setProject(project.name, snapshot.fileHandle);
+      markDirty();
+    } catch (e) {
+      console.error("Failed to recover session", e);
+      alert("The unsaved session could not be recovered.");
+    }
+    setSnapshot(null);
+    setIsResolved(true);
+  }, [snapshot]);
+
+  const discard = useCallback(async () => {
+    try {
+      await clearAutosave();
+    } catch (e) {
+      console.error("Failed to clear autosave", e);
+    }
+    setSnapshot(null);
+    setIsResolved(true);
+  }, []);
+
+  return { snapshot, recover, discard };
+}
@@ -0,0 +1,66 @@
+import { useProjectStore } from "../store/projectStore";
+import { putAutosave } from "./media-db";
+import {
+  createProjectDocument,
+  subscribeToProjectChanges,
+} from "./project-serializer";
+
+const AUTOSAVE_DELAY_MS = 1500;
+
+async function writeSnapshot() {
+  const { name, fileHandle, isDirty } = useProjectStore.getState();
+  try {
+    await putAutosave({
+      project: createProjectDocument(name),
+      fileHandle,
+      isDirty,
+      updatedAt: new Date().toISOString(),
+    });
+  } catch (e) {
+    console.error("Autosave failed", e);
+  }
+}
+
+/**
+ * Persists a snapshot of the session to IndexedDB, debounced, whenever the
+ * project or its saved/dirty status changes. Pending writes are flushed when
+ * the page is hidden. Returns a function that stops autosaving.
+ */
+export function startAutosave(): () => void {
+  let timer: ReturnType<typeof setTimeout> | null = null;
+
+  const flush = () => {
+    if (timer === null) return;
+    clearTimeout(timer);
+    timer = null;
+    writeSnapshot();
+  };
+
+  const schedule = () => {
+    if (timer !== null) clearTimeout(timer);
+    timer = setTimeout(flush, AUTOSAVE_DELAY_MS);
+  };
+
+  const handleVisibilityChange = () => {
+    if (document.visibilityState === "hidden") flush();
+  };
+
+  const unsubscribeProject = subscribeToProjectChanges(schedule);
+  const unsubscribeStatus = useProjectStore.subscribe((state, prev) => {
+    if (
+      state.isDirty !== prev.isDirty ||
+      state.name !== prev.name ||
+      state.fileHandle !== prev.fileHandle
+    ) {
+      schedule();
+    }
+  });
+  document.addEventListener("visibilitychange", handleVisibilityChange);
+
+  return () => {
+    flush();
+    unsubscribeProject();
+    unsubscribeStatus();
+    document.removeEventListener("visibilitychange", handleVisibilityChange);
+  };
+}
@@ -0,0 +1,106 @@
+import type { WaveformPeaks } from "@/features/waveform/types/waveform";
+import type { ProjectDocument } from "../types/project";
+
+const DB_NAME = "soundlab";
+const DB_VERSION = 2;
+const MEDIA_STORE = "media";
+const PEAKS_STORE = "peaks";
+const SESSION_STORE = "session";
+const AUTOSAVE_KEY = "autosave";
+
+export interface StoredMedia {
+  id: string;
+  blob: Blob;
+  createdAt: string;
+}
+
+export interface AutosaveSnapshot {
+  project: ProjectDocument;
+  fileHandle: FileSystemFileHandle | null;
+  isDirty: boolean;
+  updatedAt: string;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDatabase(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(MEDIA_STORE)) {
+          db.createObjectStore(MEDIA_STORE, { keyPath: "id" });
+        }
+        if (!db.objectStoreNames.contains(SESSION_STORE)) {
+          db.createObjectStore(SESSION_STORE);
+        }
+        if (!db.objectStoreNames.contains(PEAKS_STORE)) {
+          db.createObjectStore(PEAKS_STORE, { keyPath: "mediaId" });
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+}
+
+async function runRequest<T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  operation: (store: IDBObjectStore) => IDBRequest,
+): Promise<T> {
+  const db = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(storeName, mode);
+    const request = operation(transaction.objectStore(storeName));
+    transaction.oncomplete = () => resolve(request.result as T);
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+}
+
+export async function hasMedia(id: string): Promise<boolean> {
+  const count = await runRequest<number>(MEDIA_STORE, "readonly", (store) =>
+    store.count(id),
+  );
+  return count > 0;
+}
+
+export function putMedia(media: StoredMedia): Promise<void> {
+  return runRequest(MEDIA_STORE, "readwrite", (store) => store.put(media));
+}
+
+export function getMedia(id: string): Promise<StoredMedia | undefined> {
+  return runRequest(MEDIA_STORE, "readonly", (store) => store.get(id));
+}
+
+export function putPeaks(peaks: WaveformPeaks): Promise<void> {
+  return runRequest(PEAKS_STORE, "readwrite", (store) => store.put(peaks));
+}
+
+export function getPeaks(mediaId: string): Promise<WaveformPeaks | undefined> {
+  return runRequest(PEAKS_STORE, "readonly", (store) => store.get(mediaId));
+}
+
+export function putAutosave(snapshot: AutosaveSnapshot): Promise<void> {
+  return runRequest(SESSION_STORE, "readwrite", (store) =>
+    store.put(snapshot, AUTOSAVE_KEY),
+  );
+}
+
+export function getAutosave(): Promise<AutosaveSnapshot | undefined> {
+  return runRequest(SESSION_STORE, "readonly", (store) =>
+    store.get(AUTOSAVE_KEY),
+  );
+}
+
+export function clearAutosave(): Promise<void> {
+  return runRequest(SESSION_STORE, "readwrite", (store) =>
+    store.delete(AUTOSAVE_KEY),
+  );
+}
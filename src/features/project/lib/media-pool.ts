@@ -0,0 +1,66 @@
+import { getMedia, hasMedia, putMedia } from "./media-db";
+
+/**
+ * Pool of imported and recorded audio. Every blob is persisted to IndexedDB
+ * under the SHA-256 of its content, which doubles as the `mediaId` blocks
+ * reference; object URLs are created per session and never saved.
+ */
+const urls = new Map<string, string>();
+
+async function hashBlob(blob: Blob): Promise<string> {
+  const digest = await crypto.subtle.digest(
+    "SHA-256",
+    await blob.arrayBuffer(),
+  );
+  const hex = Array.from(new Uint8Array(digest), (byte) =>
+    byte.toString(16).padStart(2, "0"),
+  ).join("");
+  return `sha256-${hex}`;
+}
+
+function register(mediaId: string, blob: Blob): string {
+  const existing = urls.get(mediaId);
+  if (existing) return existing;
+  const url = URL.createObjectURL(blob);
+  urls.set(mediaId, url);
+  return url;
+}
+
+/**
+ * Adds a blob to the pool, storing it in IndexedDB if it is not there yet.
+ * Identical content always yields the same `mediaId`.
+ */
+export async function importMedia(
+  blob: Blob,
+): Promise<{ mediaId: string; blobUrl: string }> {
+  const mediaId = await hashBlob(blob);
+  try {
+    if (!(await hasMedia(mediaId))) {
+      await putMedia({
+        id: mediaId,
+        blob,
+        createdAt: new Date().toISOString(),
+      });
+    }
+  } catch (e) {
+    // Keep the session usable even if storage is unavailable or full
+    console.error("Failed to persist media", e);
+  }
+  return { mediaId, blobUrl: register(mediaId, blob) };
+}
+
+/**
+ * Returns an object URL for the media, loading it from IndexedDB if this
+ * session has not seen it yet. Resolves to `null` if the media is unknown.
+ */
+export async function resolveMediaUrl(mediaId: string): Promise<string | null> {
+  const cached = urls.get(mediaId);
+  if (cached) return cached;
+  try {
+    const stored = await getMedia(mediaId);
+    return stored ? register(mediaId, stored.blob) : null;
+  } catch (e) {
+    console.error("Failed to load media", e);
+    return null;
+  }
+}
@@ -0,0 +1,131 @@
+import { downloadBlob } from "@/lib/download";
+import type { ProjectDocument } from "../types/project";
+import { PROJECT_FILE_EXTENSION, parseProjectDocument } from "./project-schema";
+
+// The File System Access API is not part of the standard DOM typings yet.
+interface FilePickerType {
+  description: string;
+  accept: Record<string, string[]>;
+}
+
+interface FilePickerWindow {
+  showSaveFilePicker?: (options: {
+    suggestedName?: string;
+    types?: FilePickerType[];
+  }) => Promise<FileSystemFileHandle>;
+  showOpenFilePicker?: (options: {
+    multiple?: boolean;
+    types?: FilePickerType[];
+  }) => Promise<FileSystemFileHandle[]>;
+}
+
+const PICKER_TYPES: FilePickerType[] = [
+  {
+    description: "SoundLab Project",
+    accept: { "application/json": [PROJECT_FILE_EXTENSION, ".json"] },
+  },
+];
+
+export interface OpenedProject {
+  project: ProjectDocument;
+  handle: FileSystemFileHandle | null;
+}
+
+function isAbortError(error: unknown): boolean {
+  return error instanceof DOMException && error.name === "AbortError";
+}
+
+export function projectNameFromFileName(fileName: string): string {
+  return fileName.replace(/\.soundlab\.json$|\.json$/i, "") || "Untitled";
+}
+
+function toFileName(name: string): string {
+  const safe = name.replace(/[\\/:*?"<>|]+/g, "_").trim() || "Untitled";
+  return `${safe}${PROJECT_FILE_EXTENSION}`;
+}
+
+function downloadProject(project: ProjectDocument) {
+  const blob = new Blob([JSON.stringify(project, null, 2)], {
+    type: "application/json",
+  });
+  downloadBlob(blob, toFileName(project.name));
+}
+
+/**
+ * Writes the project to an existing handle without prompting.
+ */
+export async function writeProjectFile(
+  handle: FileSystemFileHandle,
+  project: ProjectDocument,
+) {
+  const writable = await handle.createWritable();
+  await writable.write(JSON.stringify(project, null, 2));
+  await writable.close();
+}
+
+/**
+ * Asks for a destination and writes the project. Falls back to a download in
+ * browsers without the File System Access API, in which case no handle is
+ * returned. Resolves to `undefined` if the user cancels the picker.
+ */
+export async function saveProjectFileAs(
+  project: ProjectDocument,
+): Promise<FileSystemFileHandle | null | undefined> {
+  const picker = (window as FilePickerWindow).showSaveFilePicker;
+  if (!picker) {
+    downloadProject(project);
+    return null;
+  }
+
+  try {
+    const handle = await picker({
+      suggestedName: toFileName(project.name),
+      types: PICKER_TYPES,
+    });
+    await writeProjectFile(handle, project);
+    return handle;
+  } catch (error) {
+    if (isAbortError(error)) return undefined;
+    throw error;
+  }
+}
+
+function pickFileWithInput(): Promise<File | null> {
+  return new Promise((resolve) => {
+    const input = document.createElement("input");
+    input.type = "file";
+    input.accept = `${PROJECT_FILE_EXTENSION},.json,application/json`;
+    input.onchange = () => resolve(input.files?.[0] ?? null);
+    input.oncancel = () => resolve(null);
+    input.click();
+  });
+}
+
+/**
+ * Prompts for a project file and parses it. Resolves to `null` if the user
+ * cancels; throws if the file is not a valid project.
+ */
+export async function openProjectFile(): Promise<OpenedProject | null> {
+  const picker = (window as FilePickerWindow).showOpenFilePicker;
+  let file: File | null = null;
+  let handle: FileSystemFileHandle | null = null;
+
+  if (picker) {
+    try {
+      [handle] = await picker({ multiple: false, types: PICKER_TYPES });
+      file = await handle.getFile();
+    } catch (error) {
+      if (isAbortError(error)) return null;
+      throw error;
+    }
+  } else {
+    file = await pickFileWithInput();
+  }
+  if (!file) return null;
+
+  const project = parseProjectDocument(JSON.parse(await file.text()));
+  return {
+    project: { ...project, name: projectNameFromFileName(file.name) },
+    handle,
+  };
+}
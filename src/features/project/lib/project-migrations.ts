@@ -0,0 +1,170 @@
+import { DEFAULT_MASTER_BUS } from "@/features/core-audio/lib/mix-utils";
+import { createClipFade } from "@/features/fades/lib/fades";
+import {
+  createTempoMap,
+  DEFAULT_BPM,
+  secondsToTicks,
+  type TempoMap,
+  tempoAt,
+} from "@/features/tempo-map/lib/tempo-map";
+import { createClipWarp, DEFAULT_WARP_QUALITY } from "@/features/warp/lib/warp";
+
+export type RawProject = Record<string, unknown>;
+
+type Migration = (project: RawProject) => RawProject;
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+// Applies `update` to every well-formed block; the schema rejects the rest
+function mapBlocks(
+  tracks: unknown,
+  update: (block: Record<string, unknown>) => Record<string, unknown>,
+): unknown {
+  if (!Array.isArray(tracks)) return tracks;
+  return tracks.map((track) =>
+    isRecord(track) && Array.isArray(track.blocks)
+      ? {
+          ...track,
+          blocks: track.blocks.map((block) =>
+            isRecord(block) ? update(block) : block,
+          ),
+        }
+      : track,
+  );
+}
+
+// Best effort: a malformed transport is rejected by the schema afterwards
+function readTempoMap(transport: unknown): TempoMap {
+  const raw = isRecord(transport) ? transport : {};
+  const timeSignature = Array.isArray(raw.timeSignature)
+    ? raw.timeSignature
+    : [];
+  return createTempoMap({
+    bpm: typeof raw.bpm === "number" ? raw.bpm : DEFAULT_BPM,
+    timeSignature: [
+      Number(timeSignature[0]) || 4,
+      Number(timeSignature[1]) || 4,
+    ],
+    tempoEvents: Array.isArray(raw.tempoEvents) ? raw.tempoEvents : [],
+    meterEvents: Array.isArray(raw.meterEvents) ? raw.meterEvents : [],
+  });
+}
+
+/**
+ * Upgrades keyed by the version they migrate *from*. Each step must return a
+ * document that is valid for `version + 1`; the runner bumps the version.
+ */
+const MIGRATIONS: Record<number, Migration> = {
+  // v2: tracks gained pan and stereo width
+  1: (project) => ({
+    ...project,
+    tracks: Array.isArray(project.tracks)
+      ? project.tracks.map((track) => ({ pan: 0, stereoWidth: 1, ...track }))
+      : project.tracks,
+  }),
+  // v3: tracks gained insert effect chains
+  2: (project) => ({
+    ...project,
+    tracks: Array.isArray(project.tracks)
+      ? project.tracks.map((track) => ({ effects: [], ...track }))
+      : project.tracks,
+  }),
+  // v4: group and return tracks, output routing and sends
+  3: (project) => ({
+    ...project,
+    tracks: Array.isArray(project.tracks)
+      ? project.tracks.map((track) => ({
+          kind: "audio",
+          output: null,
+          sends: [],
+          ...track,
+        }))
+      : project.tracks,
+  }),
+  // v5: master bus inserts, output stage and limiter
+  4: (project) => ({
+    ...project,
+    transport:
+      typeof project.transport === "object" && project.transport !== null
+        ? { masterBus: DEFAULT_MASTER_BUS, ...project.transport }
+        : project.transport,
+  }),
+  // v6: volume and pan automation lanes
+  5: (project) => ({
+    ...project,
+    tracks: Array.isArray(project.tracks)
+      ? project.tracks.map((track) => ({
+          automation: { volume: [], pan: [] },
+          ...track,
+        }))
+      : project.tracks,
+  }),
+  // v7: tempo and meter changes
+  6: (project) => ({
+    ...project,
+    transport:
+      typeof project.transport === "object" && project.transport !== null
+        ? { tempoEvents: [], meterEvents: [], ...project.transport }
+        : project.transport,
+  }),
+  // v8: clips hold a musical position and follow tempo changes
+  7: (project) => {
+    const tempoMap = readTempoMap(project.transport);
+    return {
+      ...project,
+      tracks: mapBlocks(project.tracks, (block) => ({
+        timebase: "musical",
+        startTick: secondsToTicks(tempoMap, Number(block.startTime) || 0),
+        ...block,
+      })),
+    };
+  },
+  // v9: clip time-stretch and transpose, and the live warp quality
+  8: (project) => {
+    const tempoMap = readTempoMap(project.transport);
+    return {
+      ...project,
+      transport: isRecord(project.transport)
+        ? { warpQuality: DEFAULT_WARP_QUALITY, ...project.transport }
+        : project.transport,
+      tracks: mapBlocks(project.tracks, (block) => ({
+        warp: createClipWarp(tempoAt(tempoMap, Number(block.startTime) || 0)),
+        ...block,
+      })),
+    };
+  },
+  // v10: clip gain and fades
+  9: (project) => ({
+    ...project,
+    tracks: mapBlocks(project.tracks, (block) => ({
+      gain: 0,
+      fadeIn: createClipFade(),
+      fadeOut: createClipFade(),
+      ...block,
+    })),
+  }),
+};
+
+export const CURRENT_PROJECT_VERSION = 10;
+
+export function migrateProject(project: RawProject): RawProject {
+  let version = typeof project.version === "number" ? project.version : 0;
+  if (version > CURRENT_PROJECT_VERSION) {
+    throw new Error(
+      `Project was saved by a newer version (v${version}); this app supports up to v${CURRENT_PROJECT_VERSION}`,
+    );
+  }
+
+  let migrated = project;
+  while (version < CURRENT_PROJECT_VERSION) {
+    const migrate = MIGRATIONS[version];
+    if (!migrate) {
+      throw new Error(`No migration available from project version ${version}`);
+    }
+    migrated = { ...migrate(migrated), version: version + 1 };
+    version += 1;
+  }
+  return migrated;
+}
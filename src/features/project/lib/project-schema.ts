@@ -0,0 +1,355 @@
+import {
+  AUTOMATION_PARAMS,
+  AUTOMATION_RANGES,
+  createTrackAutomation,
+  isAutomationCurve,
+  sortPoints,
+} from "@/features/automation/lib/automation";
+import type {
+  AutomationParam,
+  AutomationPoint,
+  TrackAutomation,
+} from "@/features/automation/types/automation";
+import type {
+  MasterBus,
+  TrackKind,
+  TrackSend,
+} from "@/features/core-audio/types/audio";
+import {
+  isEffectType,
+  normalizeParams,
+} from "@/features/effects/lib/effect-definitions";
+import type { EffectDevice } from "@/features/effects/types/effects";
+import {
+  isFadeCurve,
+  MAX_CLIP_GAIN,
+  MIN_CLIP_GAIN,
+} from "@/features/fades/lib/fades";
+import type { ClipFade } from "@/features/fades/types/fades";
+import {
+  clampBpm,
+  isClipTimebase,
+  METER_DENOMINATORS,
+  METER_NUMERATORS,
+  sortMeterEvents,
+  sortTempoEvents,
+} from "@/features/tempo-map/lib/tempo-map";
+import type { MeterEvent, TempoEvent } from "@/features/tempo-map/types/tempo";
+import { findRoutingError } from "@/features/track-manager/lib/routing";
+import {
+  isWarpQuality,
+  MAX_CENTS,
+  MAX_SEMITONES,
+} from "@/features/warp/lib/warp";
+import type { ClipWarp, WarpQuality } from "@/features/warp/types/warp";
+import type {
+  ProjectBlock,
+  ProjectDocument,
+  ProjectTrack,
+  ProjectTransport,
+  ProjectView,
+} from "../types/project";
+import { migrateProject, type RawProject } from "./project-migrations";
+
+export const PROJECT_FORMAT = "soundlab-project";
+export const PROJECT_FILE_EXTENSION = ".soundlab.json";
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function readNumber(source: Record<string, unknown>, key: string): number {
+  const value = source[key];
+  if (typeof value !== "number" || !Number.isFinite(value)) {
+    throw new Error(`Invalid project: "${key}" must be a number`);
+  }
+  return value;
+}
+
+function readString(source: Record<string, unknown>, key: string): string {
+  const value = source[key];
+  if (typeof value !== "string") {
+    throw new Error(`Invalid project: "${key}" must be a string`);
+  }
+  return value;
+}
+
+function readBoolean(source: Record<string, unknown>, key: string): boolean {
+  const value = source[key];
+  if (typeof value !== "boolean") {
+    throw new Error(`Invalid project: "${key}" must be a boolean`);
+  }
+  return value;
+}
+
+function readRecord(
+  source: Record<string, unknown>,
+  key: string,
+): Record<string, unknown> {
+  const value = source[key];
+  if (!isRecord(value)) {
+    throw new Error(`Invalid project: "${key}" must be an object`);
+  }
+  return value;
+}
+
+function readArray(source: Record<string, unknown>, key: string): unknown[] {
+  const value = source[key];
+  if (!Array.isArray(value)) {
+    throw new Error(`Invalid project: "${key}" must be a list`);
+  }
+  return value;
+}
+
+function parseWarp(raw: Record<string, unknown>): ClipWarp {
+  const clamp = (value: number, max: number) =>
+    Math.min(max, Math.max(-max, value));
+  return {
+    enabled: readBoolean(raw, "enabled"),
+    sourceBpm: clampBpm(readNumber(raw, "sourceBpm")),
+    semitones: clamp(Math.round(readNumber(raw, "semitones")), MAX_SEMITONES),
+    cents: clamp(readNumber(raw, "cents"), MAX_CENTS),
+  };
+}
+
+function parseFade(raw: Record<string, unknown>): ClipFade {
+  const curve = raw.curve;
+  if (!isFadeCurve(curve)) {
+    throw new Error(`Invalid project: unknown fade curve "${String(curve)}"`);
+  }
+  return { duration: Math.max(0, readNumber(raw, "duration")), curve };
+}
+
+function parseBlock(raw: unknown, trackId: string): ProjectBlock {
+  if (!isRecord(raw)) throw new Error("Invalid project: malformed block");
+  const timebase = raw.timebase;
+  if (!isClipTimebase(timebase)) {
+    throw new Error(
+      `Invalid project: unknown clip timebase "${String(timebase)}"`,
+    );
+  }
+  return {
+    id: readString(raw, "id"),
+    trackId,
+    name: readString(raw, "name"),
+    fileName: readString(raw, "fileName"),
+    mediaId: readString(raw, "mediaId"),
+    startTime: readNumber(raw, "startTime"),
+    startTick: Math.max(0, readNumber(raw, "startTick")),
+    timebase,
+    duration: readNumber(raw, "duration"),
+    originalDuration: readNumber(raw, "originalDuration"),
+    offset: readNumber(raw, "offset"),
+    warp: parseWarp(readRecord(raw, "warp")),
+    gain: Math.min(
+      MAX_CLIP_GAIN,
+      Math.max(MIN_CLIP_GAIN, readNumber(raw, "gain")),
+    ),
+    fadeIn: parseFade(readRecord(raw, "fadeIn")),
+    fadeOut: parseFade(readRecord(raw, "fadeOut")),
+  };
+}
+
+function parseEffect(raw: unknown): EffectDevice {
+  if (!isRecord(raw)) throw new Error("Invalid project: malformed effect");
+  const type = raw.type;
+  if (!isEffectType(type)) {
+    throw new Error(`Invalid project: unknown effect type "${String(type)}"`);
+  }
+  return {
+    id: readString(raw, "id"),
+    type,
+    bypassed: readBoolean(raw, "bypassed"),
+    // Parameters added in later releases fall back to their defaults
+    params: normalizeParams(type, readRecord(raw, "params")),
+  };
+}
+
+const TRACK_KINDS: readonly TrackKind[] = ["audio", "group", "return"];
+
+function parseSend(raw: unknown): TrackSend {
+  if (!isRecord(raw)) throw new Error("Invalid project: malformed send");
+  return {
+    returnId: readString(raw, "returnId"),
+    level: Math.min(1, Math.max(0, readNumber(raw, "level"))),
+    preFader: readBoolean(raw, "preFader"),
+  };
+}
+
+function parseAutomationPoint(
+  raw: unknown,
+  param: AutomationParam,
+): AutomationPoint {
+  if (!isRecord(raw)) {
+    throw new Error("Invalid project: malformed automation point");
+  }
+  const curve = raw.curve;
+  if (!isAutomationCurve(curve)) {
+    throw new Error(`Invalid project: unknown curve "${String(curve)}"`);
+  }
+  const { min, max } = AUTOMATION_RANGES[param];
+  return {
+    id: readString(raw, "id"),
+    time: Math.max(0, readNumber(raw, "time")),
+    value: Math.min(max, Math.max(min, readNumber(raw, "value"))),
+    curve,
+  };
+}
+
+function parseAutomation(raw: Record<string, unknown>): TrackAutomation {
+  const automation = createTrackAutomation();
+  for (const param of AUTOMATION_PARAMS) {
+    automation[param] = sortPoints(
+      readArray(raw, param).map((point) => parseAutomationPoint(point, param)),
+    );
+  }
+  return automation;
+}
+
+function parseTrack(raw: unknown): ProjectTrack {
+  if (!isRecord(raw)) throw new Error("Invalid project: malformed track");
+  const id = readString(raw, "id");
+  const kind = readString(raw, "kind") as TrackKind;
+  if (!TRACK_KINDS.includes(kind)) {
+    throw new Error(`Invalid project: unknown track kind "${kind}"`);
+  }
+  const output = raw.output;
+  if (output !== null && typeof output !== "string") {
+    throw new Error('Invalid project: "output" must be a track ID or null');
+  }
+  return {
+    id,
+    name: readString(raw, "name"),
+    kind,
+    color: readString(raw, "color"),
+    volume: readNumber(raw, "volume"),
+    isMuted: readBoolean(raw, "isMuted"),
+    isSolo: readBoolean(raw, "isSolo"),
+    pan: Math.min(1, Math.max(-1, readNumber(raw, "pan"))),
+    stereoWidth: Math.min(2, Math.max(0, readNumber(raw, "stereoWidth"))),
+    effects: readArray(raw, "effects").map(parseEffect),
+    output,
+    sends: readArray(raw, "sends").map(parseSend),
+    automation: parseAutomation(readRecord(raw, "automation")),
+    blocks: readArray(raw, "blocks").map((block) => parseBlock(block, id)),
+  };
+}
+
+function parseMasterBus(raw: Record<string, unknown>): MasterBus {
+  const limiter = readRecord(raw, "limiter");
+  return {
+    effects: readArray(raw, "effects").map(parseEffect),
+    outputGain: readNumber(raw, "outputGain"),
+    loudnessTarget: readNumber(raw, "loudnessTarget"),
+    limiter: {
+      enabled: readBoolean(limiter, "enabled"),
+      ceiling: Math.min(0, readNumber(limiter, "ceiling")),
+      release: readNumber(limiter, "release"),
+    },
+  };
+}
+
+function parseTempoEvent(raw: unknown): TempoEvent {
+  if (!isRecord(raw))
+    throw new Error("Invalid project: malformed tempo change");
+  return {
+    id: readString(raw, "id"),
+    tick: Math.max(0, readNumber(raw, "tick")),
+    bpm: clampBpm(readNumber(raw, "bpm")),
+    ramp: readBoolean(raw, "ramp"),
+  };
+}
+
+function parseMeter(
+  numerator: unknown,
+  denominator: unknown,
+): [number, number] {
+  if (
+    !METER_NUMERATORS.includes(numerator as number) ||
+    !METER_DENOMINATORS.includes(denominator as number)
+  ) {
+    throw new Error(
+      `Invalid project: unsupported time signature ${String(numerator)}/${String(denominator)}`,
+    );
+  }
+  return [numerator as number, denominator as number];
+}
+
+function parseMeterEvent(raw: unknown): MeterEvent {
+  if (!isRecord(raw))
+    throw new Error("Invalid project: malformed meter change");
+  const bar = readNumber(raw, "bar");
+  if (!Number.isInteger(bar) || bar < 1) {
+    throw new Error(
+      'Invalid project: "bar" must be a whole bar after the first',
+    );
+  }
+  const [numerator, denominator] = parseMeter(raw.numerator, raw.denominator);
+  return { id: readString(raw, "id"), bar, numerator, denominator };
+}
+
+function parseWarpQuality(value: unknown): WarpQuality {
+  if (!isWarpQuality(value)) {
+    throw new Error(`Invalid project: unknown warp quality "${String(value)}"`);
+  }
+  return value;
+}
+
+function parseTransport(raw: Record<string, unknown>): ProjectTransport {
+  const timeSignature = readArray(raw, "timeSignature");
+  if (
+    timeSignature.length !== 2 ||
+    !timeSignature.every((n) => typeof n === "number" && n > 0)
+  ) {
+    throw new Error('Invalid project: "timeSignature" must be [num, den]');
+  }
+  return {
+    bpm: readNumber(raw, "bpm"),
+    timeSignature: parseMeter(timeSignature[0], timeSignature[1]),
+    tempoEvents: sortTempoEvents(
+      readArray(raw, "tempoEvents").map(parseTempoEvent),
+    ),
+    meterEvents: sortMeterEvents(
+      readArray(raw, "meterEvents").map(parseMeterEvent),
+    ),
+    masterVolume: readNumber(raw, "masterVolume"),
+    masterBus: parseMasterBus(readRecord(raw, "masterBus")),
+    isLooping: readBoolean(raw, "isLooping"),
+    loopStart: readNumber(raw, "loopStart"),
+    loopEnd: readNumber(raw, "loopEnd"),
+    warpQuality: parseWarpQuality(raw.warpQuality),
+  };
+}
+
+function parseView(raw: Record<string, unknown>): ProjectView {
+  return {
+    pixelsPerSecond: readNumber(raw, "pixelsPerSecond"),
+    zoomLevel: readNumber(raw, "zoomLevel"),
+  };
+}
+
+/**
+ * Validates untrusted JSON (from disk or storage), runs any pending schema
+ * migrations and returns a document at the current version.
+ */
+export function parseProjectDocument(input: unknown): ProjectDocument {
+  if (!isRecord(input) || input.format !== PROJECT_FORMAT) {
+    throw new Error("Not a SoundLab project file");
+  }
+
+  const project: RawProject = migrateProject(input);
+  const tracks = readArray(project, "tracks").map(parseTrack);
+  const routingError = findRoutingError(tracks);
+  if (routingError) {
+    throw new Error(`Invalid project: ${routingError}`);
+  }
+  return {
+    format: PROJECT_FORMAT,
+    version: readNumber(project, "version"),
+    name: readString(project, "name"),
+    savedAt: readString(project, "savedAt"),
+    transport: parseTransport(readRecord(project, "transport")),
+    view: parseView(readRecord(project, "view")),
+    tracks,
+  };
+}
@@ -0,0 +1,112 @@
+import { AudioEngine } from "@/features/core-audio/lib/audio-engine";
+import { useAudioStore } from "@/features/core-audio/store/audioStore";
+import type { Track } from "@/features/core-audio/types/audio";
+import { resetHistory } from "@/features/history/lib/history";
+import { useTimelineStore } from "@/features/timeline-ruler/store/timelineStore";
+import { useTrackStore } from "@/features/track-manager/store/trackStore";
+import type { ProjectDocument, ProjectTrack } from "../types/project";
+import { resolveMediaUrl } from "./media-pool";
+import { CURRENT_PROJECT_VERSION } from "./project-migrations";
+import { PROJECT_FORMAT } from "./project-schema";
+
+function serializeTrack(track: Track): ProjectTrack {
+  const { blocks, gainNode: _gainNode, isArmed: _isArmed, ...rest } = track;
+  return {
+    ...rest,
+    blocks: blocks.map(({ blobUrl: _blobUrl, ...block }) => block),
+  };
+}
+
+/**
+ * Calls `listener` whenever state that belongs in the project file changes.
+ * Returns an unsubscribe function.
+ */
+export function subscribeToProjectChanges(listener: () => void): () => void {
+  const unsubscribeTracks = useTrackStore.subscribe((state, prev) => {
+    if (state.tracks !== prev.tracks) listener();
+  });
+  const unsubscribeAudio = useAudioStore.subscribe((state, prev) => {
+    if (
+      state.bpm !== prev.bpm ||
+      state.timeSignature !== prev.timeSignature ||
+      state.tempoEvents !== prev.tempoEvents ||
+      state.meterEvents !== prev.meterEvents ||
+      state.masterVolume !== prev.masterVolume ||
+      state.masterBus !== prev.masterBus ||
+      state.isLooping !== prev.isLooping ||
+      state.loopStart !== prev.loopStart ||
+      state.loopEnd !== prev.loopEnd ||
+      state.warpQuality !== prev.warpQuality
+    ) {
+      listener();
+    }
+  });
+  return () => {
+    unsubscribeTracks();
+    unsubscribeAudio();
+  };
+}
+
+/**
+ * Snapshots the current stores into a plain, JSON-safe project document.
+ */
+export function createProjectDocument(name: string): ProjectDocument {
+  const audio = useAudioStore.getState();
+  const { pixelsPerSecond, zoomLevel } = useTimelineStore.getState();
+  const { tracks } = useTrackStore.getState();
+
+  return {
+    format: PROJECT_FORMAT,
+    version: CURRENT_PROJECT_VERSION,
+    name,
+    savedAt: new Date().toISOString(),
+    transport: {
+      bpm: audio.bpm,
+      timeSignature: audio.timeSignature,
+      tempoEvents: audio.tempoEvents,
+      meterEvents: audio.meterEvents,
+      masterVolume: audio.masterVolume,
+      masterBus: audio.masterBus,
+      isLooping: audio.isLooping,
+      loopStart: audio.loopStart,
+      loopEnd: audio.loopEnd,
+      warpQuality: audio.warpQuality,
+    },
+    view: { pixelsPerSecond, zoomLevel },
+    tracks: tracks.map(serializeTrack),
+  };
+}
+
+/**
+ * Replaces the current session with a parsed project document. Media is
+ * resolved from the pool; blocks whose audio cannot be found are kept with an
+ * empty URL so the arrangement survives.
+ */
+export async function applyProjectDocument(project: ProjectDocument) {
+  const mediaIds = new Set(
+    project.tracks.flatMap((track) => track.blocks.map((b) => b.mediaId)),
+  );
+  const urls = new Map<string, string>();
+  await Promise.all(
+    Array.from(mediaIds, async (mediaId) => {
+      const url = await resolveMediaUrl(mediaId);
+      if (url) urls.set(mediaId, url);
+    }),
+  );
+
+  AudioEngine.getInstance()?.stop();
+
+  const tracks: Track[] = project.tracks.map((track) => ({
+    ...track,
+    blocks: track.blocks.map((block) => ({
+      ...block,
+      blobUrl: urls.get(block.mediaId) ?? "",
+    })),
+  }));
+
+  useAudioStore.getState().loadProjectSettings(project.transport);
+  useTimelineStore.getState().setPixelsPerSecond(project.view.pixelsPerSecond);
+  useTimelineStore.getState().setZoomLevel(project.view.zoomLevel);
+  useTrackStore.getState().setTracks(tracks);
+  resetHistory();
+}
@@ -0,0 +1,25 @@
+import { create } from "zustand";
+
+interface ProjectState {
+  name: string;
+  fileHandle: FileSystemFileHandle | null;
+  isDirty: boolean;
+  lastSavedAt: string | null;
+}
+
+interface ProjectActions {
+  setProject: (name: string, fileHandle: FileSystemFileHandle | null) => void;
+  markDirty: () => void;
+  markSaved: (savedAt: string) => void;
+}
+
+export const useProjectStore = create<ProjectState & ProjectActions>((set) => ({
+  name: "New Project",
+  fileHandle: null,
+  isDirty: false,
+  lastSavedAt: null,
+
+  setProject: (name, fileHandle) => set({ name, fileHandle }),
+  markDirty: () => set({ isDirty: true }),
+  markSaved: (savedAt) => set({ isDirty: false, lastSavedAt: savedAt }),
+}));
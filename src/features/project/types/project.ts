@@ -0,0 +1,32 @@
+import type {
+  AudioBlock,
+  ProjectSettings,
+  Track,
+} from "@/features/core-audio/types/audio";
+
+/**
+ * Blocks are stored without their object URL; audio is referenced through
+ * the stable `mediaId` and resolved again when the project is opened.
+ */
+export type ProjectBlock = Omit<AudioBlock, "blobUrl">;
+
+export type ProjectTrack = Omit<Track, "blocks" | "gainNode" | "isArmed"> & {
+  blocks: ProjectBlock[];
+};
+
+export type ProjectTransport = ProjectSettings;
+
+export interface ProjectView {
+  pixelsPerSecond: number;
+  zoomLevel: number;
+}
+
+export interface ProjectDocument {
+  format: "soundlab-project";
+  version: number;
+  name: string;
+  savedAt: string;
+  transport: ProjectTransport;
+  view: ProjectView;
+  tracks: ProjectTrack[];
+}
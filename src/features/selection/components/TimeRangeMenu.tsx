@@ -0,0 +1,81 @@
+"use client";
+
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuShortcut,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { useTimelineStore } from "@/features/timeline-ruler/store/timelineStore";
+import {
+  copyTimeRange,
+  cutTimeRange,
+  deleteTimeRange,
+  insertSilence,
+  pasteInsert,
+} from "../lib/time-range";
+import { useSelectionStore } from "../store/selectionStore";
+
+interface TimeRangeMenuProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+/**
+ * The edits for the selected time range, opened from the ruler. Placed
+ * inside the ruler, at the range's start.
+ */
+export function TimeRangeMenu({ open, onOpenChange }: TimeRangeMenuProps) {
+  const pixelsPerSecond = useTimelineStore((s) => s.pixelsPerSecond);
+  const timeRange = useSelectionStore((s) => s.timeRange);
+  const clipboardRange = useSelectionStore((s) => s.clipboardRange);
+  const clearSelection = useSelectionStore((s) => s.clearSelection);
+
+  return (
+    <DropdownMenu open={open && timeRange !== null} onOpenChange={onOpenChange}>
+      <DropdownMenuTrigger asChild>
+        <span
+          aria-hidden
+          className="absolute bottom-0 size-0 pointer-events-none"
+          style={{ left: (timeRange?.start ?? 0) * pixelsPerSecond }}
+        />
+      </DropdownMenuTrigger>
+      <DropdownMenuContent
+        align="start"
+        className="w-48"
+        onKeyDown={(e) => e.stopPropagation()}
+      >
+        <DropdownMenuItem onSelect={cutTimeRange}>
+          Cut
+          <DropdownMenuShortcut>Ctrl+X</DropdownMenuShortcut>
+        </DropdownMenuItem>
+        <DropdownMenuItem onSelect={copyTimeRange}>
+          Copy
+          <DropdownMenuShortcut>Ctrl+C</DropdownMenuShortcut>
+        </DropdownMenuItem>
+        <DropdownMenuItem
+          disabled={clipboardRange === null}
+          onSelect={pasteInsert}
+        >
+          Paste Insert at Playhead
+          <DropdownMenuShortcut>Ctrl+V</DropdownMenuShortcut>
+        </DropdownMenuItem>
+        <DropdownMenuSeparator />
+        <DropdownMenuItem onSelect={deleteTimeRange}>
+          Delete and Ripple
+          <DropdownMenuShortcut>Del</DropdownMenuShortcut>
+        </DropdownMenuItem>
+        <DropdownMenuItem onSelect={insertSilence}>
+          Insert Silence
+        </DropdownMenuItem>
+        <DropdownMenuSeparator />
+        <DropdownMenuItem onSelect={clearSelection}>
+          Clear Range
+          <DropdownMenuShortcut>Esc</DropdownMenuShortcut>
+        </DropdownMenuItem>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
@@ -0,0 +1,100 @@
+"use client";
+
+import { useEffect } from "react";
+import { useTimelineStore } from "@/features/timeline-ruler/store/timelineStore";
+import { isTextInput } from "@/lib/utils";
+import {
+  copySelection,
+  cutSelection,
+  deleteSelection,
+  duplicateSelection,
+  nudgeSelection,
+  pasteAtPlayhead,
+  selectAllBlocks,
+  splitAtPlayhead,
+  toggleBladeTool,
+} from "../lib/clip-selection";
+import {
+  copyTimeRange,
+  cutTimeRange,
+  deleteTimeRange,
+  pasteInsert,
+} from "../lib/time-range";
+import { useSelectionStore } from "../store/selectionStore";
+
+// A copied time range is pasted by inserting it
+const paste = () =>
+  useSelectionStore.getState().clipboardRange
+    ? pasteInsert()
+    : pasteAtPlayhead();
+
+const COMMANDS: Record<string, () => void> = {
+  a: selectAllBlocks,
+  c: copySelection,
+  x: cutSelection,
+  v: paste,
+  d: duplicateSelection,
+};
+
+// Take over from the clip commands while a time range is selected
+const RANGE_COMMANDS: Record<string, () => void> = {
+  c: copyTimeRange,
+  x: cutTimeRange,
+};
+
+/**
+ * Binds the clip selection keys: Ctrl/Cmd+A, C, X, V and D to select all,
+ * copy, cut, paste at the playhead and duplicate; Delete or Backspace to
+ * delete; the arrow keys to nudge; S to split at the playhead; B for the
+ * blade tool; and Escape to deselect and go back to the pointer. With a
+ * time range selected, copy, cut and delete act on the range, deleting
+ * with ripple, and a copied range pastes by inserting it. Keys a control
+ * has already handled are left alone. Mount once.
+ */
+export function useSelectionShortcuts() {
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.defaultPrevented || isTextInput(e.target)) return;
+      if (e.metaKey || e.ctrlKey || e.altKey) {
+        const key = e.key.toLowerCase();
+        const { timeRange } = useSelectionStore.getState();
+        const command = (timeRange && RANGE_COMMANDS[key]) || COMMANDS[key];
+        if (command && !e.shiftKey && !e.altKey) {
+          e.preventDefault();
+          command();
+        }
+        return;
+      }
+      switch (e.key.toLowerCase()) {
+        case "delete":
+        case "backspace":
+          e.preventDefault();
+          if (useSelectionStore.getState().timeRange) deleteTimeRange();
+          else deleteSelection();
+          break;
+        case "arrowleft":
+        case "arrowright":
+          if (useSelectionStore.getState().selectedBlockIds.length === 0) {
+            return;
+          }
+          e.preventDefault();
+          nudgeSelection(e.key === "ArrowLeft" ? -1 : 1);
+          break;
+        case "s":
+          e.preventDefault();
+          splitAtPlayhead();
+          break;
+        case "b":
+          e.preventDefault();
+          toggleBladeTool();
+          break;
+        case "escape":
+          useSelectionStore.getState().clearSelection();
+          useTimelineStore.getState().setTool("pointer");
+          break;
+      }
+    };
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, []);
+}
@@ -0,0 +1,172 @@
+import { useAudioStore } from "@/features/core-audio/store/audioStore";
+import type { AudioBlock, Track } from "@/features/core-audio/types/audio";
+import {
+  createTempoMap,
+  secondsToTicks,
+  ticksToSeconds,
+} from "@/features/tempo-map/lib/tempo-map";
+import {
+  gridStepTicks,
+  snapToGridLine,
+} from "@/features/timeline-ruler/lib/grid";
+import { useTimelineStore } from "@/features/timeline-ruler/store/timelineStore";
+import { useTrackStore } from "@/features/track-manager/store/trackStore";
+import { useSelectionStore } from "../store/selectionStore";
+
+// Nudge step with snapping off
+const NUDGE_SECONDS = 0.01;
+
+export function getSelectedBlocks(
+  tracks: Track[],
+  blockIds: string[],
+): AudioBlock[] {
+  const ids = new Set(blockIds);
+  return tracks.flatMap((track) => track.blocks.filter((b) => ids.has(b.id)));
+}
+
+/**
+ * IDs of the blocks on `trackIds` that overlap `start`..`end` seconds, for
+ * marquee selection.
+ */
+export function getBlocksInRange(
+  tracks: Track[],
+  trackIds: string[],
+  start: number,
+  end: number,
+): string[] {
+  return tracks
+    .filter((track) => trackIds.includes(track.id))
+    .flatMap((track) =>
+      track.blocks.filter(
+        (b) => b.startTime < end && b.startTime + b.duration > start,
+      ),
+    )
+    .map((b) => b.id);
+}
+
+// The time from the first start to the last end of `blocks`
+export function getSelectionSpan(blocks: AudioBlock[]): {
+  start: number;
+  end: number;
+} {
+  return {
+    start: Math.min(...blocks.map((b) => b.startTime)),
+    end: Math.max(...blocks.map((b) => b.startTime + b.duration)),
+  };
+}
+
+const selected = () =>
+  getSelectedBlocks(
+    useTrackStore.getState().tracks,
+    useSelectionStore.getState().selectedBlockIds,
+  );
+
+/**
+ * Pointer selection on a clip: an additive click toggles it, a plain click
+ * selects it alone unless it is already part of the selection, which is
+ * then dragged as a group.
+ */
+export function selectBlockFromPointer(blockId: string, additive: boolean) {
+  const { selectedBlockIds, selectBlocks, toggleBlock } =
+    useSelectionStore.getState();
+  if (additive) toggleBlock(blockId);
+  else if (!selectedBlockIds.includes(blockId)) selectBlocks([blockId]);
+}
+
+export function selectAllBlocks() {
+  const { tracks } = useTrackStore.getState();
+  useSelectionStore
+    .getState()
+    .selectBlocks(tracks.flatMap((t) => t.blocks.map((b) => b.id)));
+}
+
+export function copySelection() {
+  const blocks = selected();
+  if (blocks.length > 0) useSelectionStore.getState().setClipboard(blocks);
+}
+
+export function deleteSelection() {
+  const { selectedBlockIds, clearSelection } = useSelectionStore.getState();
+  if (selectedBlockIds.length === 0) return;
+  useTrackStore.getState().removeBlocks(selectedBlockIds);
+  clearSelection();
+}
+
+export function cutSelection() {
+  copySelection();
+  deleteSelection();
+}
+
+/**
+ * Pastes the clipboard with its first block at the playhead, each copy on
+ * the track it was copied from, and selects the copies.
+ */
+export function pasteAtPlayhead() {
+  const { clipboard, selectBlocks } = useSelectionStore.getState();
+  if (clipboard.length === 0) return;
+  const { playheadPosition } = useAudioStore.getState();
+  const { start } = getSelectionSpan(clipboard);
+  selectBlocks(
+    useTrackStore
+      .getState()
+      .addBlockCopies(clipboard, playheadPosition - start),
+  );
+}
+
+// Copies the selection to start where it ends, and selects the copies
+export function duplicateSelection() {
+  const blocks = selected();
+  if (blocks.length === 0) return;
+  const { start, end } = getSelectionSpan(blocks);
+  useSelectionStore
+    .getState()
+    .selectBlocks(useTrackStore.getState().addBlockCopies(blocks, end - start));
+}
+
+/**
+ * Moves the selection one grid step earlier or later with snapping on,
+ * landing its first block on the grid; otherwise by a few milliseconds.
+ */
+export function nudgeSelection(direction: -1 | 1) {
+  const blocks = selected();
+  if (blocks.length === 0) return;
+  const { start } = getSelectionSpan(blocks);
+  let delta = direction * NUDGE_SECONDS;
+  const { snapToGrid, gridValue, pixelsPerSecond } =
+    useTimelineStore.getState();
+  if (snapToGrid) {
+    const map = createTempoMap(useAudioStore.getState());
+    const ticks = secondsToTicks(map, start);
+    const step =
+      direction * gridStepTicks(map, gridValue, ticks, pixelsPerSecond);
+    const target = ticksToSeconds(map, ticks + step);
+    delta = snapToGridLine(map, target, gridValue, pixelsPerSecond) - start;
+  }
+  useTrackStore.getState().moveBlocks(
+    blocks.map((b) => b.id),
+    delta,
+  );
+}
+
+/**
+ * Splits the selected clips at the playhead, or every clip under it when
+ * nothing is selected. Both parts of a selected clip stay selected.
+ */
+export function splitAtPlayhead() {
+  const { playheadPosition } = useAudioStore.getState();
+  const { tracks, splitBlocks } = useTrackStore.getState();
+  const { selectedBlockIds, selectBlocks } = useSelectionStore.getState();
+  const targets =
+    selectedBlockIds.length > 0
+      ? selectedBlockIds
+      : tracks.flatMap((t) => t.blocks.map((b) => b.id));
+  const created = splitBlocks(targets, playheadPosition);
+  if (selectedBlockIds.length > 0) {
+    selectBlocks([...selectedBlockIds, ...created]);
+  }
+}
+
+export function toggleBladeTool() {
+  const { tool, setTool } = useTimelineStore.getState();
+  setTool(tool === "blade" ? "pointer" : "blade");
+}
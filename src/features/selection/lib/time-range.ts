@@ -0,0 +1,96 @@
+import { useAudioStore } from "@/features/core-audio/store/audioStore";
+import type { AudioBlock, Track } from "@/features/core-audio/types/audio";
+import {
+  createTempoMap,
+  type TempoMap,
+} from "@/features/tempo-map/lib/tempo-map";
+import { rippleTime } from "@/features/track-manager/lib/arrangement";
+import { cropBlock } from "@/features/track-manager/lib/block-edits";
+import { useTrackStore } from "@/features/track-manager/store/trackStore";
+import { type TimeRange, useSelectionStore } from "../store/selectionStore";
+
+/**
+ * Copies of the parts of every clip inside `range`, cut at its edges.
+ */
+export function getRangeBlocks(
+  tracks: Track[],
+  range: TimeRange,
+  tempoMap: TempoMap,
+): AudioBlock[] {
+  return tracks.flatMap((track) =>
+    track.blocks.flatMap(
+      (b) => cropBlock(b, range.start, range.end, tempoMap) ?? [],
+    ),
+  );
+}
+
+// Moves the loop markers with the time after `at`. A loop removed whole
+// keeps its length from where the removed time began
+function rippleLoop(at: number, length: number) {
+  const { loopStart, loopEnd, setLoopPoints } = useAudioStore.getState();
+  const start = rippleTime(loopStart, at, length);
+  const end = rippleTime(loopEnd, at, length);
+  setLoopPoints(start, end > start ? end : start + (loopEnd - loopStart));
+}
+
+// Inserts `length` seconds at `at` across every track, and the loop with it
+function insertTime(at: number, length: number) {
+  useTrackStore.getState().insertTime(at, length);
+  rippleLoop(at, length);
+}
+
+const selectedRange = () => useSelectionStore.getState().timeRange;
+
+export function copyTimeRange() {
+  const range = selectedRange();
+  if (!range) return;
+  const map = createTempoMap(useAudioStore.getState());
+  useSelectionStore
+    .getState()
+    .setClipboard(
+      getRangeBlocks(useTrackStore.getState().tracks, range, map),
+      range,
+    );
+}
+
+/**
+ * Removes the selected range from every track and closes the gap: clips
+ * are cut at its edges, automation points inside it are dropped, and
+ * clips, automation and loop markers after it move earlier.
+ */
+export function deleteTimeRange() {
+  const range = selectedRange();
+  if (!range) return;
+  useTrackStore.getState().removeTime(range.start, range.end);
+  rippleLoop(range.start, range.start - range.end);
+  useSelectionStore.getState().setTimeRange(null);
+}
+
+export function cutTimeRange() {
+  copyTimeRange();
+  deleteTimeRange();
+}
+
+// Inserts silence as long as the selected range at its start
+export function insertSilence() {
+  const range = selectedRange();
+  if (range) insertTime(range.start, range.end - range.start);
+}
+
+/**
+ * Inserts a copied range at the playhead: everything from there moves later
+ * by the range's length, and the copied clips fill the gap. The gap is then
+ * the selected range.
+ */
+export function pasteInsert() {
+  const { clipboard, clipboardRange, setTimeRange } =
+    useSelectionStore.getState();
+  if (!clipboardRange) return;
+  const { playheadPosition } = useAudioStore.getState();
+  const length = clipboardRange.end - clipboardRange.start;
+  insertTime(playheadPosition, length);
+  useTrackStore
+    .getState()
+    .addBlockCopies(clipboard, playheadPosition - clipboardRange.start);
+  setTimeRange({ start: playheadPosition, end: playheadPosition + length });
+}
@@ -0,0 +1,56 @@
+import { create } from "zustand";
+import type { AudioBlock } from "@/features/core-audio/types/audio";
+
+// Seconds on the timeline, across every track
+export interface TimeRange {
+  start: number;
+  end: number;
+}
+
+// What is selected and copied is not part of the project or its history
+interface SelectionState {
+  selectedBlockIds: string[];
+  // Clips and a time range are not selected at the same time
+  timeRange: TimeRange | null;
+  // Copies of the blocks last copied or cut, as they were then
+  clipboard: AudioBlock[];
+  // The range the clipboard was copied from when it was a time range;
+  // pasting it inserts that much time
+  clipboardRange: TimeRange | null;
+}
+
+interface SelectionActions {
+  selectBlocks: (blockIds: string[]) => void;
+  toggleBlock: (blockId: string) => void;
+  setTimeRange: (range: TimeRange | null) => void;
+  clearSelection: () => void;
+  setClipboard: (blocks: AudioBlock[], range?: TimeRange | null) => void;
+}
+
+export const useSelectionStore = create<SelectionState & SelectionActions>(
+  (set) => ({
+    selectedBlockIds: [],
+    timeRange: null,
+    clipboard: [],
+    clipboardRange: null,
+
+    selectBlocks: (blockIds) =>
+      set({ selectedBlockIds: blockIds, timeRange: null }),
+
+    toggleBlock: (blockId) =>
+      set((state) => ({
+        selectedBlockIds: state.selectedBlockIds.includes(blockId)
+          ? state.selectedBlockIds.filter((id) => id !== blockId)
+          : [...state.selectedBlockIds, blockId],
+        timeRange: null,
+      })),
+
+    setTimeRange: (timeRange) =>
+      set(timeRange ? { timeRange, selectedBlockIds: [] } : { timeRange }),
+
+    clearSelection: () => set({ selectedBlockIds: [], timeRange: null }),
+
+    setClipboard: (clipboard, clipboardRange = null) =>
+      set({ clipboard, clipboardRange }),
+  }),
+);
@@ -0,0 +1,46 @@
+"use client";
+
+import { useState } from "react";
+import { Input } from "@/components/ui/input";
+import { cn } from "@/lib/utils";
+
+// Commits when left or on Enter, and only values within range, so a
+// half-typed number is left alone
+export function NumberField({
+  label,
+  value,
+  min,
+  max = Number.POSITIVE_INFINITY,
+  onChange,
+  className,
+}: {
+  label: string;
+  value: number;
+  min: number;
+  max?: number;
+  onChange: (value: number) => void;
+  className?: string;
+}) {
+  const [draft, setDraft] = useState<string | null>(null);
+  const commit = () => {
+    const next = Number.parseFloat(draft ?? "");
+    if (next >= min && next <= max && next !== value) onChange(next);
+    setDraft(null);
+  };
+  return (
+    <Input
+      type="number"
+      aria-label={label}
+      value={draft ?? value}
+      min={min}
+      max={Number.isFinite(max) ? max : undefined}
+      onBlur={commit}
+      onKeyDown={(e) => {
+        if (e.key === "Enter") commit();
+        else if (e.key === "Escape") setDraft(null);
+      }}
+      onChange={(e) => setDraft(e.target.value)}
+      className={cn("h-7 px-1.5 text-xs", className)}
+    />
+  );
+}
@@ -0,0 +1,262 @@
+"use client";
+
+import { Plus, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useAudioStore } from "@/features/core-audio/store/audioStore";
+import { cn } from "@/lib/utils";
+import { useTempoMap } from "../hooks/use-tempo-map";
+import {
+  MAX_BPM,
+  METER_DENOMINATORS,
+  METER_NUMERATORS,
+  MIN_BPM,
+  meterAtBar,
+  positionToTicks,
+  secondsToTicks,
+  tempoAt,
+  ticksToPosition,
+} from "../lib/tempo-map";
+import { NumberField } from "./NumberField";
+
+interface TempoMapDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+/**
+ * Lists the tempo and meter changes after the project tempo and time
+ * signature. Positions are entered in one-based bars and beats; new changes
+ * are added at the playhead.
+ */
+export function TempoMapDialog({ open, onOpenChange }: TempoMapDialogProps) {
+  const {
+    tempoEvents,
+    meterEvents,
+    playheadPosition,
+    addTempoEvent,
+    updateTempoEvent,
+    removeTempoEvent,
+    addMeterEvent,
+    updateMeterEvent,
+    removeMeterEvent,
+  } = useAudioStore();
+  const tempoMap = useTempoMap();
+  const playhead = ticksToPosition(
+    tempoMap,
+    secondsToTicks(tempoMap, playheadPosition),
+  );
+
+  const handleAddTempo = () => {
+    // The project tempo owns the very start, so begin no earlier than bar 2
+    const tick =
+      positionToTicks(tempoMap, { ...playhead, tick: 0 }) ||
+      positionToTicks(tempoMap, { bar: 1, beat: 0, tick: 0 });
+    addTempoEvent({
+      id: Math.random().toString(36).substring(7),
+      tick,
+      bpm: Math.round(tempoAt(tempoMap, playheadPosition)),
+      ramp: false,
+    });
+  };
+
+  const handleAddMeter = () => {
+    // Meters change on a bar line, so take the next one
+    const bar = Math.max(1, playhead.bar + 1);
+    const { numerator, denominator } = meterAtBar(tempoMap, bar);
+    addMeterEvent({
+      id: Math.random().toString(36).substring(7),
+      bar,
+      numerator,
+      denominator,
+    });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Tempo Map</DialogTitle>
+          <DialogDescription>
+            Tempo and time signature changes after the project tempo. A ramp
+            glides from the previous tempo to arrive at its own.
+          </DialogDescription>
+        </DialogHeader>
+
+        <section className="space-y-2">
+          <div className="flex items-center justify-between">
+            <h3 className="text-xs font-bold uppercase tracking-wider text-muted-foreground">
+              Tempo
+            </h3>
+            <Button variant="outline" size="sm" onClick={handleAddTempo}>
+              <Plus className="w-4 h-4" /> Add at Playhead
+            </Button>
+          </div>
+          {tempoEvents.length === 0 ? (
+            <p className="py-2 text-center text-xs italic text-muted-foreground">
+              No tempo changes.
+            </p>
+          ) : (
+            tempoEvents.map((event) => {
+              const position = ticksToPosition(tempoMap, event.tick);
+              const move = (bar: number, beat: number) => {
+                const tick = positionToTicks(tempoMap, { bar, beat, tick: 0 });
+                if (tick > 0) updateTempoEvent(event.id, { tick });
+              };
+              return (
+                <div
+                  key={event.id}
+                  className="flex items-center gap-2 rounded-md border border-border bg-background/50 px-3 py-2 text-xs"
+                >
+                  <span className="text-muted-foreground">Bar</span>
+                  <NumberField
+                    label="Bar"
+                    value={position.bar + 1}
+                    min={1}
+                    onChange={(bar) => move(Math.round(bar) - 1, position.beat)}
+                    className="w-12"
+                  />
+                  <span className="text-muted-foreground">Beat</span>
+                  <NumberField
+                    label="Beat"
+                    value={position.beat + 1}
+                    min={1}
+                    max={meterAtBar(tempoMap, position.bar).numerator}
+                    onChange={(beat) =>
+                      move(position.bar, Math.round(beat) - 1)
+                    }
+                    className="w-10"
+                  />
+                  <NumberField
+                    label="Tempo"
+                    value={event.bpm}
+                    min={MIN_BPM}
+                    max={MAX_BPM}
+                    onChange={(bpm) => updateTempoEvent(event.id, { bpm })}
+                    className="w-14"
+                  />
+                  <span className="text-muted-foreground">BPM</span>
+                  <button
+                    type="button"
+                    aria-pressed={event.ramp}
+                    onClick={() =>
+                      updateTempoEvent(event.id, { ramp: !event.ramp })
+                    }
+                    className={cn(
+                      "ml-auto h-6 w-12 rounded text-[10px] font-bold transition",
+                      event.ramp
+                        ? "bg-primary text-background"
+                        : "border border-border bg-card text-muted-foreground hover:text-foreground",
+                    )}
+                  >
+                    {event.ramp ? "RAMP" : "JUMP"}
+                  </button>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    aria-label="Remove Tempo Change"
+                    onClick={() => removeTempoEvent(event.id)}
+                    className="h-6 w-6 text-muted-foreground hover:text-rose-500"
+                  >
+                    <Trash2 className="w-3.5 h-3.5" />
+                  </Button>
+                </div>
+              );
+            })
+          )}
+        </section>
+
+        <section className="space-y-2">
+          <div className="flex items-center justify-between">
+            <h3 className="text-xs font-bold uppercase tracking-wider text-muted-foreground">
+              Time Signature
+            </h3>
+            <Button variant="outline" size="sm" onClick={handleAddMeter}>
+              <Plus className="w-4 h-4" /> Add at Next Bar
+            </Button>
+          </div>
+          {meterEvents.length === 0 ? (
+            <p className="py-2 text-center text-xs italic text-muted-foreground">
+              No time signature changes.
+            </p>
+          ) : (
+            meterEvents.map((event) => (
+              <div
+                key={event.id}
+                className="flex items-center gap-2 rounded-md border border-border bg-background/50 px-3 py-2 text-xs"
+              >
+                <span className="text-muted-foreground">Bar</span>
+                <NumberField
+                  label="Bar"
+                  value={event.bar + 1}
+                  min={2}
+                  onChange={(bar) =>
+                    updateMeterEvent(event.id, { bar: Math.round(bar) - 1 })
+                  }
+                  className="w-12"
+                />
+                <Select
+                  value={String(event.numerator)}
+                  onValueChange={(value) =>
+                    updateMeterEvent(event.id, { numerator: Number(value) })
+                  }
+                >
+                  <SelectTrigger aria-label="Beats per Bar" className="h-7">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {METER_NUMERATORS.map((n) => (
+                      <SelectItem key={n} value={String(n)}>
+                        {n}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <span className="text-muted-foreground">/</span>
+                <Select
+                  value={String(event.denominator)}
+                  onValueChange={(value) =>
+                    updateMeterEvent(event.id, { denominator: Number(value) })
+                  }
+                >
+                  <SelectTrigger aria-label="Beat Value" className="h-7">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {METER_DENOMINATORS.map((d) => (
+                      <SelectItem key={d} value={String(d)}>
+                        {d}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  aria-label="Remove Time Signature Change"
+                  onClick={() => removeMeterEvent(event.id)}
+                  className="ml-auto h-6 w-6 text-muted-foreground hover:text-rose-500"
+                >
+                  <Trash2 className="w-3.5 h-3.5" />
+                </Button>
+              </div>
+            ))
+          )}
+        </section>
+      </DialogContent>
+    </Dialog>
+  );
+}
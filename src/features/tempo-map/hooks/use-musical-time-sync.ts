@@ -0,0 +1,12 @@
+"use client";
+
+import { useEffect } from "react";
+import { startMusicalTimeSync } from "../lib/musical-time";
+
+/**
+ * Moves musical clips with tempo and meter changes for as long as the
+ * calling component is mounted. Mount once.
+ */
+export function useMusicalTimeSync() {
+  useEffect(() => startMusicalTimeSync(), []);
+}
@@ -0,0 +1,19 @@
+"use client";
+
+import { useMemo } from "react";
+import { useAudioStore } from "@/features/core-audio/store/audioStore";
+import { createTempoMap, type TempoMap } from "../lib/tempo-map";
+
+/**
+ * The project's tempo map, rebuilt only when the tempo or meter changes.
+ */
+export function useTempoMap(): TempoMap {
+  const bpm = useAudioStore((s) => s.bpm);
+  const timeSignature = useAudioStore((s) => s.timeSignature);
+  const tempoEvents = useAudioStore((s) => s.tempoEvents);
+  const meterEvents = useAudioStore((s) => s.meterEvents);
+  return useMemo(
+    () => createTempoMap({ bpm, timeSignature, tempoEvents, meterEvents }),
+    [bpm, timeSignature, tempoEvents, meterEvents],
+  );
+}
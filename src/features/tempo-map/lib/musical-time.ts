@@ -0,0 +1,82 @@
+import { useAudioStore } from "@/features/core-audio/store/audioStore";
+import type { AudioState, Track } from "@/features/core-audio/types/audio";
+import { isRestoringHistory } from "@/features/history/lib/history";
+import { useTrackStore } from "@/features/track-manager/store/trackStore";
+import { getWarpRate } from "@/features/warp/lib/warp";
+import {
+  createTempoMap,
+  secondsToTicks,
+  type TempoMap,
+  ticksToSeconds,
+} from "./tempo-map";
+
+function tempoChanged(a: AudioState, b: AudioState): boolean {
+  return (
+    a.bpm !== b.bpm ||
+    a.timeSignature !== b.timeSignature ||
+    a.tempoEvents !== b.tempoEvents ||
+    a.meterEvents !== b.meterEvents
+  );
+}
+
+/**
+ * Places every block under a new tempo map: musical blocks move to where
+ * their tick now falls, seconds blocks stay put and take the tick they now
+ * sit on, and stretched blocks change length to keep playing the same part
+ * of their source. Tracks and blocks that do not change keep their
+ * identity, and the list itself is returned when nothing moved.
+ */
+export function retimeBlocks(
+  tracks: Track[],
+  previousMap: TempoMap,
+  map: TempoMap,
+): Track[] {
+  let changed = false;
+  const next = tracks.map((track) => {
+    let moved = false;
+    const blocks = track.blocks.map((block) => {
+      let { startTime, startTick, duration } = block;
+      if (block.timebase === "musical") {
+        startTime = ticksToSeconds(map, startTick);
+      } else {
+        startTick = secondsToTicks(map, startTime);
+      }
+      if (block.warp.enabled) {
+        duration =
+          (duration * getWarpRate(block.warp, previousMap, block.startTime)) /
+          getWarpRate(block.warp, map, startTime);
+      }
+      if (
+        startTime === block.startTime &&
+        startTick === block.startTick &&
+        duration === block.duration
+      ) {
+        return block;
+      }
+      moved = true;
+      return { ...block, startTime, startTick, duration };
+    });
+    if (!moved) return track;
+    changed = true;
+    return { ...track, blocks };
+  });
+  return changed ? next : tracks;
+}
+
+/**
+ * Retimes the arrangement whenever the tempo or meter changes. Undo and redo
+ * restore positions that already match their tempo map, so they are left
+ * alone. Returns a function that stops following.
+ */
+export function startMusicalTimeSync(): () => void {
+  return useAudioStore.subscribe((state, prev) => {
+    if (!tempoChanged(state, prev) || isRestoringHistory()) return;
+    const { tracks } = useTrackStore.getState();
+    const next = retimeBlocks(
+      tracks,
+      createTempoMap(prev),
+      createTempoMap(state),
+    );
+    if (next !== tracks) useTrackStore.setState({ tracks: next });
+  });
+}
@@ -0,0 +1,251 @@
+import type {
+  AudioState,
+  ClipTimebase,
+} from "@/features/core-audio/types/audio";
+import type { MeterEvent, MusicalPosition, TempoEvent } from "../types/tempo";
+
+// Ticks per quarter note
+export const PPQ = 960;
+
+export const DEFAULT_BPM = 120;
+export const MIN_BPM = 20;
+export const MAX_BPM = 999;
+
+export const METER_NUMERATORS = Array.from({ length: 16 }, (_, i) => i + 1);
+export const METER_DENOMINATORS = [2, 4, 8, 16];
+
+export const CLIP_TIMEBASES: ClipTimebase[] = ["musical", "seconds"];
+
+export function isClipTimebase(value: unknown): value is ClipTimebase {
+  return CLIP_TIMEBASES.includes(value as ClipTimebase);
+}
+
+export type TempoSettings = Pick<
+  AudioState,
+  "bpm" | "timeSignature" | "tempoEvents" | "meterEvents"
+>;
+
+// A stretch between two tempo events, constant or ramping linearly in time
+interface TempoSegment {
+  tick: number;
+  seconds: number;
+  bpm: number;
+  endBpm: number;
+  endTick: number; // Infinity for the last segment
+  duration: number; // Seconds; Infinity for the last segment
+}
+
+export interface MeterSegment {
+  bar: number;
+  tick: number;
+  numerator: number;
+  denominator: number;
+  ticksPerBeat: number;
+  ticksPerBar: number;
+}
+
+/**
+ * The project's tempo and meter changes resolved into segments, for
+ * converting between seconds, ticks and bars. Build it with
+ * `createTempoMap` and treat it as immutable.
+ */
+export interface TempoMap {
+  tempos: TempoSegment[];
+  meters: MeterSegment[];
+}
+
+export function clampBpm(bpm: number): number {
+  if (!Number.isFinite(bpm)) return DEFAULT_BPM;
+  return Math.min(MAX_BPM, Math.max(MIN_BPM, bpm));
+}
+
+export function sortTempoEvents(events: TempoEvent[]): TempoEvent[] {
+  return [...events].sort((a, b) => a.tick - b.tick);
+}
+
+export function sortMeterEvents(events: MeterEvent[]): MeterEvent[] {
+  return [...events].sort((a, b) => a.bar - b.bar);
+}
+
+function createMeterSegment(
+  bar: number,
+  tick: number,
+  numerator: number,
+  denominator: number,
+): MeterSegment {
+  const ticksPerBeat = (PPQ * 4) / Math.max(1, denominator);
+  return {
+    bar,
+    tick,
+    numerator,
+    denominator,
+    ticksPerBeat,
+    ticksPerBar: ticksPerBeat * Math.max(1, numerator),
+  };
+}
+
+/**
+ * Resolves the project tempo and time signature, which hold from the start,
+ * and the change events after them. Events at the very start are ignored;
+ * of several events at one position the last wins.
+ */
+export function createTempoMap(settings: TempoSettings): TempoMap {
+  const tempos: TempoSegment[] = [];
+  let tick = 0;
+  let seconds = 0;
+  let bpm = clampBpm(settings.bpm);
+  for (const event of sortTempoEvents(settings.tempoEvents)) {
+    if (event.tick <= tick) {
+      if (event.tick > 0) bpm = clampBpm(event.bpm);
+      continue;
+    }
+    const nextBpm = clampBpm(event.bpm);
+    const endBpm = event.ramp ? nextBpm : bpm;
+    // Linear in time, so the average tempo gives the length
+    const duration = ((event.tick - tick) * 60) / (PPQ * ((bpm + endBpm) / 2));
+    tempos.push({ tick, seconds, bpm, endBpm, endTick: event.tick, duration });
+    tick = event.tick;
+    seconds += duration;
+    bpm = nextBpm;
+  }
+  tempos.push({
+    tick,
+    seconds,
+    bpm,
+    endBpm: bpm,
+    endTick: Number.POSITIVE_INFINITY,
+    duration: Number.POSITIVE_INFINITY,
+  });
+
+  const [numerator, denominator] = settings.timeSignature;
+  const meters = [createMeterSegment(0, 0, numerator, denominator)];
+  for (const event of sortMeterEvents(settings.meterEvents)) {
+    if (event.bar <= 0) continue;
+    const previous = meters[meters.length - 1];
+    const segment = createMeterSegment(
+      event.bar,
+      previous.tick + (event.bar - previous.bar) * previous.ticksPerBar,
+      event.numerator,
+      event.denominator,
+    );
+    if (event.bar === previous.bar) meters[meters.length - 1] = segment;
+    else meters.push(segment);
+  }
+
+  return { tempos, meters };
+}
+
+function findLast<T>(items: T[], match: (item: T) => boolean): T {
+  for (let i = items.length - 1; i > 0; i--) {
+    if (match(items[i])) return items[i];
+  }
+  return items[0];
+}
+
+// Half the tempo change per second: ticks follow bpm * s + rate * s^2
+function rampRate(segment: TempoSegment): number {
+  return (segment.endBpm - segment.bpm) / (2 * segment.duration);
+}
+
+export function ticksToSeconds(map: TempoMap, ticks: number): number {
+  const segment = findLast(map.tempos, (s) => s.tick <= ticks);
+  // Quarter notes times 60, in beat-seconds
+  const q = ((ticks - segment.tick) / PPQ) * 60;
+  if (segment.endBpm === segment.bpm || q <= 0) {
+    return segment.seconds + q / segment.bpm;
+  }
+  const rate = rampRate(segment);
+  return (
+    segment.seconds +
+    (2 * q) / (segment.bpm + Math.sqrt(segment.bpm ** 2 + 4 * rate * q))
+  );
+}
+
+export function secondsToTicks(map: TempoMap, seconds: number): number {
+  const segment = findLast(map.tempos, (s) => s.seconds <= seconds);
+  const elapsed = seconds - segment.seconds;
+  const rate =
+    segment.endBpm === segment.bpm || elapsed <= 0 ? 0 : rampRate(segment);
+  return (
+    segment.tick + ((segment.bpm * elapsed + rate * elapsed ** 2) / 60) * PPQ
+  );
+}
+
+// Tempo in quarter notes per minute at a time in seconds
+export function tempoAt(map: TempoMap, seconds: number): number {
+  const segment = findLast(map.tempos, (s) => s.seconds <= seconds);
+  if (segment.endBpm === segment.bpm) return segment.bpm;
+  const progress = Math.max(0, (seconds - segment.seconds) / segment.duration);
+  return segment.bpm + (segment.endBpm - segment.bpm) * Math.min(1, progress);
+}
+
+export function meterAtTick(map: TempoMap, ticks: number): MeterSegment {
+  return findLast(map.meters, (m) => m.tick <= ticks);
+}
+
+export function meterAtBar(map: TempoMap, bar: number): MeterSegment {
+  return findLast(map.meters, (m) => m.bar <= bar);
+}
+
+export function ticksToPosition(map: TempoMap, ticks: number): MusicalPosition {
+  const meter = meterAtTick(map, ticks);
+  const inMeter = ticks - meter.tick;
+  const bars = Math.floor(inMeter / meter.ticksPerBar);
+  const inBar = inMeter - bars * meter.ticksPerBar;
+  const beat = Math.floor(inBar / meter.ticksPerBeat);
+  return {
+    bar: meter.bar + bars,
+    beat,
+    tick: inBar - beat * meter.ticksPerBeat,
+  };
+}
+
+export function positionToTicks(
+  map: TempoMap,
+  { bar, beat, tick }: MusicalPosition,
+): number {
+  const meter = meterAtBar(map, bar);
+  return (
+    meter.tick +
+    (bar - meter.bar) * meter.ticksPerBar +
+    beat * meter.ticksPerBeat +
+    tick
+  );
+}
+
+// One-based bars and beats, as shown on the ruler: "5.2.480"
+export function formatPosition({ bar, beat, tick }: MusicalPosition): string {
+  const ticks = String(Math.floor(tick)).padStart(3, "0");
+  return `${bar + 1}.${beat + 1}.${ticks}`;
+}
+
+export interface GridLine {
+  seconds: number;
+  bar: number;
+  beat: number; // 0 on the downbeat
+}
+
+/**
+ * Every bar and beat line from the bar containing `from` up to `to`, both in
+ * seconds, following tempo and meter changes.
+ */
+export function getGridLines(
+  map: TempoMap,
+  from: number,
+  to: number,
+): GridLine[] {
+  const lines: GridLine[] = [];
+  if (!Number.isFinite(to)) return lines;
+  let { bar } = ticksToPosition(map, secondsToTicks(map, Math.max(0, from)));
+  for (;;) {
+    const meter = meterAtBar(map, bar);
+    const barTick = positionToTicks(map, { bar, beat: 0, tick: 0 });
+    if (ticksToSeconds(map, barTick) > to) break;
+    for (let beat = 0; beat < meter.numerator; beat++) {
+      const seconds = ticksToSeconds(map, barTick + beat * meter.ticksPerBeat);
+      lines.push({ seconds, bar, beat });
+    }
+    bar += 1;
+  }
+  return lines;
+}
@@ -0,0 +1,23 @@
+// Tempo is counted in quarter notes per minute whatever the meter, as Tone.js
+// does. Positions are in ticks, PPQ to the quarter note.
+export interface TempoEvent {
+  id: string;
+  tick: number;
+  bpm: number;
+  ramp: boolean; // Glide linearly from the previous tempo to arrive at this one
+}
+
+// Meter changes take effect at the start of a bar
+export interface MeterEvent {
+  id: string;
+  bar: number; // Zero-based; bar 0 always uses the project time signature
+  numerator: number;
+  denominator: number;
+}
+
+// Zero-based position within the arrangement
+export interface MusicalPosition {
+  bar: number;
+  beat: number;
+  tick: number;
+}
@@ -0,0 +1,88 @@
+"use client";
+
+import { ChevronDown } from "lucide-react";
+import {
+  DropdownMenu,
+  DropdownMenuCheckboxItem,
+  DropdownMenuContent,
+  DropdownMenuLabel,
+  DropdownMenuRadioGroup,
+  DropdownMenuRadioItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { cn } from "@/lib/utils";
+import { GRID_VALUE_LABELS, GRID_VALUES, isGridValue } from "../lib/grid";
+import { useTimelineStore } from "../store/timelineStore";
+import type { SnapTarget } from "../types/grid";
+
+const SNAP_TARGET_LABELS: Record<SnapTarget, string> = {
+  clips: "Clip Edges",
+  loop: "Loop Points",
+  markers: "Tempo and Meter Markers",
+  playhead: "Playhead",
+};
+
+/**
+ * Picks the grid value and what else times snap to. Ctrl or Cmd held
+ * during a drag bypasses snapping.
+ */
+export function GridMenu() {
+  const snapToGrid = useTimelineStore((s) => s.snapToGrid);
+  const gridValue = useTimelineStore((s) => s.gridValue);
+  const snapTargets = useTimelineStore((s) => s.snapTargets);
+  const setGridValue = useTimelineStore((s) => s.setGridValue);
+  const toggleSnapTarget = useTimelineStore((s) => s.toggleSnapTarget);
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <button
+          type="button"
+          aria-label="Grid"
+          className={cn(
+            "h-8 flex items-center gap-1 rounded-full px-2 font-mono text-[10px] font-bold transition hover:bg-accent",
+            snapToGrid
+              ? "text-foreground"
+              : "text-muted-foreground hover:text-foreground",
+          )}
+        >
+          {gridValue === "adaptive" ? "Auto" : gridValue}
+          <ChevronDown className="w-3 h-3 opacity-60" />
+        </button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="start" className="w-52">
+        <DropdownMenuLabel>Grid</DropdownMenuLabel>
+        <DropdownMenuRadioGroup
+          value={gridValue}
+          onValueChange={(value) => {
+            if (isGridValue(value)) setGridValue(value);
+          }}
+        >
+          {GRID_VALUES.map((value) => (
+            <DropdownMenuRadioItem key={value} value={value}>
+              {GRID_VALUE_LABELS[value]}
+            </DropdownMenuRadioItem>
+          ))}
+        </DropdownMenuRadioGroup>
+        <DropdownMenuSeparator />
+        <DropdownMenuLabel>Snap To</DropdownMenuLabel>
+        {(Object.keys(SNAP_TARGET_LABELS) as SnapTarget[]).map((target) => (
+          <DropdownMenuCheckboxItem
+            key={target}
+            checked={snapTargets.includes(target)}
+            onCheckedChange={() => toggleSnapTarget(target)}
+            // Keeps the menu open to set several
+            onSelect={(e) => e.preventDefault()}
+          >
+            {SNAP_TARGET_LABELS[target]}
+          </DropdownMenuCheckboxItem>
+        ))}
+        <DropdownMenuSeparator />
+        <p className="px-2 py-1.5 text-[10px] text-muted-foreground">
+          Hold Ctrl/Cmd while dragging to bypass snapping
+        </p>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
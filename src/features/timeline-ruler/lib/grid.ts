@@ -0,0 +1,146 @@
+import {
+  meterAtBar,
+  meterAtTick,
+  PPQ,
+  positionToTicks,
+  secondsToTicks,
+  type TempoMap,
+  tempoAt,
+  ticksToPosition,
+  ticksToSeconds,
+} from "@/features/tempo-map/lib/tempo-map";
+import type { GridValue } from "../types/grid";
+
+export const GRID_VALUES: GridValue[] = [
+  "adaptive",
+  "bar",
+  "1/2",
+  "1/4",
+  "1/8",
+  "1/16",
+  "1/4T",
+  "1/8T",
+  "1/16T",
+  "1/4.",
+  "1/8.",
+  "1/16.",
+];
+
+export const GRID_VALUE_LABELS: Record<GridValue, string> = {
+  adaptive: "Adaptive",
+  bar: "Bar",
+  "1/2": "1/2",
+  "1/4": "1/4",
+  "1/8": "1/8",
+  "1/16": "1/16",
+  "1/4T": "1/4 Triplet",
+  "1/8T": "1/8 Triplet",
+  "1/16T": "1/16 Triplet",
+  "1/4.": "1/4 Dotted",
+  "1/8.": "1/8 Dotted",
+  "1/16.": "1/16 Dotted",
+};
+
+// Note values in ticks
+const NOTE_TICKS: Record<Exclude<GridValue, "adaptive" | "bar">, number> = {
+  "1/2": PPQ * 2,
+  "1/4": PPQ,
+  "1/8": PPQ / 2,
+  "1/16": PPQ / 4,
+  "1/4T": (PPQ * 2) / 3,
+  "1/8T": PPQ / 3,
+  "1/16T": PPQ / 6,
+  "1/4.": (PPQ * 3) / 2,
+  "1/8.": (PPQ * 3) / 4,
+  "1/16.": (PPQ * 3) / 8,
+};
+
+// The adaptive grid keeps its lines at least this many pixels apart,
+// choosing from these note values before whole bars
+const MIN_GRID_PIXELS = 12;
+const ADAPTIVE_NOTES = [PPQ / 4, PPQ / 2, PPQ, PPQ * 2];
+
+export function isGridValue(value: unknown): value is GridValue {
+  return GRID_VALUES.includes(value as GridValue);
+}
+
+/**
+ * Length in ticks of a grid step around `ticks`. Bars follow the meter
+ * there; the adaptive grid also follows the tempo and zoom, growing to
+ * doublings of a bar when zoomed far out.
+ */
+export function gridStepTicks(
+  map: TempoMap,
+  grid: GridValue,
+  ticks: number,
+  pixelsPerSecond: number,
+): number {
+  const { ticksPerBar } = meterAtTick(map, ticks);
+  if (grid === "bar") return ticksPerBar;
+  if (grid !== "adaptive") return NOTE_TICKS[grid];
+
+  const bpm = tempoAt(map, ticksToSeconds(map, ticks));
+  const minTicks = (MIN_GRID_PIXELS / pixelsPerSecond) * (bpm / 60) * PPQ;
+  const note = ADAPTIVE_NOTES.find((t) => t < ticksPerBar && t >= minTicks);
+  if (note) return note;
+  let bars = 1;
+  while (bars * ticksPerBar < minTicks) bars *= 2;
+  return bars * ticksPerBar;
+}
+
+/**
+ * The nearest grid line to a time in seconds. Steps shorter than a bar
+ * start again at every bar line, so uneven ones like dotted notes stay in
+ * step with the bars; longer ones count from the last meter change.
+ */
+export function snapToGridLine(
+  map: TempoMap,
+  seconds: number,
+  grid: GridValue,
+  pixelsPerSecond: number,
+): number {
+  const ticks = secondsToTicks(map, seconds);
+  const meter = meterAtTick(map, ticks);
+  const step = gridStepTicks(map, grid, ticks, pixelsPerSecond);
+  let origin = meter.tick;
+  let limit = Number.POSITIVE_INFINITY;
+  if (step < meter.ticksPerBar) {
+    const bars = Math.floor((ticks - meter.tick) / meter.ticksPerBar);
+    origin = meter.tick + bars * meter.ticksPerBar;
+    limit = origin + meter.ticksPerBar;
+  }
+  const below = origin + Math.floor((ticks - origin) / step) * step;
+  const above = Math.min(limit, below + step);
+  return ticksToSeconds(map, ticks - below <= above - ticks ? below : above);
+}
+
+/**
+ * The grid lines between bar lines from the bar containing `from` up to
+ * `to`, both in seconds. Bar lines themselves come from `getGridLines`.
+ */
+export function getGridDivisions(
+  map: TempoMap,
+  from: number,
+  to: number,
+  grid: GridValue,
+  pixelsPerSecond: number,
+): number[] {
+  const lines: number[] = [];
+  if (!Number.isFinite(to)) return lines;
+  let { bar } = ticksToPosition(map, secondsToTicks(map, Math.max(0, from)));
+  for (;;) {
+    const barTick = positionToTicks(map, { bar, beat: 0, tick: 0 });
+    if (ticksToSeconds(map, barTick) > to) break;
+    const { ticksPerBar } = meterAtBar(map, bar);
+    const step = gridStepTicks(map, grid, barTick, pixelsPerSecond);
+    for (
+      let tick = barTick + step;
+      tick < barTick + ticksPerBar;
+      tick += step
+    ) {
+      lines.push(ticksToSeconds(map, tick));
+    }
+    bar += 1;
+  }
+  return lines;
+}
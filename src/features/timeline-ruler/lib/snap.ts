@@ -0,0 +1,127 @@
+import { useAudioStore } from "@/features/core-audio/store/audioStore";
+import {
+  createTempoMap,
+  positionToTicks,
+  type TempoMap,
+  ticksToSeconds,
+} from "@/features/tempo-map/lib/tempo-map";
+import { useTrackStore } from "@/features/track-manager/store/trackStore";
+import { useTimelineStore } from "../store/timelineStore";
+import type { GridValue } from "../types/grid";
+import { snapToGridLine } from "./grid";
+
+// How near in pixels a time has to come to a target to snap to it
+const SNAP_PIXELS = 8;
+
+/**
+ * The grid and targets times snap to, as they were when it was created.
+ * Targets win over the grid when within reach.
+ */
+export interface Snapper {
+  tempoMap: TempoMap;
+  grid: GridValue;
+  pixelsPerSecond: number;
+  points: number[];
+}
+
+// What a drag should not snap to: the blocks or loop markers it moves
+interface SnapExclusions {
+  blockIds?: string[];
+  loop?: boolean;
+}
+
+/**
+ * Holding Ctrl or Cmd during a drag turns snapping off until released.
+ * Where Ctrl/Cmd-click already means something (adding a clip to the
+ * selection, drawing a loop on the ruler) the key held from the click does
+ * not count; pressing it again during the drag does.
+ */
+export function bypassesSnap(e: { ctrlKey: boolean; metaKey: boolean }) {
+  return e.ctrlKey || e.metaKey;
+}
+
+/**
+ * A snapper for the timeline as it is now, or null with snapping off.
+ */
+export function createSnapper(exclude: SnapExclusions = {}): Snapper | null {
+  const { snapToGrid, gridValue, snapTargets, pixelsPerSecond } =
+    useTimelineStore.getState();
+  if (!snapToGrid) return null;
+  const audio = useAudioStore.getState();
+  const tempoMap = createTempoMap(audio);
+  const points: number[] = [];
+
+  if (snapTargets.includes("clips")) {
+    const excluded = new Set(exclude.blockIds);
+    for (const track of useTrackStore.getState().tracks) {
+      for (const b of track.blocks) {
+        if (excluded.has(b.id)) continue;
+        points.push(b.startTime, b.startTime + b.duration);
+      }
+    }
+  }
+  if (snapTargets.includes("loop") && !exclude.loop) {
+    points.push(audio.loopStart, audio.loopEnd);
+  }
+  if (snapTargets.includes("markers")) {
+    for (const event of audio.tempoEvents) {
+      points.push(ticksToSeconds(tempoMap, event.tick));
+    }
+    for (const event of audio.meterEvents) {
+      const ticks = positionToTicks(tempoMap, {
+        bar: event.bar,
+        beat: 0,
+        tick: 0,
+      });
+      points.push(ticksToSeconds(tempoMap, ticks));
+    }
+  }
+  if (snapTargets.includes("playhead")) points.push(audio.playheadPosition);
+
+  return { tempoMap, grid: gridValue, pixelsPerSecond, points };
+}
+
+// The target nearest `time`, when one is within reach
+function nearestPoint(snapper: Snapper, time: number): number | null {
+  let nearest: number | null = null;
+  let distance = SNAP_PIXELS / snapper.pixelsPerSecond;
+  for (const point of snapper.points) {
+    if (Math.abs(point - time) <= distance) {
+      nearest = point;
+      distance = Math.abs(point - time);
+    }
+  }
+  return nearest;
+}
+
+const toGrid = (snapper: Snapper, time: number) =>
+  snapToGridLine(snapper.tempoMap, time, snapper.grid, snapper.pixelsPerSecond);
+
+// `time` snapped to the nearest target within reach, otherwise to the grid
+export function snapTime(snapper: Snapper | null, time: number): number {
+  if (!snapper) return time;
+  return nearestPoint(snapper, time) ?? toGrid(snapper, time);
+}
+
+/**
+ * Where something `duration` seconds long starting at `start` snaps to:
+ * by whichever edge is nearer a target, otherwise its start to the grid.
+ */
+export function snapSpan(
+  snapper: Snapper | null,
+  start: number,
+  duration: number,
+): number {
+  if (!snapper) return start;
+  const atStart = nearestPoint(snapper, start);
+  const atEnd = nearestPoint(snapper, start + duration);
+  if (
+    atStart !== null &&
+    (atEnd === null ||
+      Math.abs(atStart - start) <= Math.abs(atEnd - start - duration))
+  ) {
+    return atStart;
+  }
+  if (atEnd !== null) return atEnd - duration;
+  return toGrid(snapper, start);
+}
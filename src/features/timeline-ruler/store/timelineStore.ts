@@ -1,4 +1,8 @@
 import { create } from "zustand";
+import type { GridValue, SnapTarget } from "../types/grid";
+
+// Pointer selects and drags clips; blade splits them where clicked
+export type TimelineTool = "pointer" | "blade";
 
 interface TimelineState {
     // Zoom and Scale
@@ -7,15 +11,26 @@ interface TimelineState {
 
     // Snap and Scroll
     snapToGrid: boolean;
+    gridValue: GridValue;
+    snapTargets: SnapTarget[];
     autoScroll: boolean;
     scrollLeft: number;
 
+    // Tracks whose automation lanes are shown
+    expandedAutomation: string[];
+
+    tool: TimelineTool;
+
     // Actions
     setZoomLevel: (level: number) => void;
     setPixelsPerSecond: (pps: number) => void;
     toggleSnap: () => void;
+    setGridValue: (value: GridValue) => void;
+    toggleSnapTarget: (target: SnapTarget) => void;
     toggleAutoScroll: () => void;
     setScrollLeft: (scroll: number) => void;
+    toggleAutomation: (trackId: string) => void;
+    setTool: (tool: TimelineTool) => void;
 }
 
 export const useTimelineStore = create<TimelineState>((set) => ({
@@ -23,13 +38,31 @@ export const useTimelineStore = create<TimelineState>((set) => ({
     zoomLevel: 5,         // Let's say index 5 is 100% zoom
 
     snapToGrid: true,
+    gridValue: "adaptive",
+    snapTargets: ["clips", "loop", "markers", "playhead"],
     autoScroll: true,
     scrollLeft: 0,
+    expandedAutomation: [],
+    tool: "pointer",
 
     setZoomLevel: (level) => set({ zoomLevel: level }),
     setPixelsPerSecond: (pps) => set({ pixelsPerSecond: pps }),
     toggleSnap: () => set((state) => ({ snapToGrid: !state.snapToGrid })),
+    setGridValue: (value) => set({ gridValue: value }),
+    toggleSnapTarget: (target) =>
+        set((state) => ({
+            snapTargets: state.snapTargets.includes(target)
+                ? state.snapTargets.filter((t) => t !== target)
+                : [...state.snapTargets, target],
+        })),
     toggleAutoScroll: () => set((state) => ({ autoScroll: !state.autoScroll })),
     setScrollLeft: (scroll) => set({ scrollLeft: scroll }),
+    toggleAutomation: (trackId) =>
+        set((state) => ({
+            expandedAutomation: state.expandedAutomation.includes(trackId)
+                ? state.expandedAutomation.filter((id) => id !== trackId)
+                : [...state.expandedAutomation, trackId],
+        })),
+    setTool: (tool) => set({ tool }),
 }));
 
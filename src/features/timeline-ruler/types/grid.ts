@@ -0,0 +1,18 @@
+// Note values the grid divides bars into: "T" for triplets, "." for dotted.
+// Adaptive picks a value that keeps lines apart at the current zoom
+export type GridValue =
+  | "adaptive"
+  | "bar"
+  | "1/2"
+  | "1/4"
+  | "1/8"
+  | "1/16"
+  | "1/4T"
+  | "1/8T"
+  | "1/16T"
+  | "1/4."
+  | "1/8."
+  | "1/16.";
+
+// What besides the grid a dragged time is pulled to when close enough
+export type SnapTarget = "clips" | "loop" | "markers" | "playhead";
@@ -0,0 +1,176 @@
+"use client";
+
+import { Plus, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { Knob } from "@/components/ui/knob";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import type { Track } from "@/features/core-audio/types/audio";
+import { beginPointerGesture } from "@/features/history/lib/history";
+import { cn } from "@/lib/utils";
+import { getOutputOptions, getSendOptions } from "../lib/routing";
+import { useTrackStore } from "../store/trackStore";
+
+// Select items cannot have an empty value
+const MASTER_OUTPUT = "master";
+
+interface TrackRoutingDialogProps {
+  track: Track;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+export function TrackRoutingDialog({
+  track,
+  open,
+  onOpenChange,
+}: TrackRoutingDialogProps) {
+  const { tracks, setTrackOutput, setSend, removeSend } = useTrackStore();
+  const outputOptions = getOutputOptions(tracks, track.id);
+  const sendOptions = getSendOptions(tracks, track.id).filter(
+    (t) => !track.sends.some((send) => send.returnId === t.id),
+  );
+  const trackName = (id: string) =>
+    tracks.find((t) => t.id === id)?.name ?? "Unknown";
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>{track.name} Routing</DialogTitle>
+          <DialogDescription>
+            Choose where the track's output goes and how much it sends to each
+            return. Routes that would feed a track back into itself are not
+            offered.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid grid-cols-[auto_1fr] items-center gap-x-4 gap-y-3 text-sm">
+          <label htmlFor="track-output" className="text-muted-foreground">
+            Output
+          </label>
+          <Select
+            value={track.output ?? MASTER_OUTPUT}
+            onValueChange={(value) =>
+              setTrackOutput(track.id, value === MASTER_OUTPUT ? null : value)
+            }
+          >
+            <SelectTrigger id="track-output" className="w-full">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={MASTER_OUTPUT}>Master</SelectItem>
+              {outputOptions.map((group) => (
+                <SelectItem key={group.id} value={group.id}>
+                  {group.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="space-y-2">
+          {track.sends.length === 0 ? (
+            <p className="py-4 text-center text-xs italic text-muted-foreground">
+              No sends on this track.
+            </p>
+          ) : (
+            track.sends.map((send) => (
+              <div
+                key={send.returnId}
+                className="flex items-center justify-between rounded-md border border-border bg-background/50 px-3 py-2"
+              >
+                <span className="truncate text-xs font-semibold">
+                  {trackName(send.returnId)}
+                </span>
+                <div className="flex items-center gap-2">
+                  <Knob
+                    aria-label="Send Level"
+                    value={send.level}
+                    min={0}
+                    max={1}
+                    step={0.01}
+                    defaultValue={0.5}
+                    formatValue={(level) => `Send ${Math.round(level * 100)}%`}
+                    onPointerDown={beginPointerGesture}
+                    onValueChange={(level) =>
+                      setSend(track.id, send.returnId, { level })
+                    }
+                    className="size-6"
+                  />
+                  <button
+                    type="button"
+                    aria-pressed={send.preFader}
+                    onClick={() =>
+                      setSend(track.id, send.returnId, {
+                        preFader: !send.preFader,
+                      })
+                    }
+                    className={cn(
+                      "h-6 w-10 rounded text-[10px] font-bold transition",
+                      send.preFader
+                        ? "bg-primary text-background"
+                        : "border border-border bg-card text-muted-foreground hover:text-foreground",
+                    )}
+                  >
+                    {send.preFader ? "PRE" : "POST"}
+                  </button>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    aria-label="Remove Send"
+                    onClick={() => removeSend(track.id, send.returnId)}
+                    className="h-6 w-6 text-muted-foreground hover:text-rose-500"
+                  >
+                    <Trash2 className="w-3.5 h-3.5" />
+                  </Button>
+                </div>
+              </div>
+            ))
+          )}
+        </div>
+
+        <DropdownMenu>
+          <DropdownMenuTrigger asChild>
+            <Button
+              variant="outline"
+              size="sm"
+              className="self-start"
+              disabled={sendOptions.length === 0}
+            >
+              <Plus className="w-4 h-4" /> Add Send
+            </Button>
+          </DropdownMenuTrigger>
+          <DropdownMenuContent align="start">
+            {sendOptions.map((target) => (
+              <DropdownMenuItem
+                key={target.id}
+                onSelect={() => setSend(track.id, target.id, {})}
+              >
+                {target.name}
+              </DropdownMenuItem>
+            ))}
+          </DropdownMenuContent>
+        </DropdownMenu>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,22 @@
+import type { Track } from "@/features/core-audio/types/audio";
+
+/**
+ * End time in seconds of the last block in the arrangement, or 0 if empty.
+ */
+export function getArrangementEnd(tracks: Track[]): number {
+  let end = 0;
+  for (const track of tracks) {
+    for (const block of track.blocks) {
+      end = Math.max(end, block.startTime + block.duration);
+    }
+  }
+  return end;
+}
+
+/**
+ * Where `time` lands when `length` seconds are inserted at `at`, or removed
+ * after it when negative.
+ */
+export function rippleTime(time: number, at: number, length: number): number {
+  return time < at ? time : Math.max(at, time + length);
+}
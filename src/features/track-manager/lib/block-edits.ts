@@ -0,0 +1,83 @@
+import type { AudioBlock } from "@/features/core-audio/types/audio";
+import { createClipFade, SPLIT_FADE_SECONDS } from "@/features/fades/lib/fades";
+import {
+  secondsToTicks,
+  type TempoMap,
+} from "@/features/tempo-map/lib/tempo-map";
+import { getWarpRate } from "@/features/warp/lib/warp";
+
+/**
+ * `block` with `updates` applied. A move in seconds also moves the block's
+ * musical position, and a stretched block keeps playing the same stretch
+ * of its source when a move or warp change gives it a new rate.
+ */
+export function applyBlockUpdates(
+  block: AudioBlock,
+  updates: Partial<AudioBlock>,
+  tempoMap: TempoMap,
+): AudioBlock {
+  const next = { ...block, ...updates };
+  if (updates.startTime !== undefined && updates.startTick === undefined) {
+    next.startTick = secondsToTicks(tempoMap, next.startTime);
+  }
+  if (
+    (updates.startTime !== undefined || updates.warp !== undefined) &&
+    updates.duration === undefined
+  ) {
+    next.duration =
+      (block.duration * getWarpRate(block.warp, tempoMap, block.startTime)) /
+      getWarpRate(next.warp, tempoMap, next.startTime);
+  }
+  return next;
+}
+
+/**
+ * The two parts of a block cut at `time`. Both keep the block's name, and
+ * get short fades either side of the cut so it does not click; the right
+ * part gets a new ID.
+ */
+export function splitBlock(
+  block: AudioBlock,
+  time: number,
+  tempoMap: TempoMap,
+): [AudioBlock, AudioBlock] {
+  const cut = time - block.startTime;
+  // Offsets are in source time, which a stretched block plays faster or slower
+  const rate = getWarpRate(block.warp, tempoMap, block.startTime);
+  return [
+    { ...block, duration: cut, fadeOut: createClipFade(SPLIT_FADE_SECONDS) },
+    {
+      ...block,
+      id: Math.random().toString(36).substring(7),
+      startTime: time,
+      startTick: secondsToTicks(tempoMap, time),
+      offset: block.offset + cut * rate,
+      duration: block.duration - cut,
+      fadeIn: createClipFade(SPLIT_FADE_SECONDS),
+    },
+  ];
+}
+
+// Whether `time` falls strictly inside the block, where a split can go
+export function isInsideBlock(block: AudioBlock, time: number): boolean {
+  return time > block.startTime && time < block.startTime + block.duration;
+}
+
+/**
+ * The part of `block` between `start` and `end` seconds, split off at
+ * whichever of them fall inside it, or null when it lies outside.
+ */
+export function cropBlock(
+  block: AudioBlock,
+  start: number,
+  end: number,
+  tempoMap: TempoMap,
+): AudioBlock | null {
+  if (block.startTime >= end || block.startTime + block.duration <= start) {
+    return null;
+  }
+  let part = block;
+  if (isInsideBlock(part, start)) part = splitBlock(part, start, tempoMap)[1];
+  if (isInsideBlock(part, end)) part = splitBlock(part, end, tempoMap)[0];
+  return part;
+}
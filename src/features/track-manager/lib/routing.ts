@@ -0,0 +1,130 @@
+import type { Track } from "@/features/core-audio/types/audio";
+
+// The fields routing depends on, so project tracks can be checked as well
+type RoutedTrack = Pick<Track, "id" | "kind" | "output" | "sends">;
+
+/**
+ * Tracks that `track` feeds directly, through its output or its sends.
+ */
+function destinationsOf(track: RoutedTrack): string[] {
+  const destinations = track.sends.map((send) => send.returnId);
+  if (track.output) destinations.push(track.output);
+  return destinations;
+}
+
+function walk(
+  start: string[],
+  next: (id: string) => string[],
+  visited = new Set<string>(),
+): Set<string> {
+  const stack = [...start];
+  while (stack.length > 0) {
+    const id = stack.pop() as string;
+    if (visited.has(id)) continue;
+    visited.add(id);
+    stack.push(...next(id));
+  }
+  return visited;
+}
+
+/**
+ * Every track reached by following outputs and sends from `trackId`. Holds
+ * the track itself only when its signal comes back to it.
+ */
+function reachableFrom(tracks: RoutedTrack[], trackId: string): Set<string> {
+  const byId = new Map(tracks.map((t) => [t.id, t]));
+  const destinations = (id: string) => {
+    const track = byId.get(id);
+    return track ? destinationsOf(track) : [];
+  };
+  return walk(destinations(trackId), destinations);
+}
+
+/**
+ * Every track whose signal reaches `trackId`, directly or through other
+ * groups and returns. Does not include the track itself.
+ */
+export function getUpstreamTracks(
+  tracks: RoutedTrack[],
+  trackId: string,
+): Set<string> {
+  const sources = (id: string) =>
+    tracks.filter((t) => destinationsOf(t).includes(id)).map((t) => t.id);
+  const upstream = walk(sources(trackId), sources);
+  upstream.delete(trackId);
+  return upstream;
+}
+
+/**
+ * Every track that `trackId` feeds, directly or further downstream. Does
+ * not include the track itself.
+ */
+export function getDownstreamTracks(
+  tracks: RoutedTrack[],
+  trackId: string,
+): Set<string> {
+  const downstream = reachableFrom(tracks, trackId);
+  downstream.delete(trackId);
+  return downstream;
+}
+
+/**
+ * Whether routing `sourceId` into `destinationId` would feed the source
+ * back into itself.
+ */
+export function createsFeedback(
+  tracks: RoutedTrack[],
+  sourceId: string,
+  destinationId: string,
+): boolean {
+  return (
+    sourceId === destinationId ||
+    getDownstreamTracks(tracks, destinationId).has(sourceId)
+  );
+}
+
+/**
+ * Group tracks that `trackId` may output to without creating a loop.
+ */
+export function getOutputOptions(tracks: Track[], trackId: string): Track[] {
+  return tracks.filter(
+    (t) => t.kind === "group" && !createsFeedback(tracks, trackId, t.id),
+  );
+}
+
+/**
+ * Return tracks that `trackId` may send to without creating a loop.
+ */
+export function getSendOptions(tracks: Track[], trackId: string): Track[] {
+  return tracks.filter(
+    (t) => t.kind === "return" && !createsFeedback(tracks, trackId, t.id),
+  );
+}
+
+/**
+ * Describes the first broken route: an output that is not a group, a send
+ * that is not to a return, a duplicate send or a feedback loop. Returns
+ * `null` when the routing is sound.
+ */
+export function findRoutingError(tracks: RoutedTrack[]): string | null {
+  const kinds = new Map(tracks.map((t) => [t.id, t.kind]));
+  for (const track of tracks) {
+    if (track.output && kinds.get(track.output) !== "group") {
+      return `track "${track.id}" outputs to a missing or non-group track`;
+    }
+    const returns = new Set<string>();
+    for (const send of track.sends) {
+      if (kinds.get(send.returnId) !== "return") {
+        return `track "${track.id}" sends to a missing or non-return track`;
+      }
+      if (returns.has(send.returnId)) {
+        return `track "${track.id}" has duplicate sends`;
+      }
+      returns.add(send.returnId);
+    }
+    if (reachableFrom(tracks, track.id).has(track.id)) {
+      return `track "${track.id}" feeds back into itself`;
+    }
+  }
+  return null;
+}
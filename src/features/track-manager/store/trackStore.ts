@@ -1,34 +1,166 @@
 import { create } from "zustand";
-import { Track, AudioBlock } from "../../core-audio/types/audio";
+import {
+    createTrackAutomation,
+    sortPoints,
+} from "../../automation/lib/automation";
+import type {
+    AutomationParam,
+    AutomationPoint,
+    TrackAutomation,
+} from "../../automation/types/automation";
+import { useAudioStore } from "../../core-audio/store/audioStore";
+import type {
+    AudioBlock,
+    Track,
+    TrackKind,
+    TrackSend,
+} from "../../core-audio/types/audio";
+import type { EffectDevice } from "../../effects/types/effects";
+import { createTempoMap, type TempoMap } from "../../tempo-map/lib/tempo-map";
+import { rippleTime } from "../lib/arrangement";
+import {
+    applyBlockUpdates,
+    isInsideBlock,
+    splitBlock,
+} from "../lib/block-edits";
+import { createsFeedback } from "../lib/routing";
 
 interface TrackState {
     tracks: Track[];
 }
 
 interface TrackActions {
-    addTrack: (name: string, color: string) => void;
+    setTracks: (tracks: Track[]) => void;
+    addTrack: (name: string, color: string, kind?: TrackKind) => void;
     removeTrack: (id: string) => void;
     updateTrack: (id: string, updates: Partial<Track>) => void;
     addBlock: (trackId: string, block: AudioBlock) => void;
     removeBlock: (trackId: string, blockId: string) => void;
     updateBlock: (trackId: string, blockId: string, updates: Partial<AudioBlock>) => void;
+    // Blocks on any tracks. Moves are held back so no block starts before 0,
+    // and go `trackOffset` rows up or down when every block lands on an audio
+    // track; copies return their new IDs
+    removeBlocks: (blockIds: string[]) => void;
+    moveBlocks: (blockIds: string[], delta: number, trackOffset?: number) => void;
+    addBlockCopies: (blocks: AudioBlock[], delta: number, trackOffset?: number) => string[];
+    // Splits each of the blocks that `time` falls inside; returns the IDs of
+    // the new right-hand parts
+    splitBlocks: (blockIds: string[], time: number) => string[];
+    // Time across every track: blocks crossing the edit are split there, and
+    // everything after it, automation included, moves later or earlier by the
+    // time inserted or removed
+    insertTime: (at: number, length: number) => void;
+    removeTime: (start: number, end: number) => void;
     toggleArm: (trackId: string) => void;
+    addEffect: (trackId: string, effect: EffectDevice) => void;
+    removeEffect: (trackId: string, effectId: string) => void;
+    updateEffect: (trackId: string, effectId: string, updates: Partial<EffectDevice>) => void;
+    moveEffect: (trackId: string, effectId: string, toIndex: number) => void;
+    // Routing changes that would create a feedback loop are rejected and return false
+    setTrackOutput: (trackId: string, outputId: string | null) => boolean;
+    setSend: (trackId: string, returnId: string, updates: Partial<Omit<TrackSend, "returnId">>) => boolean;
+    removeSend: (trackId: string, returnId: string) => void;
+    addAutomationPoint: (trackId: string, param: AutomationParam, point: AutomationPoint) => void;
+    updateAutomationPoint: (
+        trackId: string,
+        param: AutomationParam,
+        pointId: string,
+        updates: Partial<Omit<AutomationPoint, "id">>
+    ) => void;
+    removeAutomationPoint: (trackId: string, param: AutomationParam, pointId: string) => void;
 }
 
-export const useTrackStore = create<TrackState & TrackActions>((set) => ({
+function mapEffects(
+    tracks: Track[],
+    trackId: string,
+    update: (effects: EffectDevice[]) => EffectDevice[]
+): Track[] {
+    return tracks.map((t) => (t.id === trackId ? { ...t, effects: update(t.effects) } : t));
+}
+
+// Points are kept sorted by time
+function mapAutomation(
+    tracks: Track[],
+    trackId: string,
+    param: AutomationParam,
+    update: (points: AutomationPoint[]) => AutomationPoint[]
+): Track[] {
+    return tracks.map((t) =>
+        t.id === trackId
+            ? { ...t, automation: { ...t.automation, [param]: sortPoints(update(t.automation[param])) } }
+            : t
+    );
+}
+
+// Points moved with the time after `at` like the blocks there; when time is
+// removed (`length` negative) the points inside it go with it
+function rippleAutomation(automation: TrackAutomation, at: number, length: number): TrackAutomation {
+    const ripple = (points: AutomationPoint[]) =>
+        points
+            .filter((p) => p.time < at || p.time >= at - length)
+            .map((p) => (p.time < at ? p : { ...p, time: rippleTime(p.time, at, length) }));
+    return { volume: ripple(automation.volume), pan: ripple(automation.pan) };
+}
+
+// The track each block lands on `trackOffset` rows away, or on its own
+// track when any of them would leave the audio tracks
+function offsetTrackIds(tracks: Track[], blocks: AudioBlock[], trackOffset: number): Map<string, string> {
+    const targets = new Map<string, string>();
+    for (const block of blocks) {
+        const index = tracks.findIndex((t) => t.id === block.trackId);
+        const target = tracks[index + trackOffset];
+        if (index === -1 || target?.kind !== "audio") {
+            return new Map(blocks.map((b) => [b.id, b.trackId]));
+        }
+        targets.set(block.id, target.id);
+    }
+    return targets;
+}
+
+// Puts each of `placed` on the track it names: replaced in place when it is
+// already there, otherwise taken off its old track and added to the new one
+function placeBlocks(tracks: Track[], placed: AudioBlock[]): Track[] {
+    const byId = new Map(placed.map((b) => [b.id, b]));
+    return tracks.map((t) => {
+        const arriving = placed.filter((b) => b.trackId === t.id && !t.blocks.some((x) => x.id === b.id));
+        if (arriving.length === 0 && !t.blocks.some((b) => byId.has(b.id))) return t;
+        const staying = t.blocks.flatMap((b) => {
+            const next = byId.get(b.id);
+            if (!next) return [b];
+            return next.trackId === t.id ? [next] : [];
+        });
+        return { ...t, blocks: [...staying, ...arriving] };
+    });
+}
+
+// Every block on a track, with any that `time` falls inside split there
+function splitAt(blocks: AudioBlock[], time: number, tempoMap: TempoMap): AudioBlock[] {
+    return blocks.flatMap((b) => (isInsideBlock(b, time) ? splitBlock(b, time, tempoMap) : [b]));
+}
+
+export const useTrackStore = create<TrackState & TrackActions>((set, get) => ({
     tracks: [],
 
-    addTrack: (name, color) =>
+    setTracks: (tracks) => set({ tracks }),
+
+    addTrack: (name, color, kind = "audio") =>
         set((state) => ({
             tracks: [
                 ...state.tracks,
                 {
                     id: Math.random().toString(36).substring(7),
                     name,
+                    kind,
                     color,
                     volume: 0.8,
                     isMuted: false,
                     isSolo: false,
+                    pan: 0,
+                    stereoWidth: 1,
+                    effects: [],
+                    output: null,
+                    sends: [],
+                    automation: createTrackAutomation(),
                     blocks: [],
                 },
             ],
@@ -36,7 +168,18 @@ export const useTrackStore = create<TrackState & TrackActions>((set) => ({
 
     removeTrack: (id) =>
         set((state) => ({
-            tracks: state.tracks.filter((t) => t.id !== id),
+            // Tracks routed to the removed one fall back to the master
+            tracks: state.tracks
+                .filter((t) => t.id !== id)
+                .map((t) =>
+                    t.output === id || t.sends.some((s) => s.returnId === id)
+                        ? {
+                            ...t,
+                            output: t.output === id ? null : t.output,
+                            sends: t.sends.filter((s) => s.returnId !== id),
+                        }
+                        : t
+                ),
         })),
 
     updateTrack: (id, updates) =>
@@ -58,22 +201,223 @@ export const useTrackStore = create<TrackState & TrackActions>((set) => ({
             ),
         })),
 
-    updateBlock: (trackId, blockId, updates) =>
+    updateBlock: (trackId, blockId, updates) => {
+        const tempoMap = createTempoMap(useAudioStore.getState());
         set((state) => ({
             tracks: state.tracks.map((t) =>
                 t.id === trackId
                     ? {
                         ...t,
-                        blocks: t.blocks.map((b) => (b.id === blockId ? { ...b, ...updates } : b)),
+                        blocks: t.blocks.map((b) => (b.id === blockId ? applyBlockUpdates(b, updates, tempoMap) : b)),
                     }
                     : t
             ),
-        })),
+        }));
+    },
+
+    removeBlocks: (blockIds) => {
+        const ids = new Set(blockIds);
+        set((state) => ({
+            tracks: state.tracks.map((t) =>
+                t.blocks.some((b) => ids.has(b.id)) ? { ...t, blocks: t.blocks.filter((b) => !ids.has(b.id)) } : t
+            ),
+        }));
+    },
+
+    moveBlocks: (blockIds, delta, trackOffset = 0) => {
+        const ids = new Set(blockIds);
+        const { tracks } = get();
+        const moving = tracks.flatMap((t) => t.blocks.filter((b) => ids.has(b.id)));
+        if (moving.length === 0) return;
+        const shift = Math.max(delta, -Math.min(...moving.map((b) => b.startTime)));
+        const targets = offsetTrackIds(tracks, moving, trackOffset);
+        if (shift === 0 && moving.every((b) => targets.get(b.id) === b.trackId)) return;
+
+        const tempoMap = createTempoMap(useAudioStore.getState());
+        set({
+            tracks: placeBlocks(
+                tracks,
+                moving.map((b) => ({
+                    ...applyBlockUpdates(b, { startTime: b.startTime + shift }, tempoMap),
+                    trackId: targets.get(b.id) as string,
+                }))
+            ),
+        });
+    },
+
+    addBlockCopies: (blocks, delta, trackOffset = 0) => {
+        const { tracks } = get();
+        // Groups and returns only carry other tracks' audio
+        const copied = blocks.filter((b) => tracks.some((t) => t.id === b.trackId && t.kind === "audio"));
+        if (copied.length === 0) return [];
+        const shift = Math.max(delta, -Math.min(...copied.map((b) => b.startTime)));
+        const targets = offsetTrackIds(tracks, copied, trackOffset);
+
+        const tempoMap = createTempoMap(useAudioStore.getState());
+        const copies = copied.map((b) => ({
+            ...applyBlockUpdates(b, { startTime: b.startTime + shift }, tempoMap),
+            id: Math.random().toString(36).substring(7),
+            trackId: targets.get(b.id) as string,
+        }));
+        set({ tracks: placeBlocks(tracks, copies) });
+        return copies.map((b) => b.id);
+    },
+
+    splitBlocks: (blockIds, time) => {
+        const ids = new Set(blockIds);
+        const tempoMap = createTempoMap(useAudioStore.getState());
+        const created: string[] = [];
+        const isCut = (b: AudioBlock) => ids.has(b.id) && isInsideBlock(b, time);
+        set((state) => ({
+            tracks: state.tracks.map((t) =>
+                t.blocks.some(isCut)
+                    ? {
+                        ...t,
+                        blocks: t.blocks.flatMap((b) => {
+                            if (!isCut(b)) return [b];
+                            const parts = splitBlock(b, time, tempoMap);
+                            created.push(parts[1].id);
+                            return parts;
+                        }),
+                    }
+                    : t
+            ),
+        }));
+        return created;
+    },
+
+    insertTime: (at, length) => {
+        if (length <= 0) return;
+        const tempoMap = createTempoMap(useAudioStore.getState());
+        set((state) => ({
+            tracks: state.tracks.map((t) => ({
+                ...t,
+                blocks: t.blocks.some((b) => b.startTime + b.duration > at)
+                    ? splitAt(t.blocks, at, tempoMap).map((b) =>
+                        b.startTime >= at ? applyBlockUpdates(b, { startTime: b.startTime + length }, tempoMap) : b
+                    )
+                    : t.blocks,
+                automation: rippleAutomation(t.automation, at, length),
+            })),
+        }));
+    },
+
+    removeTime: (start, end) => {
+        const length = end - start;
+        if (length <= 0) return;
+        const tempoMap = createTempoMap(useAudioStore.getState());
+        set((state) => ({
+            tracks: state.tracks.map((t) => ({
+                ...t,
+                blocks: t.blocks.some((b) => b.startTime + b.duration > start)
+                    ? splitAt(splitAt(t.blocks, start, tempoMap), end, tempoMap)
+                        .filter((b) => b.startTime < start || b.startTime >= end)
+                        .map((b) =>
+                            b.startTime >= end
+                                ? applyBlockUpdates(b, { startTime: b.startTime - length }, tempoMap)
+                                : b
+                        )
+                    : t.blocks,
+                automation: rippleAutomation(t.automation, start, -length),
+            })),
+        }));
+    },
+
     toggleArm: (trackId) =>
         set((state) => ({
             tracks: state.tracks.map((t) => ({
                 ...t,
-                isArmed: t.id === trackId ? !t.isArmed : false,
+                isArmed: t.id === trackId && t.kind === "audio" ? !t.isArmed : false,
             })),
         })),
+
+    addEffect: (trackId, effect) =>
+        set((state) => ({
+            tracks: mapEffects(state.tracks, trackId, (effects) => [...effects, effect]),
+        })),
+
+    removeEffect: (trackId, effectId) =>
+        set((state) => ({
+            tracks: mapEffects(state.tracks, trackId, (effects) => effects.filter((e) => e.id !== effectId)),
+        })),
+
+    updateEffect: (trackId, effectId, updates) =>
+        set((state) => ({
+            tracks: mapEffects(state.tracks, trackId, (effects) =>
+                effects.map((e) => (e.id === effectId ? { ...e, ...updates } : e))
+            ),
+        })),
+
+    moveEffect: (trackId, effectId, toIndex) =>
+        set((state) => ({
+            tracks: mapEffects(state.tracks, trackId, (effects) => {
+                const effect = effects.find((e) => e.id === effectId);
+                if (!effect) return effects;
+                const rest = effects.filter((e) => e.id !== effectId);
+                const index = Math.max(0, Math.min(toIndex, rest.length));
+                return [...rest.slice(0, index), effect, ...rest.slice(index)];
+            }),
+        })),
+
+    setTrackOutput: (trackId, outputId) => {
+        const { tracks } = get();
+        if (outputId) {
+            const target = tracks.find((t) => t.id === outputId);
+            if (target?.kind !== "group" || createsFeedback(tracks, trackId, outputId)) return false;
+        }
+        set({
+            tracks: tracks.map((t) => (t.id === trackId ? { ...t, output: outputId } : t)),
+        });
+        return true;
+    },
+
+    setSend: (trackId, returnId, updates) => {
+        const { tracks } = get();
+        const track = tracks.find((t) => t.id === trackId);
+        if (!track) return false;
+
+        const existing = track.sends.find((s) => s.returnId === returnId);
+        if (!existing) {
+            const target = tracks.find((t) => t.id === returnId);
+            if (target?.kind !== "return" || createsFeedback(tracks, trackId, returnId)) return false;
+        }
+        const send: TrackSend = { returnId, level: 0.5, preFader: false, ...existing, ...updates };
+        set({
+            tracks: tracks.map((t) =>
+                t.id === trackId
+                    ? {
+                        ...t,
+                        sends: existing
+                            ? t.sends.map((s) => (s.returnId === returnId ? send : s))
+                            : [...t.sends, send],
+                    }
+                    : t
+            ),
+        });
+        return true;
+    },
+
+    removeSend: (trackId, returnId) =>
+        set((state) => ({
+            tracks: state.tracks.map((t) =>
+                t.id === trackId ? { ...t, sends: t.sends.filter((s) => s.returnId !== returnId) } : t
+            ),
+        })),
+
+    addAutomationPoint: (trackId, param, point) =>
+        set((state) => ({
+            tracks: mapAutomation(state.tracks, trackId, param, (points) => [...points, point]),
+        })),
+
+    updateAutomationPoint: (trackId, param, pointId, updates) =>
+        set((state) => ({
+            tracks: mapAutomation(state.tracks, trackId, param, (points) =>
+                points.map((p) => (p.id === pointId ? { ...p, ...updates } : p))
+            ),
+        })),
+
+    removeAutomationPoint: (trackId, param, pointId) =>
+        set((state) => ({
+            tracks: mapAutomation(state.tracks, trackId, param, (points) => points.filter((p) => p.id !== pointId)),
+        })),
 }));
@@ -0,0 +1,213 @@
+"use client";
+
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Knob } from "@/components/ui/knob";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useAudioStore } from "@/features/core-audio/store/audioStore";
+import type { AudioBlock } from "@/features/core-audio/types/audio";
+import { beginPointerGesture } from "@/features/history/lib/history";
+import { NumberField } from "@/features/tempo-map/components/NumberField";
+import { useTempoMap } from "@/features/tempo-map/hooks/use-tempo-map";
+import { MAX_BPM, MIN_BPM, tempoAt } from "@/features/tempo-map/lib/tempo-map";
+import { useTrackStore } from "@/features/track-manager/store/trackStore";
+import { cn } from "@/lib/utils";
+import {
+  getWarpRate,
+  isWarpQuality,
+  MAX_CENTS,
+  MAX_SEMITONES,
+  WARP_QUALITIES,
+  WARP_QUALITY_LABELS,
+} from "../lib/warp";
+import type { ClipWarp } from "../types/warp";
+
+interface ClipWarpDialogProps {
+  block: AudioBlock;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+function signed(value: number, unit: string): string {
+  return `${value > 0 ? "+" : ""}${Math.round(value)} ${unit}`;
+}
+
+function TransposeKnob({
+  label,
+  value,
+  max,
+  unit,
+  onChange,
+}: {
+  label: string;
+  value: number;
+  max: number;
+  unit: string;
+  onChange: (value: number) => void;
+}) {
+  return (
+    <div className="flex w-16 flex-col items-center gap-1">
+      <Knob
+        aria-label={label}
+        value={value}
+        min={-max}
+        max={max}
+        step={1}
+        origin={0}
+        defaultValue={0}
+        formatValue={(v) => signed(v, unit)}
+        onValueChange={onChange}
+        onPointerDown={beginPointerGesture}
+        className="size-8"
+      />
+      <span className="text-[10px] text-muted-foreground">{label}</span>
+      <span className="font-mono text-[10px] text-foreground">
+        {signed(value, unit)}
+      </span>
+    </div>
+  );
+}
+
+/**
+ * Stretch and transpose for one clip, plus the project-wide quality of
+ * warped clips in live playback.
+ */
+export function ClipWarpDialog({
+  block,
+  open,
+  onOpenChange,
+}: ClipWarpDialogProps) {
+  const updateBlock = useTrackStore((s) => s.updateBlock);
+  const { warpQuality, setWarpQuality } = useAudioStore();
+  const tempoMap = useTempoMap();
+
+  const { warp } = block;
+  const tempo = tempoAt(tempoMap, block.startTime);
+  const rate = getWarpRate(warp, tempoMap, block.startTime);
+  const updateWarp = (updates: Partial<ClipWarp>) =>
+    updateBlock(block.trackId, block.id, { warp: { ...warp, ...updates } });
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-sm">
+        <DialogHeader>
+          <DialogTitle>Warp: {block.name}</DialogTitle>
+          <DialogDescription>
+            Stretching follows the project tempo and keeps pitch; transposing
+            keeps length.
+          </DialogDescription>
+        </DialogHeader>
+
+        <section className="space-y-2">
+          <div className="flex items-center justify-between">
+            <h3 className="text-xs font-bold uppercase tracking-wider text-muted-foreground">
+              Stretch to Tempo
+            </h3>
+            <button
+              type="button"
+              aria-pressed={warp.enabled}
+              onClick={() => updateWarp({ enabled: !warp.enabled })}
+              className={cn(
+                "h-6 w-12 rounded text-[10px] font-bold transition",
+                warp.enabled
+                  ? "bg-primary text-background"
+                  : "border border-border bg-card text-muted-foreground hover:text-foreground",
+              )}
+            >
+              {warp.enabled ? "ON" : "OFF"}
+            </button>
+          </div>
+          <div className="flex items-center gap-2 text-xs">
+            <span className="text-muted-foreground">Source</span>
+            <NumberField
+              label="Source Tempo"
+              value={warp.sourceBpm}
+              min={MIN_BPM}
+              max={MAX_BPM}
+              onChange={(sourceBpm) => updateWarp({ sourceBpm })}
+              className="w-16"
+            />
+            <span className="text-muted-foreground">BPM</span>
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => updateWarp({ sourceBpm: Math.round(tempo) })}
+              className="ml-auto h-7 text-xs"
+            >
+              Set to Project
+            </Button>
+          </div>
+          <p className="text-[10px] text-muted-foreground">
+            {warp.enabled
+              ? `Plays at ${rate.toFixed(2)}× to fit ${Math.round(tempo)} BPM.`
+              : "Plays at its own speed."}
+          </p>
+        </section>
+
+        <section className="space-y-2">
+          <h3 className="text-xs font-bold uppercase tracking-wider text-muted-foreground">
+            Transpose
+          </h3>
+          <div className="flex justify-center gap-6">
+            <TransposeKnob
+              label="Semitones"
+              value={warp.semitones}
+              max={MAX_SEMITONES}
+              unit="st"
+              onChange={(semitones) => updateWarp({ semitones })}
+            />
+            <TransposeKnob
+              label="Cents"
+              value={warp.cents}
+              max={MAX_CENTS}
+              unit="ct"
+              onChange={(cents) => updateWarp({ cents })}
+            />
+          </div>
+        </section>
+
+        <section className="space-y-2 border-t border-border pt-3">
+          <div className="flex items-center justify-between gap-2">
+            <h3 className="text-xs font-bold uppercase tracking-wider text-muted-foreground">
+              Live Quality
+            </h3>
+            <Select
+              value={warpQuality}
+              onValueChange={(value) => {
+                if (isWarpQuality(value)) setWarpQuality(value);
+              }}
+            >
+              <SelectTrigger aria-label="Live Warp Quality" className="h-7">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {WARP_QUALITIES.map((quality) => (
+                  <SelectItem key={quality} value={quality}>
+                    {WARP_QUALITY_LABELS[quality]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <p className="text-[10px] text-muted-foreground">
+            Applies to every warped clip. Lower latency keeps drums tight;
+            higher quality suits sustained sounds. Export always uses the
+            highest quality.
+          </p>
+        </section>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,207 @@
+/**
+ * Offline time and pitch processing, for render. Slower than the grain
+ * player used live but free of its artefacts: the length is changed with
+ * WSOLA (overlap-add of frames aligned on the waveform, so pitch is kept) and
+ * the pitch by band-limited resampling.
+ */
+
+const FRAME_SECONDS = 0.05;
+// How far a frame may move to line up with the previous one
+const SEARCH_SECONDS = 0.012;
+// Alignment is searched on a decimated mono mix, which is plenty to find it
+const DECIMATION = 4;
+// Zero crossings of the resampling kernel on each side, and its table
+// resolution per sample
+const SINC_ZEROS = 8;
+const KERNEL_STEPS = 256;
+
+function hannWindow(length: number): Float32Array {
+  const window = new Float32Array(length);
+  for (let n = 0; n < length; n++) {
+    window[n] = 0.5 - 0.5 * Math.cos((2 * Math.PI * n) / length);
+  }
+  return window;
+}
+
+function createGuide(channels: Float32Array[]): Float32Array {
+  const length = Math.floor(channels[0].length / DECIMATION);
+  const guide = new Float32Array(length);
+  const scale = 1 / (DECIMATION * channels.length);
+  for (const data of channels) {
+    for (let i = 0; i < length; i++) {
+      let sum = 0;
+      for (let j = 0; j < DECIMATION; j++) sum += data[i * DECIMATION + j];
+      guide[i] += sum * scale;
+    }
+  }
+  return guide;
+}
+
+// The start near `nominal` whose frame best continues the one at `target`
+function findAlignment(
+  guide: Float32Array,
+  target: number,
+  nominal: number,
+  search: number,
+  frame: number,
+): number {
+  const t = Math.floor(target / DECIMATION);
+  let best = Math.max(0, nominal);
+  let bestScore = Number.NEGATIVE_INFINITY;
+  for (let delta = -search; delta <= search; delta += DECIMATION) {
+    const candidate = nominal + delta;
+    if (candidate < 0) continue;
+    const c = Math.floor(candidate / DECIMATION);
+    const length = Math.min(
+      Math.floor(frame / DECIMATION),
+      guide.length - c,
+      guide.length - t,
+    );
+    if (length <= 0) break;
+    let dot = 0;
+    let energy = 0;
+    for (let n = 0; n < length; n++) {
+      dot += guide[t + n] * guide[c + n];
+      energy += guide[c + n] * guide[c + n];
+    }
+    const score = dot / Math.sqrt(energy + 1e-9);
+    if (score > bestScore) {
+      bestScore = score;
+      best = candidate;
+    }
+  }
+  return best;
+}
+
+// Reads the input `speed` samples per output sample, keeping its pitch
+function stretch(
+  input: Float32Array[],
+  speed: number,
+  outLength: number,
+  sampleRate: number,
+): Float32Array[] {
+  const frame = 2 * Math.round((FRAME_SECONDS * sampleRate) / 2);
+  const hop = frame / 2;
+  const search = Math.round(SEARCH_SECONDS * sampleRate);
+  const window = hannWindow(frame);
+  const guide = createGuide(input);
+  const output = input.map(() => new Float32Array(outLength));
+
+  let previous = 0;
+  for (let k = 0, out = 0; out < outLength; k++, out += hop) {
+    const nominal = Math.round(k * hop * speed);
+    const from =
+      k === 0
+        ? 0
+        : findAlignment(guide, previous + hop, nominal, search, frame);
+    const length = Math.min(frame, outLength - out);
+    input.forEach((data, channel) => {
+      const target = output[channel];
+      for (let n = 0; n < length; n++) {
+        const i = from + n;
+        if (i >= data.length) break;
+        // Nothing overlaps the first frame's rising half
+        const gain = k === 0 && n < hop ? 1 : window[n];
+        target[out + n] += data[i] * gain;
+      }
+    });
+    previous = from;
+  }
+  return output;
+}
+
+// Blackman-windowed sinc over [0, half], sampled KERNEL_STEPS per sample
+function createKernel(cutoff: number, half: number): Float32Array {
+  const kernel = new Float32Array(half * KERNEL_STEPS + 2);
+  for (let i = 0; i < kernel.length; i++) {
+    const x = i / KERNEL_STEPS;
+    const u = Math.min(1, x / half);
+    const window =
+      0.42 + 0.5 * Math.cos(Math.PI * u) + 0.08 * Math.cos(2 * Math.PI * u);
+    const arg = Math.PI * cutoff * x;
+    kernel[i] = cutoff * (arg === 0 ? 1 : Math.sin(arg) / arg) * window;
+  }
+  return kernel;
+}
+
+// Reads the input `ratio` samples per output sample, shifting its pitch
+function resample(
+  input: Float32Array,
+  ratio: number,
+  outLength: number,
+): Float32Array {
+  // Lower the cutoff when reading faster so nothing folds back
+  const cutoff = Math.min(1, 1 / ratio);
+  const half = Math.ceil(SINC_ZEROS / cutoff);
+  const kernel = createKernel(cutoff, half);
+  const output = new Float32Array(outLength);
+  for (let i = 0; i < outLength; i++) {
+    const position = i * ratio;
+    const center = Math.floor(position);
+    const first = Math.max(0, center - half + 1);
+    const last = Math.min(input.length - 1, center + half);
+    let sum = 0;
+    for (let j = first; j <= last; j++) {
+      const x = Math.abs(position - j) * KERNEL_STEPS;
+      const index = Math.floor(x);
+      const fraction = x - index;
+      sum +=
+        input[j] *
+        (kernel[index] + (kernel[index + 1] - kernel[index]) * fraction);
+    }
+    output[i] = sum;
+  }
+  return output;
+}
+
+/**
+ * Renders the part of `buffer` a warped clip plays: `duration` timeline
+ * seconds from `offset` in the source, read at `rate` source seconds per
+ * second and transposed by `detune` cents. The result starts at the clip's
+ * start and plays at normal speed.
+ */
+export function warpBuffer(
+  buffer: AudioBuffer,
+  offset: number,
+  duration: number,
+  rate: number,
+  detune: number,
+): AudioBuffer {
+  const { sampleRate, numberOfChannels } = buffer;
+  const pitch = 2 ** (detune / 1200);
+  const outLength = Math.max(1, Math.round(duration * sampleRate));
+  // Resampling reads `pitch` samples per output sample, so stretch to suit
+  const stretchedLength = Math.ceil(outLength * pitch) + 1;
+  const speed = rate / pitch;
+
+  // Room past the end for the last frame and its alignment search
+  const margin = Math.ceil((FRAME_SECONDS + SEARCH_SECONDS) * sampleRate);
+  const start = Math.min(buffer.length, Math.round(offset * sampleRate));
+  const end = Math.min(
+    buffer.length,
+    start + Math.ceil(stretchedLength * speed) + margin,
+  );
+  const input = Array.from({ length: numberOfChannels }, (_, channel) =>
+    buffer.getChannelData(channel).subarray(start, end),
+  );
+
+  const stretched =
+    speed === 1 || end <= start
+      ? input
+      : stretch(input, speed, stretchedLength, sampleRate);
+  const output = new AudioBuffer({
+    numberOfChannels,
+    length: outLength,
+    sampleRate,
+  });
+  stretched.forEach((data, channel) => {
+    output
+      .getChannelData(channel)
+      .set(
+        pitch === 1
+          ? data.subarray(0, outLength)
+          : resample(data, pitch, outLength),
+      );
+  });
+  return output;
+}
@@ -0,0 +1,62 @@
+import { type TempoMap, tempoAt } from "@/features/tempo-map/lib/tempo-map";
+import type { ClipWarp, WarpQuality } from "../types/warp";
+
+export const MAX_SEMITONES = 24;
+export const MAX_CENTS = 50;
+
+export const WARP_QUALITIES: WarpQuality[] = [
+  "low-latency",
+  "balanced",
+  "high",
+];
+
+export const WARP_QUALITY_LABELS: Record<WarpQuality, string> = {
+  "low-latency": "Low Latency",
+  balanced: "Balanced",
+  high: "High Quality",
+};
+
+export const DEFAULT_WARP_QUALITY: WarpQuality = "balanced";
+
+// Grain length and crossfade in seconds for live playback
+export const WARP_GRAINS: Record<
+  WarpQuality,
+  { grainSize: number; overlap: number }
+> = {
+  "low-latency": { grainSize: 0.05, overlap: 0.025 },
+  balanced: { grainSize: 0.1, overlap: 0.05 },
+  high: { grainSize: 0.2, overlap: 0.1 },
+};
+
+// Off, but remembering the tempo the clip was brought in at
+export function createClipWarp(sourceBpm: number): ClipWarp {
+  return { enabled: false, sourceBpm, semitones: 0, cents: 0 };
+}
+
+export function isWarpQuality(value: unknown): value is WarpQuality {
+  return WARP_QUALITIES.includes(value as WarpQuality);
+}
+
+/**
+ * Source seconds played per timeline second for a clip starting at
+ * `startTime`. A stretched clip takes the tempo at its start; ramps within
+ * the clip are not followed.
+ */
+export function getWarpRate(
+  warp: ClipWarp,
+  map: TempoMap,
+  startTime: number,
+): number {
+  if (!warp.enabled || warp.sourceBpm <= 0) return 1;
+  return tempoAt(map, startTime) / warp.sourceBpm;
+}
+
+// Transposition in cents
+export function getWarpDetune(warp: ClipWarp): number {
+  return warp.semitones * 100 + warp.cents;
+}
+
+// Whether playing at `rate` with this warp needs time and pitch processing
+export function needsWarp(warp: ClipWarp, rate: number): boolean {
+  return rate !== 1 || getWarpDetune(warp) !== 0;
+}
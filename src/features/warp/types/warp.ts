@@ -0,0 +1,14 @@
+/**
+ * Per-clip time and pitch processing. Stretching follows the project tempo
+ * where the clip starts, keeping pitch; transposing keeps length.
+ */
+export interface ClipWarp {
+  enabled: boolean; // Stretch the clip to the project tempo
+  sourceBpm: number; // Tempo the source audio was played at
+  semitones: number;
+  cents: number;
+}
+
+// Grain size used by live playback: smaller reacts faster and smears
+// transients less, larger sounds smoother on sustained material
+export type WarpQuality = "low-latency" | "balanced" | "high";
@@ -0,0 +1,58 @@
+"use client";
+
+import { useEffect, useRef } from "react";
+import { cn } from "@/lib/utils";
+import { drawPeaks } from "../lib/peaks";
+import type { WaveformPeaks } from "../types/waveform";
+
+// Browsers refuse to allocate canvases much wider than this
+const MAX_CANVAS_WIDTH = 16384;
+
+interface WaveformProps {
+  peaks: WaveformPeaks;
+  offset: number;
+  duration: number;
+  color: string;
+  // Linear gain to draw the source at
+  gain?: number;
+  className?: string;
+}
+
+/**
+ * Draws one window of a media item's waveform across the element. The element
+ * is sized by the clip, so zooming redraws through the resize observer.
+ */
+export function Waveform({
+  peaks,
+  offset,
+  duration,
+  color,
+  gain = 1,
+  className,
+}: WaveformProps) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+
+    const draw = () => {
+      const ratio = window.devicePixelRatio || 1;
+      canvas.width = Math.min(
+        MAX_CANVAS_WIDTH,
+        Math.round(canvas.clientWidth * ratio),
+      );
+      canvas.height = Math.round(canvas.clientHeight * ratio);
+      drawPeaks(canvas, peaks, { offset, duration, color, gain });
+    };
+
+    draw();
+    const observer = new ResizeObserver(draw);
+    observer.observe(canvas);
+    return () => observer.disconnect();
+  }, [peaks, offset, duration, color, gain]);
+
+  return (
+    <canvas ref={canvasRef} className={cn("block w-full h-full", className)} />
+  );
+}
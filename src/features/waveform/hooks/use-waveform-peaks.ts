@@ -0,0 +1,34 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { getWaveformPeaks } from "../lib/peaks-cache";
+import type { WaveformPeaks } from "../types/waveform";
+
+/**
+ * Loads the shared peaks for a media item. Resolves to `null` while loading,
+ * or when the media is offline (`url` is empty).
+ */
+export function useWaveformPeaks(
+  mediaId: string,
+  url: string,
+): WaveformPeaks | null {
+  const [peaks, setPeaks] = useState<WaveformPeaks | null>(null);
+
+  useEffect(() => {
+    if (!url) return;
+
+    let cancelled = false;
+    getWaveformPeaks(mediaId, url).then(
+      (loaded) => {
+        if (!cancelled) setPeaks(loaded);
+      },
+      (e) => console.error("Failed to load waveform", e),
+    );
+    return () => {
+      cancelled = true;
+    };
+  }, [mediaId, url]);
+
+  // Ignore peaks left over from a previous media item
+  return url && peaks?.mediaId === mediaId ? peaks : null;
+}
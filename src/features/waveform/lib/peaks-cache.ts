@@ -0,0 +1,37 @@
+import { loadBuffer } from "@/features/core-audio/lib/buffer-pool";
+import { getPeaks, putPeaks } from "@/features/project/lib/media-db";
+import type { WaveformPeaks } from "../types/waveform";
+import { computePeaks } from "./peaks";
+
+/**
+ * Peaks for each media item, computed at most once per session. Computed
+ * peaks are stored in IndexedDB next to the media, so reopening a project
+ * draws its waveforms without decoding anything.
+ */
+const cache = new Map<string, Promise<WaveformPeaks>>();
+
+async function loadPeaks(mediaId: string, url: string): Promise<WaveformPeaks> {
+  try {
+    const stored = await getPeaks(mediaId);
+    if (stored) return stored;
+  } catch (e) {
+    console.error("Failed to read cached peaks", e);
+  }
+
+  const peaks = computePeaks(mediaId, await loadBuffer(mediaId, url));
+  putPeaks(peaks).catch((e) => console.error("Failed to cache peaks", e));
+  return peaks;
+}
+
+export function getWaveformPeaks(
+  mediaId: string,
+  url: string,
+): Promise<WaveformPeaks> {
+  const cached = cache.get(mediaId);
+  if (cached) return cached;
+
+  const pending = loadPeaks(mediaId, url);
+  cache.set(mediaId, pending);
+  pending.catch(() => cache.delete(mediaId));
+  return pending;
+}
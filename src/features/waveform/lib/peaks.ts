@@ -0,0 +1,149 @@
+import type { PeakLevel, WaveformPeaks } from "../types/waveform";
+
+const BASE_SAMPLES_PER_PEAK = 256;
+// Each coarser level merges this many peaks of the one below
+const LEVEL_FACTOR = 4;
+const LEVEL_COUNT = 4;
+
+function computeBaseLevel(buffer: AudioBuffer): Float32Array {
+  const count = Math.ceil(buffer.length / BASE_SAMPLES_PER_PEAK);
+  const peaks = new Float32Array(count * 2);
+  const channels = Array.from({ length: buffer.numberOfChannels }, (_, i) =>
+    buffer.getChannelData(i),
+  );
+
+  for (let i = 0; i < count; i++) {
+    const start = i * BASE_SAMPLES_PER_PEAK;
+    const end = Math.min(start + BASE_SAMPLES_PER_PEAK, buffer.length);
+    let min = 0;
+    let max = 0;
+    for (const data of channels) {
+      for (let s = start; s < end; s++) {
+        const value = data[s];
+        if (value < min) min = value;
+        else if (value > max) max = value;
+      }
+    }
+    peaks[i * 2] = min;
+    peaks[i * 2 + 1] = max;
+  }
+  return peaks;
+}
+
+function downsample(peaks: Float32Array): Float32Array {
+  const count = Math.ceil(peaks.length / 2 / LEVEL_FACTOR);
+  const result = new Float32Array(count * 2);
+  for (let i = 0; i < count; i++) {
+    let min = 0;
+    let max = 0;
+    const end = Math.min((i + 1) * LEVEL_FACTOR, peaks.length / 2);
+    for (let p = i * LEVEL_FACTOR; p < end; p++) {
+      min = Math.min(min, peaks[p * 2]);
+      max = Math.max(max, peaks[p * 2 + 1]);
+    }
+    result[i * 2] = min;
+    result[i * 2 + 1] = max;
+  }
+  return result;
+}
+
+/**
+ * Summarises decoded audio into min/max peaks at several resolutions, so any
+ * zoom level can be drawn without touching the samples again.
+ */
+export function computePeaks(
+  mediaId: string,
+  buffer: AudioBuffer,
+): WaveformPeaks {
+  const levels: PeakLevel[] = [];
+  let peaks = computeBaseLevel(buffer);
+  let samplesPerPeak = BASE_SAMPLES_PER_PEAK;
+  for (let i = 0; i < LEVEL_COUNT; i++) {
+    levels.push({ samplesPerPeak, peaks });
+    peaks = downsample(peaks);
+    samplesPerPeak *= LEVEL_FACTOR;
+  }
+
+  let maxAmplitude = 0;
+  for (const value of levels[levels.length - 1].peaks) {
+    maxAmplitude = Math.max(maxAmplitude, Math.abs(value));
+  }
+
+  return {
+    mediaId,
+    sampleRate: buffer.sampleRate,
+    duration: buffer.duration,
+    maxAmplitude,
+    levels,
+  };
+}
+
+/**
+ * Picks the coarsest level that still has at least one peak per pixel.
+ */
+function selectLevel(
+  waveform: WaveformPeaks,
+  pixelsPerSecond: number,
+): PeakLevel {
+  let selected = waveform.levels[0];
+  for (const level of waveform.levels) {
+    if (waveform.sampleRate / level.samplesPerPeak < pixelsPerSecond) break;
+    selected = level;
+  }
+  return selected;
+}
+
+export interface DrawPeaksOptions {
+  // Source window to draw, in seconds
+  offset: number;
+  duration: number;
+  color: string;
+  // Linear gain the source is drawn at; louder peaks are cut off at the edges
+  gain?: number;
+}
+
+/**
+ * Draws the `offset`..`offset + duration` window of the source as a mirrored
+ * waveform filling the canvas, at the resolution that suits its width.
+ */
+export function drawPeaks(
+  canvas: HTMLCanvasElement,
+  waveform: WaveformPeaks,
+  { offset, duration, color, gain = 1 }: DrawPeaksOptions,
+) {
+  const context = canvas.getContext("2d");
+  if (!context) return;
+
+  const { width, height } = canvas;
+  context.clearRect(0, 0, width, height);
+  if (width === 0 || duration <= 0) return;
+
+  const level = selectLevel(waveform, width / duration);
+  const peaksPerSecond = waveform.sampleRate / level.samplesPerPeak;
+  const peakCount = level.peaks.length / 2;
+  const secondsPerColumn = duration / width;
+  const scale =
+    (waveform.maxAmplitude > 0 ? 1 / waveform.maxAmplitude : 1) * gain;
+  const middle = height / 2;
+
+  context.fillStyle = color;
+  for (let x = 0; x < width; x++) {
+    const start = Math.floor((offset + x * secondsPerColumn) * peaksPerSecond);
+    const end = Math.max(
+      start + 1,
+      Math.floor((offset + (x + 1) * secondsPerColumn) * peaksPerSecond),
+    );
+    if (start >= peakCount) break;
+
+    let min = 0;
+    let max = 0;
+    for (let p = start; p < Math.min(end, peakCount); p++) {
+      min = Math.min(min, level.peaks[p * 2]);
+      max = Math.max(max, level.peaks[p * 2 + 1]);
+    }
+
+    const top = Math.max(0, middle - max * scale * middle);
+    const bottom = Math.min(height, middle - min * scale * middle);
+    context.fillRect(x, top, 1, Math.max(1, bottom - top));
+  }
+}
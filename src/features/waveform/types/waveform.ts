@@ -0,0 +1,18 @@
+/**
+ * One resolution of a waveform overview: interleaved min/max pairs, each
+ * summarising `samplesPerPeak` source frames across all channels.
+ */
+export interface PeakLevel {
+  samplesPerPeak: number;
+  peaks: Float32Array;
+}
+
+export interface WaveformPeaks {
+  mediaId: string;
+  sampleRate: number;
+  duration: number;
+  // Largest absolute sample value, used to normalise drawing
+  maxAmplitude: number;
+  // Finest resolution first
+  levels: PeakLevel[];
+}